@@ -0,0 +1,53 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+import { AI_PROVIDER_NAMES, AiProviderName } from './ai.types';
+
+const DEFAULT_URLS: Record<Exclude<AiProviderName, 'mock'>, string> = {
+  ollama: 'http://127.0.0.1:11434/api/chat',
+  openai: 'http://127.0.0.1:11434/v1/chat/completions',
+  anthropic: 'https://api.anthropic.com/v1/messages',
+};
+
+/**
+ * AI konfiguráció (.env / környezeti változók):
+ * - AI_PROVIDER: ollama | openai | anthropic | mock (alapértelmezés: openai)
+ * - AI_MODEL: alapértelmezett modell (llama3.2:1b)
+ * - AI_AGENT_URL: az alapértelmezett provider URL-je (visszafelé kompatibilis)
+ * - AI_OLLAMA_URL, AI_OPENAI_URL, AI_ANTHROPIC_URL: provider-specifikus URL
+ * - AI_OPENAI_API_KEY, AI_ANTHROPIC_API_KEY
+ * - AI_TIMEOUT_MS, AI_MAX_TOKENS
+ * - AI_MOCK_RESPONSE: a mock provider fix válasza (JSON string)
+ */
+export const aiConfig = registerAs('ai', () => {
+  const provider =
+    AI_PROVIDER_NAMES.find((name) => name === process.env.AI_PROVIDER) ??
+    'openai';
+
+  const urlFor = (name: Exclude<AiProviderName, 'mock'>, envUrl?: string) =>
+    envUrl ??
+    (provider === name ? process.env.AI_AGENT_URL : undefined) ??
+    DEFAULT_URLS[name];
+
+  return {
+    provider,
+    model: process.env.AI_MODEL ?? 'llama3.2:1b',
+    timeoutMs: Number(process.env.AI_TIMEOUT_MS ?? 15000),
+    maxTokens: Number(process.env.AI_MAX_TOKENS ?? 512),
+    ollama: {
+      url: urlFor('ollama', process.env.AI_OLLAMA_URL),
+    },
+    openai: {
+      url: urlFor('openai', process.env.AI_OPENAI_URL),
+      apiKey: process.env.AI_OPENAI_API_KEY,
+    },
+    anthropic: {
+      url: urlFor('anthropic', process.env.AI_ANTHROPIC_URL),
+      apiKey: process.env.AI_ANTHROPIC_API_KEY,
+      version: process.env.AI_ANTHROPIC_VERSION ?? '2023-06-01',
+    },
+    mock: {
+      response: process.env.AI_MOCK_RESPONSE,
+    },
+  };
+});
+
+export type AiConfig = ConfigType<typeof aiConfig>;
@@ -1,8 +1,32 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { AiService } from './ai.service';
+import { aiConfig } from './ai.config';
+import { AI_PROVIDERS, AiProvider } from './ai.types';
+import { OllamaProvider } from './providers/ollama.provider';
+import { OpenAiCompatibleProvider } from './providers/openai-compatible.provider';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { MockProvider } from './providers/mock.provider';
+
+const PROVIDER_CLASSES = [
+  OllamaProvider,
+  OpenAiCompatibleProvider,
+  AnthropicProvider,
+  MockProvider,
+];
 
 @Module({
-  providers: [AiService],
+  imports: [ConfigModule.forFeature(aiConfig)],
+  providers: [
+    ...PROVIDER_CLASSES,
+    {
+      // az AiService innen választ provider-t név alapján
+      provide: AI_PROVIDERS,
+      useFactory: (...providers: AiProvider[]) => providers,
+      inject: PROVIDER_CLASSES,
+    },
+    AiService,
+  ],
   exports: [AiService], // hogy a CsvModule használhassa
 })
 export class AiModule {}
@@ -1,12 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AiService } from './ai.service';
+import { AiModule } from './ai.module';
 
 describe('AiService', () => {
   let service: AiService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AiService],
+      imports: [AiModule],
     }).compile();
 
     service = module.get<AiService>(AiService);
@@ -15,4 +16,26 @@ describe('AiService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('runs offline through the mock provider', async () => {
+    const raw = await service.analyzeCsvPrompt({
+      csvSample: 'ID,Nev\n1,Anna',
+      provider: 'mock',
+    });
+
+    expect(JSON.parse(raw)).toEqual({
+      explanation: expect.any(String) as string,
+      issues: [],
+      actions: [],
+    });
+  });
+
+  it('rejects an unknown provider', async () => {
+    await expect(
+      service.analyzeCsvPrompt({
+        csvSample: 'a',
+        provider: 'nope' as never,
+      }),
+    ).rejects.toThrow('Unknown AI provider: nope');
+  });
 });
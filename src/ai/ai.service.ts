@@ -1,80 +1,91 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
 import axios, { AxiosError } from 'axios';
+import { aiConfig } from './ai.config';
+import type { AiConfig } from './ai.config';
+import {
+  AI_PROVIDERS,
+  AiChatMessage,
+  AiModelSelection,
+  AiProvider,
+  AiRepairContext,
+} from './ai.types';
 
 /**
- * Bemenet az AI-nak – ugyanaz a shape, mint AnalyzeCsvDto.
+ * Bemenet az AI-nak – ugyanaz a shape, mint AnalyzeCsvDto
+ * (+ opcionális, kérésenkénti provider / modell választás).
  */
-export interface AnalyzeCsvPromptInput {
+export interface AnalyzeCsvPromptInput extends AiModelSelection {
   csvSample: string;
   delimiter?: string;
   hasHeader?: boolean;
-}
-
-/**
- * Ollama /v1/chat/completions minimális válasz-típus.
- */
-interface AiChatCompletionResponse {
-  choices: {
-    message: {
-      content: string;
-    };
-  }[];
+  columnProfile?: string;
+  /** A folyamatban lévő AI hívás megszakítása. */
+  signal?: AbortSignal;
 }
 
 @Injectable()
 export class AiService {
   private readonly logger = new Logger(AiService.name);
-  private readonly apiUrl: string;
-  private readonly model: string;
 
-  constructor() {
-    this.apiUrl =
-      process.env.AI_AGENT_URL ?? 'http://127.0.0.1:11434/v1/chat/completions';
-
-    this.model = process.env.AI_MODEL ?? 'llama3.2:1b';
-
-    this.logger.log(`AI SERVICE INIT: url=${this.apiUrl}, model=${this.model}`);
+  constructor(
+    @Inject(aiConfig.KEY) private readonly config: AiConfig,
+    @Inject(AI_PROVIDERS) private readonly providers: AiProvider[],
+  ) {
+    this.logger.log(
+      `AI SERVICE INIT: provider=${config.provider}, model=${config.model}`,
+    );
   }
 
   /**
-   * AI hívás: system + user prompt felépítése, HTTP POST az Ollama felé,
-   * majd a message.content (nyers string) visszaadása.
+   * AI hívás: system + user prompt felépítése, a kiválasztott provider
+   * meghívása, majd a nyers válasz-szöveg visszaadása.
+   *
+   * Ha repair meg van adva, a beszélgetést folytatjuk: visszaküldjük
+   * a modell előző válaszát és a validálási hibákat, hogy javítsa.
    */
-  async analyzeCsvPrompt(input: AnalyzeCsvPromptInput): Promise<string> {
-    const systemPrompt = this.buildSystemPrompt();
-    const userPrompt = this.buildUserPrompt(input);
+  async analyzeCsvPrompt(
+    input: AnalyzeCsvPromptInput,
+    repair?: AiRepairContext,
+  ): Promise<string> {
+    const provider = this.resolveProvider(input.provider);
+    const model = input.model ?? this.config.model;
+
+    const messages: AiChatMessage[] = [
+      { role: 'system', content: this.buildSystemPrompt() },
+      { role: 'user', content: this.buildUserPrompt(input) },
+    ];
+
+    if (repair) {
+      messages.push(
+        { role: 'assistant', content: repair.previousResponse },
+        { role: 'user', content: this.buildRepairPrompt(repair.errors) },
+      );
+    }
 
     this.logger.log(
-      `AI: calling agent at ${this.apiUrl} with model=${this.model}`,
+      `AI: calling provider=${provider.name} with model=${model}`,
     );
 
     try {
-      const { data } = await axios.post<AiChatCompletionResponse>(
-        this.apiUrl,
-        {
-          model: this.model,
-          temperature: 0,
-          max_tokens: 512,
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: userPrompt },
-          ],
-        },
-        {
-          timeout: 15000,
-        },
-      );
+      const content = await provider.chat({
+        model,
+        messages,
+        temperature: 0,
+        maxTokens: this.config.maxTokens,
+        timeoutMs: this.config.timeoutMs,
+        signal: input.signal,
+      });
 
       this.logger.log('AI: response received from agent');
 
-      const content = data.choices?.[0]?.message?.content;
-
       if (!content || typeof content !== 'string') {
         this.logger.error(
-          `AI response has no usable content: ${JSON.stringify(data).substring(
-            0,
-            500,
-          )}...`,
+          `AI response has no usable content (provider=${provider.name})`,
         );
         throw new Error('AI returned empty or invalid content.');
       }
@@ -136,6 +147,17 @@ export class AiService {
     }
   }
 
+  /**
+   * Provider kiválasztása név alapján (kérésből vagy konfigurációból).
+   */
+  private resolveProvider(name = this.config.provider): AiProvider {
+    const provider = this.providers.find((p) => p.name === name);
+    if (!provider) {
+      throw new BadRequestException(`Unknown AI provider: ${name}`);
+    }
+    return provider;
+  }
+
   // ---------------------------------------------------------------------------
   // SYSTEM PROMPT
   // ---------------------------------------------------------------------------
@@ -183,7 +205,8 @@ IMPORTANT GLOBAL RULES:
    - If there is ANY problem, "actions" SHOULD be NON-EMPTY.
    - Each action object MUST have at least:
        { "type": "...", "column_index": 0 }
-     (column_index is only required for numeric-related actions).
+     (a column reference is only required for column-specific actions;
+     "column_name" may be used instead of "column_index").
    - You MUST choose "type" from this LIMITED SET:
 
      - "TRIM_WHITESPACE"
@@ -198,8 +221,134 @@ IMPORTANT GLOBAL RULES:
 
      - "REMOVE_EMPTY_ROWS"
        Remove rows where all cells are empty or only whitespace.
+       OPTIONAL: "ignore_columns": array of column names or 0-based indexes (e.g. an ID column)
+       that are not considered, so a row with only an ID counts as empty.
+
+     - "STANDARDIZE_NULLS"
+       Replace missing-value markers ("N/A", "-", "null", "nincs", whitespace-only cells) with one
+       canonical value. OPTIONAL column ("column_name" or "column_index"; default: every column),
+       "tokens": array of markers (case-insensitive, replaces the default list),
+       "null_value": the canonical value (default "", an empty cell).
+       Use it BEFORE "REMOVE_EMPTY_ROWS" and "IMPUTE".
+
+     - "IMPUTE"
+       Fill the empty cells of ONE column.
+       REQUIRED: the column ("column_name" or "column_index") and
+       "strategy": "mean" | "median" | "constant" | "mode" | "forward-fill".
+       Use "mean" / "median" only for numeric columns (the number format params of COERCE_NUMERIC
+       apply), "mode" / "forward-fill" for categories. "constant" REQUIRES "value".
+       OPTIONAL: "decimals": 0-4 for "mean" / "median".
+       Only fill values when the data clearly allows it; a missing value is often better than a guess.
 
      - "COERCE_NUMERIC"
+       Convert the values of ONE column to plain numbers.
+       REQUIRED: the column, either "column_name" (header text, preferred when
+       the CSV has a header) or "column_index" (0-based integer).
+       OPTIONAL: "on_error": "drop-row" | "set-null" | "set-zero"
+       (what to do with values that are not numbers, default "drop-row").
+       OPTIONAL number format: "locale" (e.g. "hu-HU"), "decimal_separator": "." | ",",
+       "thousands_separator": " " | "." | "," | "'" | "".
+       Without a format a single dot is a decimal point ("47.497" -> 47.497, but also
+       "12.500" -> 12.5), and ambiguous values are NOT converted ("1,234", and amounts with a
+       currency mark like "12.500 Ft" or "1,250 Ft"), so set "locale": "hu-HU" for Hungarian
+       numbers like "12.500", "12.500 Ft" or "1 234,5".
+       Percent signs and currency marks are removed ("45%" -> 45, "12 500 Ft" -> 12500).
+
+     - "NORMALIZE_CURRENCY"
+       Convert money values ("12.500 Ft", "€ 1,234.50", "HUF 990") to plain amounts.
+       REQUIRED: the column ("column_name" or "column_index").
+       OPTIONAL: the number format params above, "currency": "HUF" | "EUR" | "USD" | "GBP" | "CHF"
+       (expected currency; values in another currency are errors), "output": "amount" | "amount-code"
+       ("12500" or "12500 HUF"), "decimals": 0-4,
+       "on_error": "drop-row" | "set-null" | "keep" (default "keep").
+
+     - "NORMALIZE_DATE"
+       Convert dates ("2024.03.05.", "05/03/2024", "2024-03-05T10:00") to one format.
+       REQUIRED: the column ("column_name" or "column_index").
+       OPTIONAL: "input_order": "auto" | "YMD" | "DMY" | "MDY" (default "auto": day/month
+       order is only decided when unambiguous), "output_format": "YYYY-MM-DD" | "YYYY.MM.DD." |
+       "DD.MM.YYYY" | "DD/MM/YYYY" | "MM/DD/YYYY" (default "YYYY-MM-DD"),
+       "on_error": "drop-row" | "set-null" | "keep" (default "keep").
+
+     - "VALIDATE_FIELD"
+       Check the values of ONE column against a known format and normalize valid values.
+       REQUIRED: the column ("column_name" or "column_index") and
+       "validator": "email" | "phone" | "url" | "hu-postal-code" | "hu-tax-number" | "hu-taj".
+       ("phone" rewrites to E.164, e.g. "06 30 123 4567" -> "+36301234567";
+       "hu-tax-number" and "hu-taj" verify the checksum.)
+       OPTIONAL: "on_error": "drop-row" | "blank" | "flag" (default "flag": keep the row,
+       report the value), "normalize": true | false (default true).
+       Use it for columns that clearly hold e-mails, phone numbers, URLs or Hungarian IDs.
+
+     - "DEDUPLICATE"
+       Remove duplicate rows (e.g. the same contact exported twice). The header row is never compared.
+       OPTIONAL: "key_columns": array of column names or 0-based indexes to compare
+       (default: the whole row), "match": "exact" | "fuzzy" (fuzzy ignores case, whitespace
+       and accents), "threshold": 0-1 similarity for fuzzy (default 0.9),
+       "keep": "first" | "last" | "most-complete" (default "first").
+
+     STRUCTURAL actions (change the columns themselves; the header row is updated too).
+     Later actions see the NEW layout: refer to columns by "column_name" after these.
+     A column list ("columns") is an array of column names or 0-based indexes.
+
+     - "SPLIT_COLUMN"
+       REQUIRED: the column and "into": array of >= 2 new column names. OPTIONAL: "separator"
+       (default " ", any whitespace), "keep_original": true | false (default false).
+       The last new column gets the remainder ("Kovács Éva Mária" -> "Kovács", "Éva Mária").
+
+     - "MERGE_COLUMNS"
+       REQUIRED: "columns" and "into" (new column name). OPTIONAL: "separator" (default " "),
+       "keep_original" (default false). Empty parts are skipped.
+
+     - "RENAME_COLUMN"
+       REQUIRED: the column and "new_name".
+
+     - "REORDER_COLUMNS"
+       REQUIRED: "columns" (moved to the front in this order, the rest follow).
+
+     - "DROP_COLUMNS"
+       REQUIRED: "columns". Use it only for clearly useless columns (e.g. an empty trailing column).
+
+     - "DERIVE_COLUMN"
+       REQUIRED: "into" (new column name, appended at the end) and "template"
+       with {column name} or {0-based index} placeholders, e.g. "{Vezeteknev} {Keresztnev}".
+
+     - "REGEX_REPLACE"
+       REQUIRED: "pattern" (JavaScript regular expression) and "replacement" ($1, $2 refer to
+       capture groups). OPTIONAL: the column (default: every column), "flags" (default "g").
+       Patterns with a repeated group containing a quantifier or "|" (e.g. "(a+)+", "(a|b)*") or
+       with adjacent overlapping repetitions (e.g. "\\d+\\d+") are discarded; use a character
+       class instead (e.g. "[ab]+").
+
+     - "NORMALIZE_HEADERS"
+       Rewrite the header row to unique snake_case names without accents
+       (e.g. "Életkor " -> "eletkor", a repeated "Név" -> "nev", "nev_2").
+       Use it when header names have inconsistent casing, accents, spaces
+       or duplicates. Later actions may still refer to the original names.
+
+     TEXT NORMALIZATION actions (for names and free-text columns).
+     Each takes an OPTIONAL column ("column_name" or "column_index");
+     without a column it applies to EVERY column (the header row is never changed).
+
+     - "COLLAPSE_WHITESPACE"
+       Replace runs of spaces / tabs / newlines inside a cell with ONE space and trim it
+       (e.g. "  Janos   Kovacs  " -> "Janos Kovacs").
+
+     - "UNICODE_NORMALIZE"
+       OPTIONAL: "form": "NFC" | "NFKC" (default "NFC").
+       Use "NFKC" to also replace compatibility characters (e.g. full-width digits, ligatures).
+
+     - "CHANGE_CASE"
+       REQUIRED: "case": "upper" | "lower" | "title" (Hungarian locale rules,
+       "title" capitalizes every word: "kovács-nagy éva" -> "Kovács-Nagy Éva").
+       Use it ONLY for a specific column with inconsistent casing (e.g. names, cities).
+
+     - "STRIP_CONTROL_CHARS"
+       Remove invisible control characters, zero-width spaces and stray BOMs.
+
+     - "FOLD_ACCENTS"
+       Remove accents ("Árvíztűrő" -> "Arvizturo"). Use it ONLY when the column
+       clearly mixes accented and unaccented spellings of the same values.
 
 5) Treat even small problems (extra quotes, extra spaces, non-numeric values in a numeric column,
    inconsistent column counts, empty rows) as REAL problems.
@@ -208,12 +357,28 @@ Output MUST be a single JSON object only.
     `.trim();
   }
 
+  // ---------------------------------------------------------------------------
+  // REPAIR PROMPT
+  // ---------------------------------------------------------------------------
+
+  private buildRepairPrompt(errors: string[]): string {
+    return `
+Your previous answer could NOT be used, because it does not match the required
+JSON shape. Problems found:
+
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Fix ALL of these problems and answer again with EXACTLY ONE JSON object,
+following the rules of the system prompt. Output ONLY the JSON object.
+    `.trim();
+  }
+
   // ---------------------------------------------------------------------------
   // USER PROMPT
   // ---------------------------------------------------------------------------
 
   private buildUserPrompt(input: AnalyzeCsvPromptInput): string {
-    const { csvSample, delimiter, hasHeader } = input;
+    const { csvSample, delimiter, hasHeader, columnProfile } = input;
 
     const metaParts: string[] = [];
     if (delimiter) metaParts.push(`Delimiter: "${delimiter}"`);
@@ -232,7 +397,14 @@ simple data-quality problems, and respond with EXACTLY ONE JSON object.
 
 Meta:
 ${metaInfo}
-
+${
+  columnProfile
+    ? `
+COLUMN PROFILE (computed over ALL rows; #index is the 0-based column_index):
+${columnProfile}
+`
+    : ''
+}
 CSV SAMPLE:
 ${csvSample}
     `.trim();
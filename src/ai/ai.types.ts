@@ -0,0 +1,62 @@
+/**
+ * Egy chat üzenet az LLM felé (OpenAI / Ollama kompatibilis szerepkörök).
+ */
+export interface AiChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Javító kör: az előző (hibás) AI válasz és a validálási hibák.
+ * Ezeket visszaküldjük a modellnek, hogy javítsa a saját JSON-ját.
+ */
+export interface AiRepairContext {
+  previousResponse: string;
+  errors: string[];
+}
+
+/**
+ * A támogatott AI backendek. Az alapértelmezettet az AI_PROVIDER env
+ * változó adja, kérésenként felülírható.
+ */
+export const AI_PROVIDER_NAMES = [
+  'ollama',
+  'openai',
+  'anthropic',
+  'mock',
+] as const;
+export type AiProviderName = (typeof AI_PROVIDER_NAMES)[number];
+
+/**
+ * Kérésenkénti modell-választás (ha hiányzik, a konfiguráció dönt).
+ */
+export interface AiModelSelection {
+  provider?: AiProviderName;
+  model?: string;
+}
+
+/**
+ * Egy chat hívás backend-független leírása.
+ */
+export interface AiChatRequest {
+  model: string;
+  messages: AiChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+  /** A hívás megszakítása (pl. törölt háttér-job). */
+  signal?: AbortSignal;
+}
+
+/**
+ * Egy AI backend: chat üzenetekből nyers szöveges választ készít.
+ * A prompt-építés és a válasz értelmezése NEM a provider dolga (AiService,
+ * CsvService), így a backendek szabadon cserélhetők.
+ */
+export interface AiProvider {
+  readonly name: AiProviderName;
+  chat(request: AiChatRequest): Promise<string>;
+}
+
+/** DI token: az összes regisztrált AiProvider tömbje. */
+export const AI_PROVIDERS = Symbol('AI_PROVIDERS');
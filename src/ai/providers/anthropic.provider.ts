@@ -0,0 +1,60 @@
+import { Inject, Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { aiConfig } from '../ai.config';
+import type { AiConfig } from '../ai.config';
+import { AiChatRequest, AiProvider } from '../ai.types';
+
+/**
+ * Anthropic /v1/messages minimális válasz-típus.
+ */
+interface AnthropicMessagesResponse {
+  content?: {
+    type: string;
+    text?: string;
+  }[];
+}
+
+/**
+ * Anthropic-stílusú messages API.
+ * A system prompt itt külön mezőben megy, nem üzenetként.
+ */
+@Injectable()
+export class AnthropicProvider implements AiProvider {
+  readonly name = 'anthropic';
+
+  constructor(@Inject(aiConfig.KEY) private readonly config: AiConfig) {}
+
+  async chat(request: AiChatRequest): Promise<string> {
+    const { url, apiKey, version } = this.config.anthropic;
+
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const messages = request.messages.filter((m) => m.role !== 'system');
+
+    const { data } = await axios.post<AnthropicMessagesResponse>(
+      url,
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        system: system || undefined,
+        messages,
+      },
+      {
+        timeout: request.timeoutMs,
+        signal: request.signal,
+        headers: {
+          'anthropic-version': version,
+          ...(apiKey ? { 'x-api-key': apiKey } : {}),
+        },
+      },
+    );
+
+    return (data.content ?? [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text ?? '')
+      .join('');
+  }
+}
@@ -0,0 +1,29 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { aiConfig } from '../ai.config';
+import type { AiConfig } from '../ai.config';
+import { AiProvider } from '../ai.types';
+
+/**
+ * Alapértelmezett mock válasz: érvényes, üres tisztítási terv.
+ */
+const DEFAULT_MOCK_RESPONSE = JSON.stringify({
+  explanation: 'Mock AI review: no additional problems reported.',
+  issues: [],
+  actions: [],
+});
+
+/**
+ * Determinisztikus, hálózat nélküli provider (tesztekhez, offline futáshoz).
+ * Mindig ugyanazt adja vissza: az AI_MOCK_RESPONSE értékét, vagy egy
+ * érvényes, üres tervet.
+ */
+@Injectable()
+export class MockProvider implements AiProvider {
+  readonly name = 'mock';
+
+  constructor(@Inject(aiConfig.KEY) private readonly config: AiConfig) {}
+
+  chat(): Promise<string> {
+    return Promise.resolve(this.config.mock.response ?? DEFAULT_MOCK_RESPONSE);
+  }
+}
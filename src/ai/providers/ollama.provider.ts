@@ -0,0 +1,42 @@
+import { Inject, Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { aiConfig } from '../ai.config';
+import type { AiConfig } from '../ai.config';
+import { AiChatRequest, AiProvider } from '../ai.types';
+
+/**
+ * Ollama natív /api/chat minimális válasz-típus (stream: false esetén).
+ */
+interface OllamaChatResponse {
+  message?: {
+    content?: string;
+  };
+}
+
+/**
+ * Ollama natív chat API (/api/chat).
+ */
+@Injectable()
+export class OllamaProvider implements AiProvider {
+  readonly name = 'ollama';
+
+  constructor(@Inject(aiConfig.KEY) private readonly config: AiConfig) {}
+
+  async chat(request: AiChatRequest): Promise<string> {
+    const { data } = await axios.post<OllamaChatResponse>(
+      this.config.ollama.url,
+      {
+        model: request.model,
+        stream: false,
+        messages: request.messages,
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+        },
+      },
+      { timeout: request.timeoutMs, signal: request.signal },
+    );
+
+    return data.message?.content ?? '';
+  }
+}
@@ -0,0 +1,48 @@
+import { Inject, Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { aiConfig } from '../ai.config';
+import type { AiConfig } from '../ai.config';
+import { AiChatRequest, AiProvider } from '../ai.types';
+
+/**
+ * /v1/chat/completions minimális válasz-típus.
+ */
+interface ChatCompletionResponse {
+  choices?: {
+    message?: {
+      content?: string;
+    };
+  }[];
+}
+
+/**
+ * OpenAI-kompatibilis chat completions API
+ * (OpenAI, Ollama /v1, LM Studio, vLLM, llama.cpp server stb.).
+ */
+@Injectable()
+export class OpenAiCompatibleProvider implements AiProvider {
+  readonly name = 'openai';
+
+  constructor(@Inject(aiConfig.KEY) private readonly config: AiConfig) {}
+
+  async chat(request: AiChatRequest): Promise<string> {
+    const { url, apiKey } = this.config.openai;
+
+    const { data } = await axios.post<ChatCompletionResponse>(
+      url,
+      {
+        model: request.model,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        messages: request.messages,
+      },
+      {
+        timeout: request.timeoutMs,
+        signal: request.signal,
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+      },
+    );
+
+    return data.choices?.[0]?.message?.content ?? '';
+  }
+}
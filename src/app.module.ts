@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { CsvModule } from './csv/csv.module';
 import { AiModule } from './ai/ai.module';
+import { JobsModule } from './jobs/jobs.module';
 
 @Module({
   imports: [
@@ -11,6 +12,7 @@ import { AiModule } from './ai/ai.module';
     }),
     CsvModule,
     AiModule,
+    JobsModule,
   ],
 })
 export class AppModule {}
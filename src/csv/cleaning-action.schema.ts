@@ -0,0 +1,361 @@
+import { IMPUTE_STRATEGIES, isValidRegex } from './csv-engine.service';
+import { UNSAFE_REGEX_MESSAGE, isSafeRegex } from './csv-regex';
+import type { CleaningAction } from './csv-engine.service';
+import {
+  CURRENCY_CODES,
+  DATE_INPUT_ORDERS,
+  DATE_OUTPUT_FORMATS,
+  DECIMAL_SEPARATORS,
+  THOUSANDS_SEPARATORS,
+  isSupportedLocale,
+} from './csv-values';
+import { FIELD_VALIDATOR_NAMES } from './csv-validators';
+import { DUPLICATE_MATCH_MODES } from './csv-duplicates';
+
+/**
+ * A CleaningAction-ök paraméter-sémája.
+ *
+ * Ezzel validáljuk a kívülről (AI-tól vagy klienstől) érkező nyers action
+ * listát, MIELŐTT a mapToCleaningActions alapértékekkel kitöltené.
+ * Új action típusnál ide is fel kell venni a paramétereit.
+ *
+ * A kulcsok camelCase-ek (a snake_case AI kimenetet előbb normalizáljuk).
+ * A sémában nem szereplő extra kulcsokat (pl. "reason") eltűrjük.
+ *
+ * Oszlop-specifikus action-nél (columnRef()) a columnIndex és columnName
+ * közül legalább az egyik kötelező; a columnRef(false)-os action-ök oszlop
+ * nélkül minden oszlopra vonatkoznak.
+ */
+
+/** Egy paraméter ellenőrzője: hibaüzenet, vagy undefined ha rendben van. */
+type ParamCheck = (value: unknown) => string | undefined;
+
+interface ParamRule {
+  required: boolean;
+  /** Azonos csoportú paraméterek közül legalább egy kötelező. */
+  oneOf?: string;
+  check: ParamCheck;
+}
+
+type ActionSchema = Record<string, ParamRule>;
+
+const integerParam =
+  (min = 0): ParamCheck =>
+  (value) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min
+      ? undefined
+      : `must be an integer >= ${min}`;
+
+const enumParam =
+  (values: readonly string[]): ParamCheck =>
+  (value) =>
+    typeof value === 'string' && values.includes(value)
+      ? undefined
+      : `must be one of ${values.map((v) => `"${v}"`).join(', ')}`;
+
+const stringParam: ParamCheck = (value) =>
+  typeof value === 'string' && value.trim().length > 0
+    ? undefined
+    : 'must be a non-empty string';
+
+const localeParam: ParamCheck = (value) =>
+  typeof value === 'string' && isSupportedLocale(value)
+    ? undefined
+    : 'must be a supported locale (e.g. "hu-HU")';
+
+const integerRange =
+  (min: number, max: number): ParamCheck =>
+  (value) =>
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+      ? undefined
+      : `must be an integer between ${min} and ${max}`;
+
+const booleanParam: ParamCheck = (value) =>
+  typeof value === 'boolean' ? undefined : 'must be a boolean';
+
+const numberRange =
+  (min: number, max: number): ParamCheck =>
+  (value) =>
+    typeof value === 'number' && value >= min && value <= max
+      ? undefined
+      : `must be a number between ${min} and ${max}`;
+
+/** Oszlop-lista: pozíciók (0-tól) és / vagy header nevek. */
+const columnList: ParamCheck = (value) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every(
+    (entry) =>
+      integerParam()(entry) === undefined || stringParam(entry) === undefined,
+  )
+    ? undefined
+    : 'must be a non-empty array of column indexes or names';
+
+/** Bármilyen szöveg (az üres is). */
+const textParam: ParamCheck = (value) =>
+  typeof value === 'string' ? undefined : 'must be a string';
+
+const stringList: ParamCheck = (value) =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((entry) => typeof entry === 'string')
+    ? undefined
+    : 'must be a non-empty array of strings';
+
+/** Nem üres szöveg (a ' ' is érvényes elválasztó). */
+const separatorParam: ParamCheck = (value) =>
+  typeof value === 'string' && value.length > 0
+    ? undefined
+    : 'must be a non-empty string';
+
+const nameList =
+  (min: number): ParamCheck =>
+  (value) =>
+    Array.isArray(value) &&
+    value.length >= min &&
+    value.every((entry) => stringParam(entry) === undefined)
+      ? undefined
+      : `must be an array of at least ${min} non-empty strings`;
+
+/** A mintát a flag-ekkel együtt az ACTION_RULES ellenőrzi. */
+const regexParam: ParamCheck = (value) =>
+  typeof value === 'string' ? undefined : 'must be a valid regular expression';
+
+const regexFlagsParam: ParamCheck = (value) =>
+  typeof value === 'string' &&
+  /^[gimsuvy]*$/.test(value) &&
+  isValidRegex('', value)
+    ? undefined
+    : 'must be a combination of the regex flags g, i, m, s, u, v, y';
+
+const required = (check: ParamCheck): ParamRule => ({ required: true, check });
+const optional = (check: ParamCheck): ParamRule => ({ required: false, check });
+
+/** Oszlop-hivatkozás: columnIndex (0-tól) vagy header név. */
+const columnRef = (mandatory = true): ActionSchema => {
+  const oneOf = mandatory ? 'columnIndex or columnName' : undefined;
+  return {
+    columnIndex: { ...optional(integerParam()), oneOf },
+    columnName: { ...optional(stringParam), oneOf },
+  };
+};
+
+/** Számformátum: locale és / vagy elválasztók. */
+const numberFormat = (): ActionSchema => ({
+  locale: optional(localeParam),
+  decimalSeparator: optional(enumParam(DECIMAL_SEPARATORS)),
+  thousandsSeparator: optional(enumParam(THOUSANDS_SEPARATORS)),
+});
+
+const NORMALIZE_ON_ERROR = ['drop-row', 'set-null', 'keep'];
+
+export const CLEANING_ACTION_SCHEMAS: Record<
+  CleaningAction['type'],
+  ActionSchema
+> = {
+  TRIM_WHITESPACE: {},
+  STRIP_WRAPPING_QUOTES: {},
+  ENSURE_EQUAL_COLUMNS: {
+    mode: optional(enumParam(['drop-row', 'pad-with-empty'])),
+  },
+  REMOVE_EMPTY_ROWS: {
+    ignoreColumns: optional(columnList),
+  },
+  COERCE_NUMERIC: {
+    ...columnRef(),
+    ...numberFormat(),
+    onError: optional(enumParam(['drop-row', 'set-null', 'set-zero'])),
+  },
+  NORMALIZE_CURRENCY: {
+    ...columnRef(),
+    ...numberFormat(),
+    currency: optional(enumParam(CURRENCY_CODES)),
+    output: optional(enumParam(['amount', 'amount-code'])),
+    decimals: optional(integerRange(0, 4)),
+    onError: optional(enumParam(NORMALIZE_ON_ERROR)),
+  },
+  NORMALIZE_DATE: {
+    ...columnRef(),
+    inputOrder: optional(enumParam(DATE_INPUT_ORDERS)),
+    outputFormat: optional(enumParam(DATE_OUTPUT_FORMATS)),
+    onError: optional(enumParam(NORMALIZE_ON_ERROR)),
+  },
+  STANDARDIZE_NULLS: {
+    ...columnRef(false),
+    tokens: optional(stringList),
+    nullValue: optional(textParam),
+  },
+  IMPUTE: {
+    ...columnRef(),
+    ...numberFormat(),
+    strategy: required(enumParam(IMPUTE_STRATEGIES)),
+    value: optional(textParam),
+    decimals: optional(integerRange(0, 4)),
+  },
+  VALIDATE_FIELD: {
+    ...columnRef(),
+    validator: required(enumParam(FIELD_VALIDATOR_NAMES)),
+    onError: optional(enumParam(['drop-row', 'blank', 'flag'])),
+    normalize: optional(booleanParam),
+  },
+  DEDUPLICATE: {
+    keyColumns: optional(columnList),
+    match: optional(enumParam(DUPLICATE_MATCH_MODES)),
+    threshold: optional(numberRange(0, 1)),
+    keep: optional(enumParam(['first', 'last', 'most-complete'])),
+  },
+  SPLIT_COLUMN: {
+    ...columnRef(),
+    separator: optional(separatorParam),
+    into: required(nameList(2)),
+    keepOriginal: optional(booleanParam),
+  },
+  MERGE_COLUMNS: {
+    columns: required(columnList),
+    separator: optional(textParam),
+    into: required(stringParam),
+    keepOriginal: optional(booleanParam),
+  },
+  RENAME_COLUMN: {
+    ...columnRef(),
+    newName: required(stringParam),
+  },
+  REORDER_COLUMNS: {
+    columns: required(columnList),
+  },
+  DROP_COLUMNS: {
+    columns: required(columnList),
+  },
+  DERIVE_COLUMN: {
+    into: required(stringParam),
+    template: required(stringParam),
+  },
+  REGEX_REPLACE: {
+    ...columnRef(false),
+    pattern: required(regexParam),
+    replacement: required(textParam),
+    flags: optional(regexFlagsParam),
+  },
+  NORMALIZE_HEADERS: {},
+  COLLAPSE_WHITESPACE: columnRef(false),
+  UNICODE_NORMALIZE: {
+    ...columnRef(false),
+    form: optional(enumParam(['NFC', 'NFKC'])),
+  },
+  CHANGE_CASE: {
+    ...columnRef(false),
+    case: required(enumParam(['upper', 'lower', 'title'])),
+  },
+  STRIP_CONTROL_CHARS: columnRef(false),
+  FOLD_ACCENTS: columnRef(false),
+};
+
+/**
+ * Több paramétert érintő szabályok (a paraméterenkénti séma után futnak).
+ */
+const ACTION_RULES: Partial<
+  Record<CleaningAction['type'], (action: Record<string, unknown>) => string[]>
+> = {
+  IMPUTE: (action) =>
+    action.strategy === 'constant' &&
+    (action.value === undefined || action.value === null)
+      ? ['.value is required for IMPUTE with strategy "constant"']
+      : [],
+  // a minta csak a flag-ekkel együtt ugyanaz a regex, mint amit az
+  // applyAction felépít (pl. a v flag halmaz-szintaxisa)
+  REGEX_REPLACE: (action) => {
+    const flags = action.flags ?? 'g';
+    if (
+      typeof action.pattern !== 'string' ||
+      typeof flags !== 'string' ||
+      regexFlagsParam(flags) !== undefined
+    ) {
+      return [];
+    }
+    if (!isValidRegex(action.pattern, flags)) {
+      return [
+        `.pattern must be a valid regular expression with flags "${flags}"`,
+      ];
+    }
+    return isSafeRegex(action.pattern, flags)
+      ? []
+      : [`.pattern ${UNSAFE_REGEX_MESSAGE}`];
+  },
+};
+
+/**
+ * Egy nyers action lista szigorú ellenőrzése.
+ * Visszaadja az összes talált hibát ("actions[2].columnIndex must be ...");
+ * üres tömb esetén a lista érvényes.
+ */
+export function validateCleaningActions(rawActions: unknown[]): string[] {
+  const errors: string[] = [];
+  const knownTypes = Object.keys(CLEANING_ACTION_SCHEMAS);
+
+  rawActions.forEach((raw, index) => {
+    const path = `actions[${index}]`;
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const action = raw as Record<string, unknown>;
+
+    if (typeof action.type !== 'string') {
+      errors.push(`${path}.type must be a string`);
+      return;
+    }
+
+    if (!knownTypes.includes(action.type)) {
+      errors.push(
+        `${path}.type "${action.type}" is not allowed (allowed: ${knownTypes.join(', ')})`,
+      );
+      return;
+    }
+
+    const schema =
+      CLEANING_ACTION_SCHEMAS[action.type as CleaningAction['type']];
+
+    for (const [param, rule] of Object.entries(schema)) {
+      const value = action[param];
+
+      if (value === undefined || value === null) {
+        if (rule.required) {
+          errors.push(`${path}.${param} is required for ${action.type}`);
+        }
+        continue;
+      }
+
+      const problem = rule.check(value);
+      if (problem) {
+        errors.push(`${path}.${param} ${problem}`);
+      }
+    }
+
+    const groups = new Set(
+      Object.values(schema).flatMap((rule) => (rule.oneOf ? [rule.oneOf] : [])),
+    );
+    for (const group of groups) {
+      const present = Object.entries(schema).some(
+        ([param, rule]) =>
+          rule.oneOf === group &&
+          action[param] !== undefined &&
+          action[param] !== null,
+      );
+      if (!present) {
+        errors.push(`${path} requires ${group} for ${action.type}`);
+      }
+    }
+
+    const rule = ACTION_RULES[action.type as CleaningAction['type']];
+    for (const problem of rule?.(action) ?? []) {
+      errors.push(`${path}${problem}`);
+    }
+  });
+
+  return errors;
+}
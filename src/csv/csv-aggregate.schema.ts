@@ -0,0 +1,101 @@
+import { AGGREGATE_FUNCTIONS } from './csv-aggregate.service';
+import { isColumnRef } from './csv-query.schema';
+import { isSupportedLocale } from './csv-values';
+
+/**
+ * A /csv/aggregate kérés szigorú ellenőrzése (a DTO csak az alakot nézi).
+ * Visszaadja az összes hibát ("aggregates[1].column is required for avg");
+ * üres tömb esetén a kérés érvényes.
+ */
+
+/** A decimals felső korlátja (mint az IMPUTE-nál). */
+const MAX_DECIMALS = 10;
+
+export interface RawCsvAggregation {
+  groupBy?: unknown[];
+  aggregates: Record<string, unknown>[];
+  pivot?: Record<string, unknown>;
+  locale?: string;
+}
+
+export function validateCsvAggregation(
+  aggregation: RawCsvAggregation,
+): string[] {
+  const errors: string[] = [];
+
+  aggregation.groupBy?.forEach((column, index) => {
+    if (!isColumnRef(column)) {
+      errors.push(`groupBy[${index}] must be a column index or name`);
+    }
+  });
+
+  if (aggregation.aggregates.length === 0) {
+    errors.push('aggregates must contain at least one aggregate');
+  }
+
+  const names = new Set<string>();
+  aggregation.aggregates.forEach((aggregate, index) => {
+    const path = `aggregates[${index}]`;
+    const fn = AGGREGATE_FUNCTIONS.find((f) => f === aggregate.fn);
+    if (!fn) {
+      errors.push(
+        `${path}.fn must be one of ${AGGREGATE_FUNCTIONS.join(', ')}`,
+      );
+    }
+
+    if (aggregate.column === undefined) {
+      if (fn && fn !== 'count') {
+        errors.push(`${path}.column is required for ${fn}`);
+      }
+    } else if (!isColumnRef(aggregate.column)) {
+      errors.push(`${path}.column must be a column index or name`);
+    }
+
+    if (aggregate.as !== undefined) {
+      if (typeof aggregate.as !== 'string' || aggregate.as.trim() === '') {
+        errors.push(`${path}.as must be a non-empty string`);
+      } else if (names.has(aggregate.as)) {
+        errors.push(`${path}.as "${aggregate.as}" is used more than once`);
+      } else {
+        names.add(aggregate.as);
+      }
+    }
+
+    const decimals = aggregate.decimals;
+    if (
+      decimals !== undefined &&
+      (typeof decimals !== 'number' ||
+        !Number.isInteger(decimals) ||
+        decimals < 0 ||
+        decimals > MAX_DECIMALS)
+    ) {
+      errors.push(
+        `${path}.decimals must be an integer between 0 and ${MAX_DECIMALS}`,
+      );
+    }
+  });
+
+  const pivot = aggregation.pivot;
+  if (pivot !== undefined) {
+    if (!isColumnRef(pivot.column)) {
+      errors.push('pivot.column must be a column index or name');
+    }
+    if (
+      pivot.values !== undefined &&
+      (!Array.isArray(pivot.values) ||
+        pivot.values.length === 0 ||
+        !pivot.values.every((value) => typeof value === 'string'))
+    ) {
+      errors.push('pivot.values must be a non-empty array of strings');
+    }
+  }
+
+  if (
+    aggregation.locale !== undefined &&
+    !isSupportedLocale(aggregation.locale)
+  ) {
+    errors.push('locale must be a supported locale (e.g. "hu-HU")');
+  }
+
+  return errors;
+}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvAggregateService } from './csv-aggregate.service';
+
+describe('CsvAggregateService', () => {
+  let service: CsvAggregateService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvAggregateService],
+    }).compile();
+
+    service = module.get<CsvAggregateService>(CsvAggregateService);
+  });
+
+  const rows = [
+    ['Nev', 'Varos', 'Statusz', 'Eletkor', 'Belepes'],
+    ['Anna', 'Pécs', 'aktív', '34', '2021-03-01'],
+    ['Béla', 'Budapest', 'aktív', '27', '2019.11.15.'],
+    ['Cecil', 'Budapest', 'inaktív', 'N/A', '2023-01-10'],
+    ['Dóra', 'Pécs', 'aktív', '41,5', '2020-06-30'],
+    ['Ede', 'Budapest', 'aktív', 'ismeretlen', ''],
+  ];
+
+  it('groups by a column and computes every aggregate', () => {
+    const result = service.aggregate(rows, true, {
+      groupBy: ['Varos'],
+      aggregates: [
+        { fn: 'count' },
+        { fn: 'count-distinct', column: 'Statusz' },
+        { fn: 'sum', column: 'Eletkor' },
+        { fn: 'avg', column: 'Eletkor', as: 'atlag', decimals: 1 },
+        { fn: 'median', column: 'Eletkor' },
+        { fn: 'min', column: 'Belepes' },
+        { fn: 'max', column: 'Eletkor' },
+      ],
+      numberFormat: { locale: 'hu-HU' },
+    });
+
+    expect(result.columns).toEqual([
+      'Varos',
+      'count',
+      'count-distinct(Statusz)',
+      'sum(Eletkor)',
+      'atlag',
+      'median(Eletkor)',
+      'min(Belepes)',
+      'max(Eletkor)',
+    ]);
+    expect(result.rows).toEqual([
+      ['Pécs', 2, 1, 75.5, 37.8, 37.75, '2020-06-30', 41.5],
+      ['Budapest', 3, 2, 27, 27, 27, '2019.11.15.', 'ismeretlen'],
+    ]);
+    // a N/A null-szerű, csak az "ismeretlen" nem szám
+    expect(result.nonNumericValues).toEqual({
+      'sum(Eletkor)': 1,
+      atlag: 1,
+      'median(Eletkor)': 1,
+    });
+  });
+
+  it('pivots one column into output columns', () => {
+    const single = service.aggregate(rows, true, {
+      groupBy: ['Varos'],
+      aggregates: [{ fn: 'count' }],
+      pivot: { column: 'Statusz' },
+    });
+    const several = service.aggregate(rows, true, {
+      aggregates: [{ fn: 'count' }, { fn: 'max', column: 'Nev' }],
+      pivot: { column: 2, values: ['inaktív'] },
+    });
+
+    expect(single.columns).toEqual(['Varos', 'aktív', 'inaktív']);
+    expect(single.rows).toEqual([
+      ['Pécs', 2, 0],
+      ['Budapest', 2, 1],
+    ]);
+    expect(several.columns).toEqual(['inaktív_count', 'inaktív_max(Nev)']);
+    expect(several.rows).toEqual([[1, 'Cecil']]);
+  });
+
+  it('returns a single summary row without groupBy, even for no data', () => {
+    const result = service.aggregate([rows[0]], true, {
+      aggregates: [{ fn: 'count' }, { fn: 'avg', column: 'Eletkor' }],
+    });
+
+    expect(result.rows).toEqual([[0, null]]);
+  });
+
+  it('reports unknown columns and too many pivot values', () => {
+    const unknown = service.aggregate(rows, true, {
+      groupBy: ['Megye'],
+      aggregates: [{ fn: 'sum', column: 9 }],
+    });
+    const wide = service.aggregate(
+      [['ID'], ...Array.from({ length: 201 }, (_, i) => [String(i)])],
+      true,
+      { aggregates: [{ fn: 'count' }], pivot: { column: 'ID' } },
+    );
+
+    expect(unknown.errors).toEqual([
+      'unknown column "Megye"',
+      'unknown column 9',
+    ]);
+    expect(wide.errors).toEqual([
+      'pivot column "ID" has 201 distinct values (max 200)',
+    ]);
+  });
+});
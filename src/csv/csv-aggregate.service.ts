@@ -0,0 +1,303 @@
+import { Injectable } from '@nestjs/common';
+import { compareTyped, createColumnResolver } from './csv-query.service';
+import type { QueryColumn } from './csv-query.service';
+import { isNullValue, parseNumber } from './csv-values';
+import type { NumberFormatOptions } from './csv-values';
+
+/**
+ * A /csv/aggregate csoportosító összesítésének típusai.
+ *
+ * Oszlop-hivatkozás: mint a /csv/query-nél (header név vagy 0-tól számolt
+ * index).
+ */
+
+export const AGGREGATE_FUNCTIONS = [
+  'count',
+  'count-distinct',
+  'sum',
+  'avg',
+  'min',
+  'max',
+  'median',
+] as const;
+export type AggregateFunction = (typeof AGGREGATE_FUNCTIONS)[number];
+
+/** Ennél több pivot oszlopot nem készítünk. */
+export const MAX_PIVOT_VALUES = 200;
+
+/** Az üres pivot érték oszlopának neve. */
+const EMPTY_PIVOT_LABEL = '(empty)';
+
+/** Csoportkulcs-elválasztó: cellában nem fordul elő. */
+const KEY_SEPARATOR = '\u0000';
+
+/**
+ * Egy összesítés. A column csak a count-nál hagyható el (ilyenkor a sorokat
+ * számolja); oszloppal a nem üres / nem null-szerű cellákat.
+ */
+export interface AggregateSpec {
+  fn: AggregateFunction;
+  column?: QueryColumn;
+  /** kimeneti oszlopnév; alapból "fn(oszlop)", ill. "count" */
+  as?: string;
+  /** kerekítés (sum / avg / median) */
+  decimals?: number;
+}
+
+/**
+ * A pivot oszlop értékei külön kimeneti oszlopokká válnak. values: csak
+ * ezek (ebben a sorrendben); alapból az előfordulás sorrendjében mind.
+ */
+export interface AggregatePivot {
+  column: QueryColumn;
+  values?: string[];
+}
+
+export interface CsvAggregation {
+  groupBy?: QueryColumn[];
+  aggregates: AggregateSpec[];
+  pivot?: AggregatePivot;
+  /** számformátum, mint a COERCE_NUMERIC-nél */
+  numberFormat?: NumberFormatOptions;
+}
+
+export type AggregateValue = string | number | null;
+
+/**
+ * - columns: a groupBy oszlopok, majd az összesítések (pivotnál
+ *   pivot értékenként)
+ * - rows: csoportonként egy sor, az első előfordulás sorrendjében
+ * - nonNumericValues: összesítésenként a kihagyott, nem szám cellák száma
+ *   (sum / avg / median; csak a nem nulla)
+ * - errors: ismeretlen oszlop, túl sok pivot érték (ilyenkor üres az
+ *   eredmény)
+ */
+export interface CsvAggregateResult {
+  columns: string[];
+  rows: AggregateValue[][];
+  nonNumericValues: Record<string, number>;
+  errors: string[];
+}
+
+interface AggregateColumn {
+  spec: AggregateSpec;
+  col: number;
+  name: string;
+}
+
+interface Group {
+  values: string[];
+  /** pivot érték → a csoport sorai (pivot nélkül egyetlen '' kulcs) */
+  buckets: Map<string, string[][]>;
+}
+
+/**
+ * CsvAggregateService:
+ * csoportosítás (group by), összesítések és pivot már parse-olt sorokon,
+ * AI nélkül.
+ *
+ * A szám értékeket a COERCE_NUMERIC szabályai szerint értelmezzük
+ * (parseNumber); a null-szerű cellák egyik összesítésbe sem számítanak.
+ * A min / max számoknál számként, egyébként a /csv/query típusos
+ * összehasonlításával dolgozik, és az eredeti cellát adja vissza.
+ */
+@Injectable()
+export class CsvAggregateService {
+  aggregate(
+    rows: string[][],
+    hasHeader: boolean,
+    aggregation: CsvAggregation,
+  ): CsvAggregateResult {
+    const { names, data, resolve, unresolved } = createColumnResolver(
+      rows,
+      hasHeader,
+    );
+
+    const groupCols = (aggregation.groupBy ?? []).map(resolve);
+    const pivotCol = aggregation.pivot
+      ? resolve(aggregation.pivot.column)
+      : undefined;
+    const aggregates: AggregateColumn[] = aggregation.aggregates.map((spec) => {
+      const col = spec.column === undefined ? -1 : resolve(spec.column);
+      return {
+        spec,
+        col,
+        name:
+          spec.as ??
+          (spec.column === undefined ? spec.fn : `${spec.fn}(${names[col]})`),
+      };
+    });
+
+    if (unresolved.length > 0) {
+      return emptyResult(unresolved);
+    }
+
+    const pivotValues =
+      pivotCol === undefined
+        ? ['']
+        : (aggregation.pivot?.values ?? distinctValues(data, pivotCol));
+    if (pivotValues.length > MAX_PIVOT_VALUES) {
+      return emptyResult([
+        `pivot column "${names[pivotCol ?? 0]}" has ${pivotValues.length} distinct values (max ${MAX_PIVOT_VALUES})`,
+      ]);
+    }
+
+    const groups = new Map<string, Group>();
+    for (const row of data) {
+      const values = groupCols.map((col) => (row[col] ?? '').trim());
+      const key = values.join(KEY_SEPARATOR);
+      let group = groups.get(key);
+      if (!group) {
+        group = { values, buckets: new Map() };
+        groups.set(key, group);
+      }
+
+      const pivot = pivotCol === undefined ? '' : (row[pivotCol] ?? '').trim();
+      const bucket = group.buckets.get(pivot);
+      if (bucket) {
+        bucket.push(row);
+      } else {
+        group.buckets.set(pivot, [row]);
+      }
+    }
+
+    // group by nélkül (mint SQL-ben) üres bemenetre is egy összesítő sor
+    if (groupCols.length === 0 && groups.size === 0) {
+      groups.set('', { values: [], buckets: new Map() });
+    }
+
+    const format = aggregation.numberFormat ?? {};
+    const nonNumericValues: Record<string, number> = {};
+    const columns = [
+      ...groupCols.map((col) => names[col]),
+      ...pivotValues.flatMap((pivot) =>
+        aggregates.map((aggregate) =>
+          pivotCol === undefined
+            ? aggregate.name
+            : pivotColumnName(pivot, aggregate.name, aggregates.length),
+        ),
+      ),
+    ];
+
+    const result: AggregateValue[][] = [...groups.values()].map((group) => [
+      ...group.values,
+      ...pivotValues.flatMap((pivot) => {
+        const bucket = group.buckets.get(pivot) ?? [];
+        return aggregates.map(({ spec, col, name }) =>
+          computeAggregate(bucket, spec, col, format, (count) => {
+            nonNumericValues[name] = (nonNumericValues[name] ?? 0) + count;
+          }),
+        );
+      }),
+    ]);
+
+    return { columns, rows: result, nonNumericValues, errors: [] };
+  }
+}
+
+function emptyResult(errors: string[]): CsvAggregateResult {
+  return { columns: [], rows: [], nonNumericValues: {}, errors };
+}
+
+/** A pivot oszlop értékei az előfordulás sorrendjében. */
+function distinctValues(data: string[][], col: number): string[] {
+  return [...new Set(data.map((row) => (row[col] ?? '').trim()))];
+}
+
+/** Egy összesítésnél maga a pivot érték, többnél "érték_összesítés". */
+function pivotColumnName(
+  pivot: string,
+  aggregate: string,
+  aggregateCount: number,
+): string {
+  const label = pivot === '' ? EMPTY_PIVOT_LABEL : pivot;
+  return aggregateCount === 1 ? label : `${label}_${aggregate}`;
+}
+
+function computeAggregate(
+  rows: string[][],
+  spec: AggregateSpec,
+  col: number,
+  format: NumberFormatOptions,
+  onNonNumeric: (count: number) => void,
+): AggregateValue {
+  if (spec.fn === 'count' && col < 0) {
+    return rows.length;
+  }
+
+  const present = rows
+    .map((row) => (row[col] ?? '').trim())
+    .filter((value) => !isNullValue(value));
+
+  switch (spec.fn) {
+    case 'count':
+      return present.length;
+    case 'count-distinct':
+      return new Set(present).size;
+    case 'min':
+    case 'max':
+      return extreme(present, spec.fn, format);
+  }
+
+  const numbers: number[] = [];
+  for (const value of present) {
+    const parsed = parseNumber(value, format);
+    if (parsed.ok) {
+      numbers.push(parsed.value);
+    }
+  }
+  if (numbers.length < present.length) {
+    onNonNumeric(present.length - numbers.length);
+  }
+  if (numbers.length === 0) {
+    return null;
+  }
+
+  let value: number;
+  if (spec.fn === 'sum') {
+    value = numbers.reduce((sum, n) => sum + n, 0);
+  } else if (spec.fn === 'avg') {
+    value = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  } else {
+    numbers.sort((a, b) => a - b);
+    const middle = Math.floor(numbers.length / 2);
+    value =
+      numbers.length % 2 === 1
+        ? numbers[middle]
+        : (numbers[middle - 1] + numbers[middle]) / 2;
+  }
+
+  // lebegőpontos zaj nélkül (0.1 + 0.2 → 0.3)
+  return Number(value.toFixed(spec.decimals ?? 10));
+}
+
+/**
+ * Min / max: ha minden érték szám, számként; egyébként típusos
+ * összehasonlítással az eredeti cella.
+ */
+function extreme(
+  values: string[],
+  fn: 'min' | 'max',
+  format: NumberFormatOptions,
+): AggregateValue {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const numbers = values.map((value) => parseNumber(value, format));
+  if (numbers.every((parsed) => parsed.ok)) {
+    // reduce: a Math.min(...list) nagy tömbnél túlcsordítaná a stacket
+    return numbers.reduce<number>(
+      (best, parsed) => {
+        const value = parsed.ok ? parsed.value : best;
+        return fn === 'min' ? Math.min(best, value) : Math.max(best, value);
+      },
+      fn === 'min' ? Infinity : -Infinity,
+    );
+  }
+
+  return values.reduce((best, value) => {
+    const result = compareTyped(value, best, format);
+    return (fn === 'min' ? result < 0 : result > 0) ? value : best;
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * Oszlop-szerkezetet módosító segédfüggvények (split, merge, reorder, drop,
+ * derive) egyetlen sor celláira.
+ *
+ * Mind új tömböt ad vissza; a hiányzó (rövid sorban nem létező) cellákat
+ * üresnek tekintik, így a kimenet szélessége minden sorban ugyanaz.
+ */
+
+/** {Oszlopnév} vagy {0} hivatkozás a DERIVE_COLUMN sablonban. */
+const TEMPLATE_PLACEHOLDER = /\{([^{}]+)\}/g;
+
+/**
+ * Cella felbontása legfeljebb parts darabra; a maradék az utolsó részbe
+ * kerül ("Kovács Éva Mária" → "Kovács", "Éva Mária"). A ' ' elválasztó
+ * bármilyen whitespace sorozatot jelent. Hiányzó részek: üres string.
+ */
+export function splitValue(
+  value: string,
+  separator: string,
+  parts: number,
+): string[] {
+  const pieces =
+    separator === ' '
+      ? value.trim().split(/\s+/)
+      : value.split(separator).map((piece) => piece.trim());
+  const result = pieces.slice(0, parts - 1);
+  const rest = pieces.slice(parts - 1).join(separator);
+  result.push(rest);
+  while (result.length < parts) {
+    result.push('');
+  }
+  return result;
+}
+
+/**
+ * A col oszlop helyére (keepOriginal esetén mögé) a parts cellák kerülnek.
+ */
+export function replaceColumn(
+  cells: string[],
+  col: number,
+  parts: string[],
+  keepOriginal: boolean,
+): string[] {
+  const padded = padCells(cells, col + 1);
+  return [
+    ...padded.slice(0, col),
+    ...(keepOriginal ? [padded[col]] : []),
+    ...parts,
+    ...padded.slice(col + 1),
+  ];
+}
+
+/**
+ * Az összevont érték az első forrásoszlop helyére kerül, a többi forrás
+ * kiesik; keepOriginal esetén minden forrás marad, és az összevont érték
+ * az utolsó forrás mögé kerül.
+ */
+export function mergeColumns(
+  cells: string[],
+  cols: number[],
+  merged: string,
+  keepOriginal: boolean,
+): string[] {
+  const padded = padCells(cells, Math.max(...cols) + 1);
+  const anchor = keepOriginal ? Math.max(...cols) : Math.min(...cols);
+  const result: string[] = [];
+
+  padded.forEach((cell, index) => {
+    if (keepOriginal || !cols.includes(index)) {
+      result.push(cell);
+    }
+    if (index === anchor) {
+      result.push(merged);
+    }
+  });
+
+  return result;
+}
+
+/** A megadott oszlopok előre (ebben a sorrendben), a többi utánuk. */
+export function reorderColumns(cells: string[], cols: number[]): string[] {
+  const padded = padCells(cells, Math.max(...cols) + 1);
+  return [
+    ...cols.map((col) => padded[col]),
+    ...padded.filter((_, index) => !cols.includes(index)),
+  ];
+}
+
+export function dropColumns(cells: string[], cols: number[]): string[] {
+  return cells.filter((_, index) => !cols.includes(index));
+}
+
+/** A sablon hivatkozásai ("{Vezeteknev} {0}" → ["Vezeteknev", "0"]). */
+export function templateRefs(template: string): string[] {
+  return [...template.matchAll(TEMPLATE_PLACEHOLDER)].map((m) => m[1]);
+}
+
+export function fillTemplate(
+  template: string,
+  value: (ref: string) => string,
+): string {
+  return template.replace(TEMPLATE_PLACEHOLDER, (_, ref: string) => value(ref));
+}
+
+function padCells(cells: string[], length: number): string[] {
+  return cells.length >= length
+    ? cells
+    : [...cells, ...Array<string>(length - cells.length).fill('')];
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvDialectService } from './csv-dialect.service';
+
+describe('CsvDialectService', () => {
+  let service: CsvDialectService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvDialectService],
+    }).compile();
+
+    service = module.get<CsvDialectService>(CsvDialectService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('prefers the semicolon when commas are decimal separators', () => {
+    const csv =
+      'Nev;Osszeg;Datum\nAnna;12,5;2024.03.05.\nBela;1,25;2024.03.06.';
+
+    expect(service.detectDelimiter(csv)).toBe(';');
+  });
+
+  it('detects a header above numeric data', () => {
+    const dialect = service.detectDialect('ID,Eletkor\n1,25\n2,30');
+
+    expect(dialect.hasHeader).toBe(true);
+  });
+
+  it('detects headerless numeric data', () => {
+    const dialect = service.detectDialect('1,25\n2,30\n3,41');
+
+    expect(dialect.hasHeader).toBe(false);
+  });
+
+  it('detects single quotes as the quote character', () => {
+    const csv = "ID,Nev\n1,'Kovacs, Janos'\n2,'Szabo, Anna'";
+
+    expect(service.detectQuoteChar(csv)).toBe("'");
+  });
+
+  it('tells UTF-8 (with and without BOM) from Windows-1250', () => {
+    expect(service.detectEncoding(Buffer.from('\uFEFFNév', 'utf8'))).toBe(
+      'utf-8-bom',
+    );
+    expect(service.detectEncoding(Buffer.from('Név', 'utf8'))).toBe('utf-8');
+    expect(service.detectEncoding(Buffer.from([0x4e, 0xe9, 0x76]))).toBe(
+      'windows-1250',
+    );
+  });
+
+  it('keeps UTF-8 when the sniffed head ends inside a multi-byte character', () => {
+    // a 65536. byte és a fej vége is egy "é" közepére esik
+    const head = Buffer.from('a'.repeat(65535) + 'éé', 'utf8').subarray(
+      0,
+      65538,
+    );
+
+    expect(service.detectEncoding(head, false)).toBe('utf-8');
+    expect(service.detectEncoding(Buffer.from([0x4e, 0x76, 0xe9]))).toBe(
+      'windows-1250',
+    );
+  });
+});
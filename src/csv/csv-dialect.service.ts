@@ -0,0 +1,245 @@
+import { Injectable } from '@nestjs/common';
+import { CsvTokenizer } from './csv-tokenizer';
+import {
+  CsvDialect,
+  CsvEncoding,
+  CsvLineEnding,
+} from './models/csv-dialect.model';
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+const UTF8_BOM = [0xef, 0xbb, 0xbf];
+
+/** Ennyi szöveget nézünk meg a felismeréshez (a fájl elejéről). */
+const SNIFF_SAMPLE_CHARS = 64 * 1024;
+/** Ennyi rekord alapján döntünk delimiterről és headerről. */
+const SNIFF_SAMPLE_RECORDS = 20;
+
+const NUMERIC_CELL = /^[+-]?\d+(?:[.,]\d+)?$/;
+
+/**
+ * CsvDialectService:
+ * - felismeri a szövegkódolást (UTF-8, UTF-8 BOM, Windows-1250)
+ * - "kiszimatolja" a delimitert, idézőjelet, sorvéget és a header meglétét
+ *
+ * Heurisztikus: ha a kérés megadja valamelyik beállítást, az mindig erősebb.
+ */
+@Injectable()
+export class CsvDialectService {
+  /**
+   * Nyers byte-okból szöveget készít.
+   * Ha nincs megadva kódolás, BOM / UTF-8 érvényesség alapján döntünk:
+   * ami nem érvényes UTF-8, azt Windows-1250-nek tekintjük.
+   */
+  decode(
+    bytes: Buffer,
+    encoding?: CsvEncoding,
+  ): { text: string; encoding: CsvEncoding } {
+    const detected = encoding ?? this.detectEncoding(bytes);
+
+    if (detected === 'windows-1250') {
+      return {
+        text: new TextDecoder('windows-1250').decode(bytes),
+        encoding: detected,
+      };
+    }
+
+    // a TextDecoder alapból lenyeli a BOM-ot, így a header első cellája tiszta
+    return { text: new TextDecoder('utf-8').decode(bytes), encoding: detected };
+  }
+
+  /**
+   * complete: a bytes a teljes bemenet; ha csak az eleje (pl. egy upload
+   * első chunkjai), a végén elvágott több byte-os karakter nem hiba.
+   */
+  detectEncoding(bytes: Buffer, complete = true): CsvEncoding {
+    if (UTF8_BOM.every((byte, i) => bytes[i] === byte)) {
+      return 'utf-8-bom';
+    }
+
+    try {
+      // stream: az elvágott minta végén félbemaradt karakter nem hiba
+      new TextDecoder('utf-8', { fatal: true }).decode(
+        bytes.subarray(0, SNIFF_SAMPLE_CHARS),
+        { stream: !complete || bytes.length > SNIFF_SAMPLE_CHARS },
+      );
+      return 'utf-8';
+    } catch {
+      return 'windows-1250';
+    }
+  }
+
+  /**
+   * Delimiter, idézőjel, sorvég és header felismerése egy (már dekódolt)
+   * szövegből. A kódolást a hívó adja meg, mert szövegből már nem látszik.
+   */
+  detectDialect(text: string, encoding: CsvEncoding = 'utf-8'): CsvDialect {
+    const sample = text.slice(0, SNIFF_SAMPLE_CHARS);
+
+    const quoteChar = this.detectQuoteChar(sample);
+    const delimiter = this.detectDelimiter(sample, quoteChar);
+    const lineEnding = this.detectLineEnding(sample);
+    const records = this.sampleRecords(sample, delimiter, quoteChar);
+    const hasHeader = this.detectHeader(records);
+
+    return { delimiter, quoteChar, lineEnding, hasHeader, encoding };
+  }
+
+  /**
+   * Header felismerés a megadott delimiterrel és idézőjellel tagolt
+   * mintán (ha a hívó felülírja a felismert dialektust).
+   */
+  detectHeaderWith(
+    text: string,
+    delimiter: string,
+    quoteChar: string,
+  ): boolean {
+    return this.detectHeader(
+      this.sampleRecords(
+        text.slice(0, SNIFF_SAMPLE_CHARS),
+        delimiter,
+        quoteChar,
+      ),
+    );
+  }
+
+  /**
+   * Azt a delimitert választjuk, amellyel a rekordok a legkonzisztensebb
+   * (és legalább 2) oszlopszámot adják. Egyezésnél a lista sorrendje dönt.
+   */
+  detectDelimiter(sample: string, quoteChar = '"'): string {
+    let best = DELIMITER_CANDIDATES[0];
+    let bestScore = 0;
+
+    for (const candidate of DELIMITER_CANDIDATES) {
+      const records = this.sampleRecords(sample, candidate, quoteChar);
+      if (records.length === 0) {
+        continue;
+      }
+
+      const counts = new Map<number, number>();
+      for (const record of records) {
+        counts.set(record.length, (counts.get(record.length) ?? 0) + 1);
+      }
+
+      let modeColumns = 0;
+      let modeCount = 0;
+      for (const [columns, count] of counts) {
+        if (
+          count > modeCount ||
+          (count === modeCount && columns > modeColumns)
+        ) {
+          modeColumns = columns;
+          modeCount = count;
+        }
+      }
+
+      if (modeColumns < 2) {
+        continue;
+      }
+
+      const score = modeCount / records.length;
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Az az idézőjel nyer, amelyik gyakrabban áll mező elején / végén
+   * (sor eleje vagy delimiter után, illetve sor vége vagy delimiter előtt).
+   */
+  detectQuoteChar(sample: string): string {
+    let best = QUOTE_CANDIDATES[0];
+    let bestCount = 0;
+
+    for (const candidate of QUOTE_CANDIDATES) {
+      const opening = new RegExp(`(?:^|[,;\\t|])\\s*${candidate}`, 'gm');
+      const closing = new RegExp(`${candidate}\\s*(?:[,;\\t|]|$)`, 'gm');
+      const count =
+        (sample.match(opening)?.length ?? 0) +
+        (sample.match(closing)?.length ?? 0);
+
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+
+  detectLineEnding(sample: string): CsvLineEnding {
+    const crlf = sample.match(/\r\n/g)?.length ?? 0;
+    const lf = (sample.match(/\n/g)?.length ?? 0) - crlf;
+    const cr = (sample.match(/\r/g)?.length ?? 0) - crlf;
+
+    if (crlf >= lf && crlf >= cr && crlf > 0) {
+      return '\r\n';
+    }
+    if (cr > lf) {
+      return '\r';
+    }
+    return '\n';
+  }
+
+  /**
+   * Header felismerés oszloponkénti szavazással:
+   * - ha az adatsorok egy oszlopban számok, de az első sor nem → header mellett
+   * - ha az első sor is szám ott, ahol az adatok számok → header ellen
+   * - üres első sorbeli cella → header ellen
+   * Döntetlennél (pl. csak szöveges oszlopok) a korábbi alapértelmezés marad:
+   * van header.
+   */
+  detectHeader(records: string[][]): boolean {
+    if (records.length < 2) {
+      return true;
+    }
+
+    const [first, ...data] = records;
+    let score = 0;
+
+    first.forEach((headerCell, columnIndex) => {
+      const values = data
+        .map((row) => (row[columnIndex] ?? '').trim())
+        .filter((value) => value.length > 0);
+
+      if (headerCell.trim().length === 0) {
+        score--;
+        return;
+      }
+
+      if (values.length === 0) {
+        return;
+      }
+
+      const numeric = values.filter((value) => NUMERIC_CELL.test(value));
+      if (numeric.length / values.length < 0.5) {
+        return;
+      }
+
+      score += NUMERIC_CELL.test(headerCell.trim()) ? -1 : 1;
+    });
+
+    return score >= 0;
+  }
+
+  private sampleRecords(
+    sample: string,
+    delimiter: string,
+    quoteChar: string,
+  ): string[][] {
+    const tokenizer = new CsvTokenizer(delimiter, quoteChar);
+    const records = tokenizer.push(sample);
+
+    // rövid bemenetnél az utolsó (sorvég nélküli) rekord is számít
+    if (records.length < SNIFF_SAMPLE_RECORDS) {
+      records.push(...tokenizer.flush());
+    }
+
+    return records.slice(0, SNIFF_SAMPLE_RECORDS);
+  }
+}
@@ -0,0 +1,17 @@
+import { isColumnRef } from './csv-query.schema';
+
+/**
+ * A /csv/diff kérés szigorú ellenőrzése (a DTO csak az alakot nézi).
+ * Visszaadja az összes hibát; üres tömb esetén a kérés érvényes.
+ */
+export function validateCsvDiff(diff: { keys?: unknown[] }): string[] {
+  const errors: string[] = [];
+
+  diff.keys?.forEach((key, index) => {
+    if (!isColumnRef(key)) {
+      errors.push(`keys[${index}] must be a column index or name`);
+    }
+  });
+
+  return errors;
+}
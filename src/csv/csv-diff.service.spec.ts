@@ -0,0 +1,128 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvDiffService } from './csv-diff.service';
+
+describe('CsvDiffService', () => {
+  let service: CsvDiffService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvDiffService],
+    }).compile();
+
+    service = module.get<CsvDiffService>(CsvDiffService);
+  });
+
+  const before = {
+    rows: [
+      ['ID', 'Nev', 'Varos', 'Fax'],
+      ['1', 'Anna', 'Pécs', '-'],
+      ['2', 'Béla', 'Győr', '-'],
+      ['3', 'Cecil', 'Szeged', '-'],
+    ],
+    hasHeader: true,
+  };
+  const after = {
+    rows: [
+      ['ID', 'Varos', 'Nev', 'Email'],
+      ['3', 'Szeged ', 'Cecil', 'c@x.hu'],
+      ['1', 'Budapest', 'Anna', 'a@x.hu'],
+      ['4', 'Eger', 'Dóra', 'd@x.hu'],
+    ],
+    hasHeader: true,
+  };
+
+  it('matches rows by key and columns by name', () => {
+    const result = service.diff(before, after, {
+      keys: ['ID'],
+      alignment: 'position',
+    });
+
+    expect(result.columns).toEqual(['ID', 'Nev', 'Varos', 'Fax', 'Email']);
+    expect(result.addedColumns).toEqual(['Email']);
+    expect(result.removedColumns).toEqual(['Fax']);
+    expect(
+      result.entries.map((entry) => [
+        entry.status,
+        entry.key,
+        entry.beforeRowNumber,
+        entry.afterRowNumber,
+      ]),
+    ).toEqual([
+      // a záró szóköz nem változás
+      ['unchanged', ['3'], 4, 2],
+      ['changed', ['1'], 2, 3],
+      ['added', ['4'], undefined, 4],
+      ['removed', ['2'], 3, undefined],
+    ]);
+    expect(result.entries[1].changes).toEqual([
+      { column: 'Varos', before: 'Pécs', after: 'Budapest' },
+    ]);
+    expect(result.entries[3].values).toMatchObject({ Nev: 'Béla' });
+  });
+
+  it('aligns keyless rows by position or by content hash', () => {
+    const old = {
+      rows: [
+        ['a', '1'],
+        ['b', '2'],
+        ['c', '3'],
+      ],
+      hasHeader: false,
+    };
+    const updated = {
+      rows: [
+        ['b', '2'],
+        ['c', '9'],
+      ],
+      hasHeader: false,
+    };
+    const statuses = (alignment: 'position' | 'hash') =>
+      service
+        .diff(old, updated, { keys: [], alignment })
+        .entries.map((entry) => entry.status);
+
+    expect(statuses('position')).toEqual(['changed', 'changed', 'removed']);
+    expect(statuses('hash')).toEqual([
+      'unchanged',
+      'added',
+      'removed',
+      'removed',
+    ]);
+  });
+
+  it('treats rows with an empty key as keyless', () => {
+    const result = service.diff(
+      {
+        rows: [
+          ['ID', 'Nev'],
+          ['', 'Anna'],
+          ['1', 'Béla'],
+        ],
+        hasHeader: true,
+      },
+      {
+        rows: [
+          ['ID', 'Nev'],
+          ['1', 'Béla'],
+          ['', 'Anna'],
+        ],
+        hasHeader: true,
+      },
+      { keys: ['ID'], alignment: 'hash' },
+    );
+
+    expect(result.entries.map((entry) => entry.status)).toEqual([
+      'unchanged',
+      'unchanged',
+    ]);
+  });
+
+  it('reports unknown key columns per side', () => {
+    const result = service.diff(before, after, {
+      keys: ['Fax'],
+      alignment: 'position',
+    });
+
+    expect(result.errors).toEqual(['after: unknown column "Fax"']);
+  });
+});
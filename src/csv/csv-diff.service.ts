@@ -0,0 +1,249 @@
+import { Injectable } from '@nestjs/common';
+import { createColumnResolver } from './csv-query.service';
+import type { QueryColumn } from './csv-query.service';
+import { isNullValue } from './csv-values';
+
+/**
+ * A /csv/diff két CSV-verzió összehasonlításának típusai.
+ *
+ * Az oszlopokat név szerint párosítjuk (header nélkül column_<n>, azaz
+ * pozíció szerint), a sorokat kulcs szerint; a kulcs nélküli sorokat
+ * pozíció vagy tartalom (hash) szerint.
+ */
+
+export const DIFF_ALIGNMENTS = ['position', 'hash'] as const;
+export type DiffAlignment = (typeof DIFF_ALIGNMENTS)[number];
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/** Kulcs- / tartalom-elválasztó: cellában nem fordul elő. */
+const KEY_SEPARATOR = '\u0000';
+
+export interface DiffSide {
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+/**
+ * - keys: kulcsoszlopok (mindkét fájlban a saját headere szerint feloldva);
+ *   üresen minden sor kulcs nélküli
+ * - alignment: a kulcs nélküli sorok párosítása. position: sorrend szerint
+ *   (az eltérő tartalom "changed"); hash: azonos tartalom szerint (nincs
+ *   "changed", csak added / removed)
+ */
+export interface CsvDiffOptions {
+  keys: QueryColumn[];
+  alignment: DiffAlignment;
+}
+
+export interface CellChange {
+  column: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Egy sor a diffben. values: az "after" értékek (removed esetén a
+ * "before" értékek) oszlopnév szerint; a sorszámok az eredeti fájl sorai
+ * (1-től, a header is számít).
+ */
+export interface DiffEntry {
+  status: DiffStatus;
+  beforeRowNumber?: number;
+  afterRowNumber?: number;
+  key?: string[];
+  values: Record<string, string>;
+  changes?: CellChange[];
+}
+
+/**
+ * - columns: a két fájl oszlopainak uniója (előbb a "before" sorrendje)
+ * - entries: az "after" sorai a saját sorrendjükben, majd a törölt sorok
+ * - errors: ismeretlen kulcsoszlopok (ilyenkor üres az eredmény)
+ */
+export interface CsvDiffResult {
+  columns: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  entries: DiffEntry[];
+  errors: string[];
+}
+
+/**
+ * CsvDiffService:
+ * két CSV-verzió összehasonlítása (hozzáadott, törölt és módosult sorok,
+ * cellánkénti régi / új értékkel), AI nélkül.
+ *
+ * A cellákat trimmelve hasonlítjuk, és csak a mindkét fájlban meglévő
+ * oszlopokat; az új / megszűnt oszlopokat külön jelezzük. Ismétlődő kulcsnál
+ * az n-edik előfordulás az n-edikkel párosul. Üres / null-szerű kulcsú sor
+ * kulcs nélkülinek számít.
+ */
+@Injectable()
+export class CsvDiffService {
+  diff(
+    before: DiffSide,
+    after: DiffSide,
+    options: CsvDiffOptions,
+  ): CsvDiffResult {
+    const b = createColumnResolver(before.rows, before.hasHeader);
+    const a = createColumnResolver(after.rows, after.hasHeader);
+    const beforeKeys = options.keys.map(b.resolve);
+    const afterKeys = options.keys.map(a.resolve);
+
+    const errors = [
+      ...b.unresolved.map((message) => `before: ${message}`),
+      ...a.unresolved.map((message) => `after: ${message}`),
+    ];
+    if (errors.length > 0) {
+      return {
+        columns: [],
+        addedColumns: [],
+        removedColumns: [],
+        entries: [],
+        errors,
+      };
+    }
+
+    const addedColumns = a.names.filter((name) => !b.names.includes(name));
+    const removedColumns = b.names.filter((name) => !a.names.includes(name));
+    const shared = b.names
+      .filter((name) => a.names.includes(name))
+      .map((name) => ({
+        name,
+        before: b.names.indexOf(name),
+        after: a.names.indexOf(name),
+      }));
+
+    const cell = (row: string[], col: number) => (row[col] ?? '').trim();
+    const keyOf = (row: string[], cols: number[]): string[] | undefined => {
+      if (cols.length === 0) {
+        return undefined;
+      }
+      const key = cols.map((col) => cell(row, col));
+      return key.some((value) => isNullValue(value)) ? undefined : key;
+    };
+
+    // párosítás: after index → before index
+    const pairs = new Map<number, number>();
+    const keylessBefore: number[] = [];
+    const keylessAfter: number[] = [];
+
+    const beforeByKey = new Map<string, number[]>();
+    b.data.forEach((row, index) => {
+      const key = keyOf(row, beforeKeys);
+      if (key) {
+        pushTo(beforeByKey, key.join(KEY_SEPARATOR), index);
+      } else {
+        keylessBefore.push(index);
+      }
+    });
+    a.data.forEach((row, index) => {
+      const key = keyOf(row, afterKeys);
+      if (!key) {
+        keylessAfter.push(index);
+        return;
+      }
+      const match = beforeByKey.get(key.join(KEY_SEPARATOR))?.shift();
+      if (match !== undefined) {
+        pairs.set(index, match);
+      }
+    });
+
+    if (options.alignment === 'position') {
+      keylessAfter.forEach((afterIndex, i) => {
+        if (i < keylessBefore.length) {
+          pairs.set(afterIndex, keylessBefore[i]);
+        }
+      });
+    } else {
+      const content = (row: string[], side: 'before' | 'after') =>
+        shared.map((column) => cell(row, column[side])).join(KEY_SEPARATOR);
+      const beforeByContent = new Map<string, number[]>();
+      for (const index of keylessBefore) {
+        pushTo(beforeByContent, content(b.data[index], 'before'), index);
+      }
+      for (const index of keylessAfter) {
+        const match = beforeByContent
+          .get(content(a.data[index], 'after'))
+          ?.shift();
+        if (match !== undefined) {
+          pairs.set(index, match);
+        }
+      }
+    }
+
+    const beforeOffset = before.hasHeader ? 2 : 1;
+    const afterOffset = after.hasHeader ? 2 : 1;
+    const valuesOf = (row: string[], names: string[]) =>
+      Object.fromEntries(names.map((name, col) => [name, row[col] ?? '']));
+    const withKey = (entry: DiffEntry, key: string[] | undefined) =>
+      key ? { ...entry, key } : entry;
+
+    const entries: DiffEntry[] = a.data.map((row, index) => {
+      const afterRowNumber = index + afterOffset;
+      const values = valuesOf(row, a.names);
+      const key = keyOf(row, afterKeys);
+      const match = pairs.get(index);
+
+      if (match === undefined) {
+        return withKey({ status: 'added', afterRowNumber, values }, key);
+      }
+
+      const old = b.data[match];
+      const changes = shared
+        .filter(
+          (column) => cell(old, column.before) !== cell(row, column.after),
+        )
+        .map((column) => ({
+          column: column.name,
+          before: old[column.before] ?? '',
+          after: row[column.after] ?? '',
+        }));
+
+      return withKey(
+        {
+          status: changes.length > 0 ? 'changed' : 'unchanged',
+          beforeRowNumber: match + beforeOffset,
+          afterRowNumber,
+          values,
+          ...(changes.length > 0 ? { changes } : {}),
+        },
+        key,
+      );
+    });
+
+    const matched = new Set(pairs.values());
+    b.data.forEach((row, index) => {
+      if (!matched.has(index)) {
+        entries.push(
+          withKey(
+            {
+              status: 'removed',
+              beforeRowNumber: index + beforeOffset,
+              values: valuesOf(row, b.names),
+            },
+            keyOf(row, beforeKeys),
+          ),
+        );
+      }
+    });
+
+    return {
+      columns: [...b.names, ...addedColumns],
+      addedColumns,
+      removedColumns,
+      entries,
+      errors: [],
+    };
+  }
+}
+
+function pushTo(map: Map<string, number[]>, key: string, index: number): void {
+  const list = map.get(key);
+  if (list) {
+    list.push(index);
+  } else {
+    map.set(key, [index]);
+  }
+}
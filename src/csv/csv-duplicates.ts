@@ -0,0 +1,117 @@
+import { foldAccents } from './csv-headers';
+
+/**
+ * Duplikátum-keresés a DEDUPLICATE action-höz.
+ *
+ * A kulcsok sorokból képzett szövegek (egész sor vagy a kulcsoszlopok);
+ * az eredmény a duplikátum-csoportok listája a kulcsok indexeivel, a bemenet
+ * sorrendjében. Az egyelemű "csoportokat" nem adjuk vissza.
+ */
+
+export const DUPLICATE_MATCH_MODES = ['exact', 'fuzzy'] as const;
+export type DuplicateMatch = (typeof DUPLICATE_MATCH_MODES)[number];
+
+/** Kulcs-elválasztó: cellában nem fordul elő. */
+const KEY_SEPARATOR = '\u0000';
+
+/** Sor → kulcs a megadott oszlopokból (üres lista: az egész sor). */
+export function buildDuplicateKey(cells: string[], columns: number[]): string {
+  const values =
+    columns.length > 0 ? columns.map((col) => cells[col] ?? '') : cells;
+  return values.join(KEY_SEPARATOR);
+}
+
+/**
+ * Fuzzy összehasonlításhoz: kisbetű, ékezetek nélkül, egyetlen szóközzel
+ * (a kulcsoszlopok határa is szóköz lesz).
+ */
+export function normalizeForMatch(key: string): string {
+  return foldAccents(key.split(KEY_SEPARATOR).join(' '))
+    .toLocaleLowerCase('hu-HU')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Hasonlóság 0 és 1 között: 1 - Levenshtein-távolság / hosszabb hossz.
+ */
+export function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 1;
+  }
+  return 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Duplikátum-csoportok (kulcs-indexek) keresése.
+ *
+ * exact: azonos kulcs. fuzzy: a normalizált kulcsok hasonlósága legalább
+ * threshold; egy kulcs az első olyan csoportba kerül, amelynek az első
+ * elemére elég hasonló (nem tranzitív lánc). A fuzzy mód négyzetes a
+ * különböző kulcsok számában.
+ */
+export function findDuplicateGroups(
+  keys: string[],
+  match: DuplicateMatch,
+  threshold: number,
+): number[][] {
+  const exactGroups = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    const normalized = match === 'fuzzy' ? normalizeForMatch(key) : key;
+    const group = exactGroups.get(normalized);
+    if (group) {
+      group.push(index);
+    } else {
+      exactGroups.set(normalized, [index]);
+    }
+  });
+
+  let groups = [...exactGroups.entries()];
+
+  if (match === 'fuzzy') {
+    const merged: { key: string; members: number[] }[] = [];
+    for (const [key, members] of groups) {
+      const target = merged.find(
+        (group) =>
+          lengthAllows(group.key, key, threshold) &&
+          similarity(group.key, key) >= threshold,
+      );
+      if (target) {
+        target.members.push(...members);
+      } else {
+        merged.push({ key, members: [...members] });
+      }
+    }
+    groups = merged.map((group) => [group.key, group.members]);
+  }
+
+  return groups
+    .map(([, members]) => members.sort((a, b) => a - b))
+    .filter((members) => members.length > 1)
+    .sort((a, b) => a[0] - b[0]);
+}
+
+/** Gyors előszűrés: túl eltérő hosszú kulcsok nem lehetnek elég hasonlók. */
+function lengthAllows(a: string, b: string, threshold: number): boolean {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 || Math.min(a.length, b.length) / longest >= threshold;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -0,0 +1,706 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvEngineService } from './csv-engine.service';
+
+describe('CsvEngineService', () => {
+  let service: CsvEngineService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvEngineService],
+    }).compile();
+
+    service = module.get<CsvEngineService>(CsvEngineService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('parseCsv', () => {
+    it('keeps delimiters, newlines and escaped quotes inside quoted fields', () => {
+      const csv =
+        'ID,Nev\r\n1,"Kovacs, Janos"\n2,"Line 1\nLine 2"\n3,"Say ""hi"""';
+
+      expect(service.parseCsv(csv, ',')).toEqual([
+        ['ID', 'Nev'],
+        ['1', 'Kovacs, Janos'],
+        ['2', 'Line 1\nLine 2'],
+        ['3', 'Say "hi"'],
+      ]);
+    });
+
+    it('tolerates unescaped quotes inside a quoted field', () => {
+      const csv = 'ID,Nev,Varos\n2,"Gabor "Geza" Toth",Szeged';
+
+      expect(service.parseCsv(csv, ',')[1]).toEqual([
+        '2',
+        'Gabor "Geza" Toth',
+        'Szeged',
+      ]);
+    });
+
+    it('skips blank lines but keeps empty fields', () => {
+      expect(service.parseCsv('a;b\n\n;\n', ';')).toEqual([
+        ['a', 'b'],
+        ['', ''],
+      ]);
+    });
+  });
+
+  describe('serializeCsv', () => {
+    it('quotes only the cells that need it', () => {
+      const rows = [
+        ['ID', 'Nev'],
+        ['1', 'Kovacs, Janos'],
+        ['2', 'Say "hi"'],
+        ['3', 'plain'],
+      ];
+
+      expect(service.serializeCsv(rows, ',')).toBe(
+        'ID,Nev\n1,"Kovacs, Janos"\n2,"Say ""hi"""\n3,plain',
+      );
+    });
+
+    it('round-trips through parseCsv', () => {
+      const rows = [
+        ['a', 'b;c', ' spaced '],
+        ['"quoted"', 'multi\r\nline', ''],
+        [''],
+      ];
+
+      const csv = service.serializeCsv(rows, ';');
+      expect(service.parseCsv(csv, ';')).toEqual(rows);
+    });
+  });
+
+  describe('applyActions', () => {
+    it('strips wrapping quotes left in real field values', () => {
+      const rows = service.parseCsv('Nev\n" ""Anna"" "', ',');
+
+      const result = service.applyActions(
+        rows,
+        [{ type: 'STRIP_WRAPPING_QUOTES' }],
+        true,
+      );
+
+      expect(result.rows).toEqual([['Nev'], ['Anna']]);
+    });
+
+    it('pads short rows when a quoted field contains the delimiter', () => {
+      const rows = service.parseCsv('ID,Nev,Email\n1,"Kovacs, Janos"', ',');
+
+      const result = service.applyActions(
+        rows,
+        [{ type: 'ENSURE_EQUAL_COLUMNS', mode: 'pad-with-empty' }],
+        true,
+      );
+
+      expect(result.rows[1]).toEqual(['1', 'Kovacs, Janos', '']);
+    });
+
+    it('counts changed rows, not cells', () => {
+      const rows = [
+        ['ID', 'Nev'],
+        [' 1 ', ' Anna '],
+        ['2', 'Bela'],
+      ];
+
+      const result = service.applyActions(
+        rows,
+        [{ type: 'TRIM_WHITESPACE' }],
+        true,
+      );
+
+      expect(result.rowsChanged).toBe(1);
+      expect(result.cellsChanged).toBe(2);
+      expect(result.changes).toBeUndefined();
+    });
+
+    it('records cell changes and rejected rows when auditing', () => {
+      const rows = [
+        ['ID', 'Eletkor'],
+        ['1', ' 25'],
+        ['2', 'abc'],
+      ];
+
+      const result = service.applyActions(
+        rows,
+        [
+          { type: 'TRIM_WHITESPACE' },
+          { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'drop-row' },
+        ],
+        true,
+        { audit: true, rowNumbers: [1, 3, 4] },
+      );
+
+      expect(result.rowNumbers).toEqual([1, 3]);
+      expect(result.changes).toEqual([
+        {
+          rowNumber: 3,
+          column: 1,
+          columnName: 'Eletkor',
+          oldValue: ' 25',
+          newValue: '25',
+          action: 'TRIM_WHITESPACE',
+        },
+      ]);
+      expect(result.rejectedRows).toEqual([
+        {
+          rowNumber: 4,
+          row: ['2', 'abc'],
+          reason: 'column 1: "abc" is not a number',
+          action: 'COERCE_NUMERIC',
+        },
+      ]);
+      expect(rows[1][1]).toBe(' 25');
+    });
+
+    it('normalizes header names to unique snake_case without accents', () => {
+      const rows = [
+        [' Életkor ', 'Név', 'név', 'Születési Dátum', ''],
+        ['1', 'a', 'b', 'c', 'd'],
+      ];
+
+      const result = service.applyActions(
+        rows,
+        [{ type: 'NORMALIZE_HEADERS' }],
+        true,
+      );
+
+      expect(result.rows[0]).toEqual([
+        'eletkor',
+        'nev',
+        'nev_2',
+        'szuletesi_datum',
+        'column_5',
+      ]);
+      expect(result.rows[1]).toEqual(rows[1]);
+    });
+
+    it('resolves columns by header name, before and after normalization', () => {
+      const rows = [
+        ['ID', 'Életkor'],
+        ['1', '25.0'],
+      ];
+
+      const result = service.applyActions(
+        rows,
+        [
+          { type: 'NORMALIZE_HEADERS' },
+          {
+            type: 'COERCE_NUMERIC',
+            columnName: 'Életkor',
+            onError: 'drop-row',
+          },
+          { type: 'COERCE_NUMERIC', columnName: 'Kor', onError: 'drop-row' },
+        ],
+        true,
+      );
+
+      expect(result.rows).toEqual([
+        ['id', 'eletkor'],
+        ['1', '25'],
+      ]);
+      expect(result.unresolvedColumns).toEqual([
+        'COERCE_NUMERIC: unknown column "Kor"',
+      ]);
+    });
+
+    describe('text normalization', () => {
+      const apply = (cells: string[], action: Record<string, unknown>) =>
+        service.applyActions(
+          [['Nev', 'Varos'], cells],
+          service.mapToCleaningActions([action]),
+          true,
+        ).rows;
+
+      it('collapses internal whitespace in every column', () => {
+        expect(
+          apply(['  Janos   Kovacs  ', 'Szeged\t\t '], {
+            type: 'COLLAPSE_WHITESPACE',
+          }),
+        ).toEqual([
+          ['Nev', 'Varos'],
+          ['Janos Kovacs', 'Szeged'],
+        ]);
+      });
+
+      it('changes case with Hungarian rules, only in the given column', () => {
+        const action = { type: 'CHANGE_CASE', columnName: 'Nev' };
+
+        expect(
+          apply(['kovács-nagy ÉVA', 'szeged'], { ...action, case: 'title' }),
+        ).toEqual([
+          ['Nev', 'Varos'],
+          ['Kovács-Nagy Éva', 'szeged'],
+        ]);
+        expect(apply(['őz ügy', 'x'], { ...action, case: 'upper' })[1][0]).toBe(
+          'ŐZ ÜGY',
+        );
+      });
+
+      it('normalizes unicode, strips control characters and folds accents', () => {
+        expect(
+          apply(['Ｐéter\u200B', 'x'], {
+            type: 'UNICODE_NORMALIZE',
+            form: 'NFKC',
+          })[1][0],
+        ).toBe('Péter\u200B');
+        expect(
+          apply(['\uFEFFPéter\u0007', 'a\nb'], {
+            type: 'STRIP_CONTROL_CHARS',
+          })[1],
+        ).toEqual(['Péter', 'a\nb']);
+        expect(
+          apply(['Árvíztűrő', 'Tükörfúrógép'], {
+            type: 'FOLD_ACCENTS',
+            columnIndex: 0,
+          })[1],
+        ).toEqual(['Arvizturo', 'Tükörfúrógép']);
+      });
+    });
+
+    describe('locale-aware conversion', () => {
+      const convert = (values: string[], action: Record<string, unknown>) =>
+        service.applyActions(
+          [['Ertek'], ...values.map((v) => [v])],
+          service.mapToCleaningActions([{ ...action, columnIndex: 0 }]),
+          true,
+          { audit: true },
+        );
+
+      it('parses Hungarian numbers, percentages and currency marks', () => {
+        const result = convert(['1 234,50', '12.500 Ft', '45%', '-3'], {
+          type: 'COERCE_NUMERIC',
+          locale: 'hu-HU',
+        });
+
+        expect(result.rows.slice(1).flat()).toEqual([
+          '1234.5',
+          '12500',
+          '45',
+          '-3',
+        ]);
+      });
+
+      it('sends ambiguous numbers to onError instead of guessing', () => {
+        const result = convert(['1,234', '0,5', '1.234,5'], {
+          type: 'COERCE_NUMERIC',
+          onError: 'drop-row',
+        });
+
+        expect(result.rows.slice(1).flat()).toEqual(['0.5', '1234.5']);
+        expect(result.rejectedRows?.[0].reason).toBe(
+          'column 0: "1,234" is an ambiguous number (thousands or decimal separator?)',
+        );
+      });
+
+      it('reads a single dot as the decimal separator without a locale', () => {
+        const result = convert(['47.497', '1.234', '0.500'], {
+          type: 'COERCE_NUMERIC',
+        });
+
+        expect(result.rowsDropped).toBe(0);
+        expect(result.rows.slice(1).flat()).toEqual(['47.497', '1.234', '0.5']);
+      });
+
+      it('sends dotted amounts with a currency mark to onError without a locale', () => {
+        const result = convert(
+          ['12.500 Ft', '1.250 Ft', '1,250 Ft', '12.50 Ft'],
+          {
+            type: 'NORMALIZE_CURRENCY',
+            currency: 'HUF',
+            output: 'amount-code',
+            onError: 'set-null',
+          },
+        );
+
+        expect(result.rows.slice(1).flat()).toEqual(['', '', '', '12.5 HUF']);
+        expect(
+          convert(['12.500 Ft', '1.250 Ft'], {
+            type: 'NORMALIZE_CURRENCY',
+            currency: 'HUF',
+            output: 'amount-code',
+            thousandsSeparator: '.',
+          })
+            .rows.slice(1)
+            .flat(),
+        ).toEqual(['12500 HUF', '1250 HUF']);
+      });
+
+      it('normalizes currency amounts', () => {
+        const result = convert(['12.500 Ft', 'HUF 990', '5 €', '700'], {
+          type: 'NORMALIZE_CURRENCY',
+          locale: 'hu-HU',
+          currency: 'HUF',
+          output: 'amount-code',
+          onError: 'set-null',
+        });
+
+        expect(result.rows.slice(1).flat()).toEqual([
+          '12500 HUF',
+          '990 HUF',
+          '',
+          '700 HUF',
+        ]);
+      });
+
+      it('normalizes dates and leaves ambiguous ones to onError', () => {
+        const result = convert(
+          [
+            '2024.03.05.',
+            '05.03.2024',
+            '25/12/2024',
+            '2024-03-05T10:00:00Z',
+            '03/05/2024',
+            '2024-02-30',
+          ],
+          { type: 'NORMALIZE_DATE', outputFormat: 'YYYY-MM-DD' },
+        );
+
+        expect(result.rows.slice(1).flat()).toEqual([
+          '2024-03-05',
+          '2024-03-05',
+          '2024-12-25',
+          '2024-03-05',
+          '03/05/2024',
+          '2024-02-30',
+        ]);
+      });
+    });
+
+    describe('field validation', () => {
+      const validate = (values: string[], action: Record<string, unknown>) =>
+        service.applyActions(
+          [['Mezo'], ...values.map((v) => [v])],
+          service.mapToCleaningActions([
+            { type: 'VALIDATE_FIELD', columnIndex: 0, ...action },
+          ]),
+          true,
+        );
+
+      it('normalizes valid values and flags invalid ones by default', () => {
+        const result = validate(
+          ['06 30 123 4567', '+36 1 234 5678', '0044 20 7946 0958', '1234'],
+          { validator: 'phone' },
+        );
+
+        expect(result.rows.slice(1).flat()).toEqual([
+          '+36301234567',
+          '+3612345678',
+          '+442079460958',
+          '1234',
+        ]);
+        expect(result.flaggedRows).toEqual([
+          {
+            rowNumber: 5,
+            column: 0,
+            columnName: 'Mezo',
+            value: '1234',
+            reason:
+              'column 0: "1234" is not a phone number in international or 06 format',
+            action: 'VALIDATE_FIELD',
+          },
+        ]);
+      });
+
+      it('checks Hungarian tax and TAJ number checksums', () => {
+        const tax = validate(['10773381244', '10773382-2-44'], {
+          validator: 'hu-tax-number',
+          onError: 'blank',
+        });
+        const taj = validate(['111 111 110', '111111111'], {
+          validator: 'hu-taj',
+          onError: 'drop-row',
+        });
+
+        expect(tax.rows.slice(1).flat()).toEqual(['10773381-2-44', '']);
+        expect(taj.rows.slice(1).flat()).toEqual(['111111110']);
+        expect(taj.flaggedRows).toEqual([]);
+      });
+
+      it('keeps the original value when normalize is false', () => {
+        const result = validate(['H-1051', ' 1051 ', '999'], {
+          validator: 'hu-postal-code',
+          normalize: false,
+        });
+
+        expect(result.rows.slice(1).flat()).toEqual([
+          'H-1051',
+          ' 1051 ',
+          '999',
+        ]);
+        expect(result.flaggedRows.map((f) => f.rowNumber)).toEqual([4]);
+      });
+    });
+
+    describe('missing values', () => {
+      const run = (rows: string[][], actions: Record<string, unknown>[]) =>
+        service.applyActions(rows, service.mapToCleaningActions(actions), true)
+          .rows;
+
+      it('maps null markers to one canonical value', () => {
+        const rows = [
+          ['Nev', 'Varos'],
+          ['N/A', ' nincs '],
+          ['-', '   '],
+          ['Anna', 'NULL'],
+        ];
+
+        expect(run(rows, [{ type: 'STANDARDIZE_NULLS' }])).toEqual([
+          ['Nev', 'Varos'],
+          ['', ''],
+          ['', ''],
+          ['Anna', ''],
+        ]);
+        expect(
+          run(rows, [
+            {
+              type: 'STANDARDIZE_NULLS',
+              columnName: 'Varos',
+              tokens: ['Nincs'],
+              nullValue: 'NULL',
+            },
+          ]),
+        ).toEqual([
+          ['Nev', 'Varos'],
+          ['N/A', 'NULL'],
+          ['-', 'NULL'],
+          ['Anna', 'NULL'],
+        ]);
+      });
+
+      it('imputes numbers with mean, median or a constant', () => {
+        const rows = [['Ar'], ['1 000'], [''], ['2 000'], ['6 000'], ['x']];
+        const impute = (params: Record<string, unknown>) =>
+          run(rows, [
+            { type: 'IMPUTE', columnIndex: 0, locale: 'hu-HU', ...params },
+          ])
+            .slice(1)
+            .flat();
+
+        expect(impute({ strategy: 'mean' })[1]).toBe('3000');
+        expect(impute({ strategy: 'median' })[1]).toBe('2000');
+        expect(impute({ strategy: 'constant', value: '0' })).toEqual([
+          '1 000',
+          '0',
+          '2 000',
+          '6 000',
+          'x',
+        ]);
+      });
+
+      it('imputes categories with mode or forward-fill', () => {
+        const rows = [
+          ['Varos'],
+          [''],
+          ['Pécs'],
+          ['Győr'],
+          [''],
+          ['Győr'],
+          [''],
+        ];
+        const impute = (strategy: string) =>
+          run(rows, [{ type: 'IMPUTE', columnIndex: 0, strategy }])
+            .slice(1)
+            .flat();
+
+        expect(impute('mode')).toEqual([
+          'Győr',
+          'Pécs',
+          'Győr',
+          'Győr',
+          'Győr',
+          'Győr',
+        ]);
+        expect(impute('forward-fill')).toEqual([
+          '',
+          'Pécs',
+          'Győr',
+          'Győr',
+          'Győr',
+          'Győr',
+        ]);
+      });
+
+      it('removes empty rows, ignoring the given key columns', () => {
+        const rows = [
+          ['ID', 'Nev'],
+          ['1', ''],
+          ['', ' '],
+          ['3', 'Cecil'],
+        ];
+
+        expect(run(rows, [{ type: 'REMOVE_EMPTY_ROWS' }])).toEqual([
+          ['ID', 'Nev'],
+          ['1', ''],
+          ['3', 'Cecil'],
+        ]);
+        expect(
+          run(rows, [{ type: 'REMOVE_EMPTY_ROWS', ignoreColumns: ['ID'] }]),
+        ).toEqual([
+          ['ID', 'Nev'],
+          ['3', 'Cecil'],
+        ]);
+      });
+    });
+
+    describe('structural transforms', () => {
+      const people = [
+        ['ID', 'Nev', 'Varos', 'Utca', 'Junk'],
+        ['1', 'Kovács Éva Mária', 'Pécs', 'Fő u. 1', 'x'],
+        ['2', 'Nagy', '', 'Kossuth tér 2', ''],
+      ];
+      const run = (actions: Record<string, unknown>[], rows = people) =>
+        service.applyActions(rows, service.mapToCleaningActions(actions), true);
+
+      it('splits, merges, drops and renames columns in one pipeline', () => {
+        const result = run([
+          {
+            type: 'SPLIT_COLUMN',
+            columnName: 'Nev',
+            into: ['Vezeteknev', 'Keresztnev'],
+          },
+          {
+            type: 'MERGE_COLUMNS',
+            columns: ['Varos', 'Utca'],
+            separator: ', ',
+            into: 'Cim',
+          },
+          { type: 'DROP_COLUMNS', columns: ['Junk'] },
+          { type: 'RENAME_COLUMN', columnIndex: 0, newName: 'Azonosito' },
+          { type: 'COERCE_NUMERIC', columnName: 'Azonosito' },
+        ]);
+
+        expect(result.rows).toEqual([
+          ['Azonosito', 'Vezeteknev', 'Keresztnev', 'Cim'],
+          ['1', 'Kovács', 'Éva Mária', 'Pécs, Fő u. 1'],
+          ['2', 'Nagy', '', 'Kossuth tér 2'],
+        ]);
+        expect(result.unresolvedColumns).toEqual([]);
+      });
+
+      it('reorders columns and derives new ones from a template', () => {
+        const result = run([
+          { type: 'REORDER_COLUMNS', columns: ['Varos', 0] },
+          { type: 'DERIVE_COLUMN', into: 'Cimke', template: '{ID}-{Varos}' },
+          { type: 'DROP_COLUMNS', columns: [2, 3] },
+        ]);
+
+        expect(result.rows).toEqual([
+          ['Varos', 'ID', 'Junk', 'Cimke'],
+          ['Pécs', '1', 'x', '1-Pécs'],
+          ['', '2', '', '2-'],
+        ]);
+      });
+
+      it('replaces with regex capture groups', () => {
+        const result = run([
+          {
+            type: 'REGEX_REPLACE',
+            columnName: 'Utca',
+            pattern: '^(.+?) (u\\.|tér) (\\d+)$',
+            replacement: '$3, $1 $2',
+          },
+        ]);
+
+        expect(result.rows.map((row) => row[3])).toEqual([
+          'Utca',
+          '1, Fő u.',
+          '2, Kossuth tér',
+        ]);
+      });
+
+      it('keeps batches without the header row consistent', () => {
+        const actions = service.mapToCleaningActions([
+          { type: 'DROP_COLUMNS', columns: ['Junk', 'Utca'] },
+          { type: 'ENSURE_EQUAL_COLUMNS', mode: 'pad-with-empty' },
+          { type: 'RENAME_COLUMN', columnName: 'Varos', newName: 'City' },
+          { type: 'CHANGE_CASE', columnName: 'City', case: 'upper' },
+        ]);
+        const result = service.applyActions(
+          [['3', 'Kiss Ede']],
+          actions,
+          false,
+          {
+            header: people[0],
+            expectedColumns: 5,
+          },
+        );
+
+        expect(result.rows).toEqual([['3', 'Kiss Ede', '']]);
+        expect(result.unresolvedColumns).toEqual([]);
+      });
+    });
+
+    describe('deduplication', () => {
+      const contacts = [
+        ['Nev', 'Email', 'Telefon'],
+        ['Kovács Éva', 'eva@example.com', ''],
+        ['Nagy Péter', 'peter@example.com', '+36301234567'],
+        ['Kovács Éva', 'eva@example.com', ''],
+        ['kovacs  eva', 'eva@example.com', '+36201234567'],
+      ];
+      const dedupe = (action: Record<string, unknown>) =>
+        service.applyActions(
+          contacts,
+          service.mapToCleaningActions([{ type: 'DEDUPLICATE', ...action }]),
+          true,
+          { audit: true },
+        );
+
+      it('drops exact duplicate rows and reports the group', () => {
+        const result = dedupe({});
+
+        expect(result.rowNumbers).toEqual([1, 2, 3, 5]);
+        expect(result.duplicateGroups).toEqual([
+          {
+            rowNumbers: [2, 4],
+            keptRowNumber: 2,
+            keyValues: ['Kovács Éva', 'eva@example.com', ''],
+            action: 'DEDUPLICATE',
+          },
+        ]);
+        expect(result.rejectedRows?.[0].reason).toBe('duplicate of row 2');
+      });
+
+      it('matches key columns and keeps the most complete row', () => {
+        const result = dedupe({
+          keyColumns: ['Email'],
+          keep: 'most-complete',
+        });
+
+        expect(result.rowNumbers).toEqual([1, 3, 5]);
+        expect(result.duplicateGroups[0]).toMatchObject({
+          rowNumbers: [2, 4, 5],
+          keptRowNumber: 5,
+          keyValues: ['eva@example.com'],
+        });
+      });
+
+      it('matches names case, whitespace and accent insensitively', () => {
+        const fuzzy = dedupe({
+          keyColumns: [0],
+          match: 'fuzzy',
+          keep: 'last',
+        });
+        const strict = dedupe({
+          keyColumns: [0],
+          match: 'fuzzy',
+          threshold: 1,
+        });
+        const loose = service.applyActions(
+          [['Kovács Évi'], ['Kovacs Eva'], ['Nagy Péter']],
+          service.mapToCleaningActions([
+            { type: 'DEDUPLICATE', match: 'fuzzy', threshold: 0.8 },
+          ]),
+          false,
+        );
+
+        expect(fuzzy.rowNumbers).toEqual([1, 3, 5]);
+        expect(strict.rowNumbers).toEqual([1, 2, 3]);
+        expect(loose.rows).toEqual([['Kovács Évi'], ['Nagy Péter']]);
+      });
+    });
+  });
+});
@@ -1,4 +1,49 @@
 import { Injectable } from '@nestjs/common';
+import { CsvTokenizer } from './csv-tokenizer';
+import {
+  findHeaderIndex,
+  foldAccents,
+  normalizeHeaderNames,
+} from './csv-headers';
+import {
+  CURRENCY_CODES,
+  DATE_INPUT_ORDERS,
+  DATE_OUTPUT_FORMATS,
+  DECIMAL_SEPARATORS,
+  DEFAULT_NULL_TOKENS,
+  THOUSANDS_SEPARATORS,
+  formatDate,
+  isNullValue,
+  isSupportedLocale,
+  parseCurrency,
+  parseDate,
+  parseNumber,
+} from './csv-values';
+import { FIELD_VALIDATORS, FIELD_VALIDATOR_NAMES } from './csv-validators';
+import {
+  DUPLICATE_MATCH_MODES,
+  buildDuplicateKey,
+  findDuplicateGroups,
+} from './csv-duplicates';
+import type { DuplicateMatch } from './csv-duplicates';
+import { isSafeRegex } from './csv-regex';
+import {
+  dropColumns,
+  fillTemplate,
+  mergeColumns,
+  reorderColumns,
+  replaceColumn,
+  splitValue,
+  templateRefs,
+} from './csv-columns';
+import type { FieldValidatorName } from './csv-validators';
+import type {
+  CurrencyCode,
+  DateInputOrder,
+  DateOutputFormat,
+  NumberFormatOptions,
+  ParseResult,
+} from './csv-values';
 
 /**
  * Belső típusok a tisztító lépésekhez.
@@ -7,11 +52,58 @@ import { Injectable } from '@nestjs/common';
 
 type CleaningMode = 'drop-row' | 'pad-with-empty';
 type CoerceOnError = 'drop-row' | 'set-null' | 'set-zero';
+/** keep: az át nem alakítható érték változatlan marad. */
+type NormalizeOnError = 'drop-row' | 'set-null' | 'keep';
+/** blank: a cella kiürül; flag: marad, de a sor bekerül a flaggedRows-ba. */
+type ValidateOnError = 'drop-row' | 'blank' | 'flag';
+type ConvertOnError = CoerceOnError | NormalizeOnError | ValidateOnError;
+export type CurrencyOutput = 'amount' | 'amount-code';
+export type UnicodeForm = 'NFC' | 'NFKC';
+export type TextCase = 'upper' | 'lower' | 'title';
+export const IMPUTE_STRATEGIES = [
+  'mean',
+  'median',
+  'constant',
+  'mode',
+  'forward-fill',
+] as const;
+export type ImputeStrategy = (typeof IMPUTE_STRATEGIES)[number];
+/** most-complete: a legtöbb nem üres cellát tartalmazó sor marad. */
+export type DuplicateKeep = 'first' | 'last' | 'most-complete';
+
+/** A kis- / nagybetűsítés nyelvi beállítása (pl. török i / İ helyett). */
+const TEXT_LOCALE = 'hu-HU';
+
+/**
+ * Vezérlőkarakterek (a tab és a sortörések kivételével) + BOM / zero-width
+ * space, ami Excel exportokban gyakran a cellák elején marad.
+ */
+const CONTROL_CHARS = /(?![\t\n\r])[\p{Cc}\u200B\uFEFF]/gu;
+
+/** DEDUPLICATE fuzzy módjának alapértelmezett hasonlósági küszöbe. */
+const DEFAULT_FUZZY_THRESHOLD = 0.9;
 
 interface CleaningActionBase {
   type: string;
 }
 
+/**
+ * Oszlop-hivatkozás: pozíció (0-tól) VAGY header név. Ha mindkettő meg van
+ * adva, a név az erősebb, így a terv oszlopok beszúrása / átrendezése után
+ * is működik. A nevet normalizált alakban is egyeztetjük ("Életkor" ==
+ * "eletkor").
+ */
+export interface ColumnRef {
+  columnIndex?: number;
+  columnName?: string;
+}
+
+/**
+ * Oszlop-lista több oszlopos action-ökhöz: szám = pozíció (0-tól),
+ * szöveg = header név (a ColumnRef-hez hasonlóan feloldva).
+ */
+export type ColumnList = (number | string)[];
+
 interface TrimWhitespaceAction extends CleaningActionBase {
   type: 'TRIM_WHITESPACE';
 }
@@ -25,16 +117,201 @@ interface EnsureEqualColumnsAction extends CleaningActionBase {
   mode: CleaningMode;
 }
 
+/**
+ * Üres sorok eldobása. ignoreColumns: ezeket az oszlopokat (pl. ID) nem
+ * nézzük, így egy csak azonosítót tartalmazó sor is üresnek számít.
+ */
 interface RemoveEmptyRowsAction extends CleaningActionBase {
   type: 'REMOVE_EMPTY_ROWS';
+  ignoreColumns?: ColumnList;
 }
 
-interface CoerceNumericAction extends CleaningActionBase {
+/**
+ * Számformátum (NumberFormatOptions): locale és / vagy elválasztók; ha egyik
+ * sincs megadva, csak az egyértelmű alakokat alakítjuk számmá.
+ */
+interface CoerceNumericAction
+  extends CleaningActionBase,
+    ColumnRef,
+    NumberFormatOptions {
   type: 'COERCE_NUMERIC';
-  columnIndex: number;
   onError: CoerceOnError;
 }
 
+/**
+ * Pénzösszeg → sima szám ("12.500 Ft" → "12500"), "amount-code" kimenetnél
+ * ISO pénznemkóddal ("12500 HUF"). A currency az elvárt / alapértelmezett
+ * pénznem: ettől eltérő jelölésű érték hibának számít.
+ */
+interface NormalizeCurrencyAction
+  extends CleaningActionBase,
+    ColumnRef,
+    NumberFormatOptions {
+  type: 'NORMALIZE_CURRENCY';
+  currency?: CurrencyCode;
+  output: CurrencyOutput;
+  decimals?: number;
+  onError: NormalizeOnError;
+}
+
+/**
+ * Dátum → egységes formátum (alapból ISO: YYYY-MM-DD).
+ */
+interface NormalizeDateAction extends CleaningActionBase, ColumnRef {
+  type: 'NORMALIZE_DATE';
+  inputOrder: DateInputOrder;
+  outputFormat: DateOutputFormat;
+  onError: NormalizeOnError;
+}
+
+/**
+ * Hiányzó érték jelölések ("N/A", "-", "nincs", csak whitespace) egységes
+ * alakra (alapból üres cella). Oszlop nélkül minden oszlopra, a header
+ * kivételével.
+ */
+interface StandardizeNullsAction extends CleaningActionBase, ColumnRef {
+  type: 'STANDARDIZE_NULLS';
+  tokens: string[];
+  nullValue: string;
+}
+
+/**
+ * Üres cellák kitöltése egy oszlopban. mean / median: a számként
+ * értelmezhető értékekből (NumberFormatOptions szerint); mode: a
+ * leggyakoribb érték; forward-fill: az előző kitöltött érték; constant: value.
+ */
+interface ImputeAction
+  extends CleaningActionBase,
+    ColumnRef,
+    NumberFormatOptions {
+  type: 'IMPUTE';
+  strategy: ImputeStrategy;
+  value?: string;
+  decimals?: number;
+}
+
+/**
+ * Mező-validálás (email, telefon, URL, irányítószám, adószám, TAJ).
+ * normalize: az érvényes értéket a validátor normalizált alakjára írjuk
+ * (pl. telefonszám E.164-re).
+ */
+interface ValidateFieldAction extends CleaningActionBase, ColumnRef {
+  type: 'VALIDATE_FIELD';
+  validator: FieldValidatorName;
+  onError: ValidateOnError;
+  normalize: boolean;
+}
+
+/**
+ * Duplikált sorok eltávolítása. keyColumns nélkül az egész sort hasonlítjuk.
+ * fuzzy: kis- / nagybetű, whitespace és ékezet független összevetés,
+ * threshold (0-1) feletti hasonlóságnál.
+ */
+interface DeduplicateAction extends CleaningActionBase {
+  type: 'DEDUPLICATE';
+  keyColumns?: ColumnList;
+  match: DuplicateMatch;
+  threshold: number;
+  keep: DuplicateKeep;
+}
+
+/*
+ * Szerkezeti action-ök: az oszlopok számát / sorrendjét / nevét változtatják.
+ * Minden sorra (a headerre is) egyformán hatnak, így a sorok szélessége
+ * konzisztens marad; a header nélküli sorokban az új oszlopnevek nem
+ * jelennek meg. A cellánkénti naplóba (cellsChanged, audit) nem kerülnek.
+ */
+
+/**
+ * Egy oszlop felbontása több oszlopra (into: az új oszlopnevek). Az utolsó
+ * rész kapja a maradékot; keepOriginal esetén az eredeti oszlop is marad.
+ */
+interface SplitColumnAction extends CleaningActionBase, ColumnRef {
+  type: 'SPLIT_COLUMN';
+  separator: string;
+  into: string[];
+  keepOriginal: boolean;
+}
+
+/**
+ * Oszlopok összevonása egy új oszlopba (az üres részek kimaradnak).
+ */
+interface MergeColumnsAction extends CleaningActionBase {
+  type: 'MERGE_COLUMNS';
+  columns: ColumnList;
+  separator: string;
+  into: string;
+  keepOriginal: boolean;
+}
+
+interface RenameColumnAction extends CleaningActionBase, ColumnRef {
+  type: 'RENAME_COLUMN';
+  newName: string;
+}
+
+/** A felsorolt oszlopok előre kerülnek, a többi utánuk (eredeti sorrendben). */
+interface ReorderColumnsAction extends CleaningActionBase {
+  type: 'REORDER_COLUMNS';
+  columns: ColumnList;
+}
+
+interface DropColumnsAction extends CleaningActionBase {
+  type: 'DROP_COLUMNS';
+  columns: ColumnList;
+}
+
+/**
+ * Új oszlop (a sor végére) sablonból: "{Vezeteknev} {Keresztnev}" vagy
+ * "{0}-{1}" (oszlopnév vagy 0-tól számolt index).
+ */
+interface DeriveColumnAction extends CleaningActionBase {
+  type: 'DERIVE_COLUMN';
+  into: string;
+  template: string;
+}
+
+/**
+ * Reguláris kifejezéses csere; a replacement hivatkozhat a csoportokra
+ * ($1, $<nev>). Oszlop nélkül minden oszlopra (a header kivételével).
+ */
+interface RegexReplaceAction extends CleaningActionBase, ColumnRef {
+  type: 'REGEX_REPLACE';
+  pattern: string;
+  replacement: string;
+  flags: string;
+}
+
+interface NormalizeHeadersAction extends CleaningActionBase {
+  type: 'NORMALIZE_HEADERS';
+}
+
+/*
+ * Szöveg-normalizáló action-ök: oszlop nélkül az összes oszlopra, a header
+ * sor kivételével (a headerhez ott a NORMALIZE_HEADERS).
+ */
+
+interface CollapseWhitespaceAction extends CleaningActionBase, ColumnRef {
+  type: 'COLLAPSE_WHITESPACE';
+}
+
+interface UnicodeNormalizeAction extends CleaningActionBase, ColumnRef {
+  type: 'UNICODE_NORMALIZE';
+  form: UnicodeForm;
+}
+
+interface ChangeCaseAction extends CleaningActionBase, ColumnRef {
+  type: 'CHANGE_CASE';
+  case: TextCase;
+}
+
+interface StripControlCharsAction extends CleaningActionBase, ColumnRef {
+  type: 'STRIP_CONTROL_CHARS';
+}
+
+interface FoldAccentsAction extends CleaningActionBase, ColumnRef {
+  type: 'FOLD_ACCENTS';
+}
+
 /**
  * A Nest által ténylegesen végrehajtott tisztító lépések típusa.
  */
@@ -43,12 +320,183 @@ export type CleaningAction =
   | StripWrappingQuotesAction
   | EnsureEqualColumnsAction
   | RemoveEmptyRowsAction
-  | CoerceNumericAction;
+  | CoerceNumericAction
+  | NormalizeCurrencyAction
+  | NormalizeDateAction
+  | StandardizeNullsAction
+  | ImputeAction
+  | ValidateFieldAction
+  | DeduplicateAction
+  | SplitColumnAction
+  | MergeColumnsAction
+  | RenameColumnAction
+  | ReorderColumnsAction
+  | DropColumnsAction
+  | DeriveColumnAction
+  | RegexReplaceAction
+  | NormalizeHeadersAction
+  | CollapseWhitespaceAction
+  | UnicodeNormalizeAction
+  | ChangeCaseAction
+  | StripControlCharsAction
+  | FoldAccentsAction;
+
+/**
+ * A determinisztikus előtisztítás, amit MINDEN feltöltésnél lefuttatunk
+ * (AI nélkül), mielőtt mintát készítenénk az AI-nak.
+ */
+export const PRE_CLEAN_ACTIONS: CleaningAction[] = [
+  { type: 'STRIP_WRAPPING_QUOTES' },
+  { type: 'TRIM_WHITESPACE' },
+  { type: 'REMOVE_EMPTY_ROWS' },
+  { type: 'ENSURE_EQUAL_COLUMNS', mode: 'pad-with-empty' },
+];
 
+/**
+ * Azok az action-ök, amelyek a TELJES fájlt látva döntenek (nem
+ * soronként), ezért darabonként (streamelve) nem futtathatók helyesen.
+ */
+export const WHOLE_FILE_ACTIONS: readonly CleaningAction['type'][] = [
+  'DEDUPLICATE',
+  'IMPUTE',
+];
+
+/**
+ * Opcionális beállítások az applyActions-höz.
+ * - expectedColumns: ennyi oszlopot vár az ENSURE_EQUAL_COLUMNS. Streamelt,
+ *   darabokban (batch) feldolgozott fájlnál a header szélességét adjuk át,
+ *   mert a batch első sora nem feltétlenül a header.
+ * - rowNumbers: a bemeneti sorok eredeti sorszámai (1-től, a header is
+ *   számít). Egymás utáni applyActions hívásoknál az előző eredmény
+ *   rowNumbers-ét adjuk tovább, így a napló az EREDETI sorokra mutat.
+ * - audit: cellánkénti változásnapló + eldobott sorok listája (memóriaigényes,
+ *   ezért csak kérésre).
+ * - header: a név szerinti oszlop-hivatkozásokhoz, ha a rows NEM tartalmazza
+ *   a header sort (pl. streamelt batch a fájl közepéről). Az action-ök
+ *   ELŐTTI header kell: a szerkezeti action-ök ezt is átalakítják.
+ * - onAction: minden action után meghívjuk az action saját számlálóival
+ *   (haladás jelzéséhez)
+ */
+export interface ApplyActionsOptions {
+  expectedColumns?: number;
+  rowNumbers?: number[];
+  audit?: boolean;
+  header?: string[];
+  onAction?: (applied: AppliedAction) => void;
+}
+
+/**
+ * Egyetlen lefuttatott action számlálói (az applyActions onAction-jához).
+ * - index: az action helye a listában (0-tól)
+ * - rowsChanged: hány sort módosított ez az action; cellsChanged: hány
+ *   cellát; rowsDropped: hány sort dobott el
+ */
+export interface AppliedAction {
+  index: number;
+  type: CleaningAction['type'];
+  rowsChanged: number;
+  cellsChanged: number;
+  rowsDropped: number;
+}
+
+/**
+ * Egy cella változása. oldValue === null: a cella eddig nem létezett
+ * (kitöltés), newValue === null: a cellát levágtuk.
+ */
+export interface CellChange {
+  rowNumber: number;
+  column: number;
+  columnName?: string;
+  oldValue: string | null;
+  newValue: string | null;
+  action: CleaningAction['type'];
+}
+
+/**
+ * Egy eldobott sor az eldobás okával.
+ */
+export interface RejectedRow {
+  rowNumber: number;
+  row: string[];
+  reason: string;
+  action: CleaningAction['type'];
+}
+
+/**
+ * Egy megjelölt (onError: flag) érték: a sor megmarad, de a hibát jelezzük.
+ */
+export interface FlaggedRow {
+  rowNumber: number;
+  column: number;
+  columnName?: string;
+  value: string;
+  reason: string;
+  action: CleaningAction['type'];
+}
+
+/**
+ * Egy duplikátum-csoport (DEDUPLICATE): a csoport összes sora, a megtartott
+ * sor és annak kulcs értékei.
+ */
+export interface DuplicateGroup {
+  rowNumbers: number[];
+  keptRowNumber: number;
+  keyValues: string[];
+  action: CleaningAction['type'];
+}
+
+/**
+ * - rowsChanged: hány (megmaradt) SOR változott; cellsChanged: hány cella
+ * - changedRows: a megváltozott, megmaradt sorok eredeti sorszámai
+ * - changes / rejectedRows: csak audit: true esetén
+ * - flaggedRows: az onError: flag miatt megjelölt értékek a megmaradt
+ *   sorokban (mindig)
+ * - duplicateGroups: a DEDUPLICATE által talált csoportok (mindig)
+ * - unresolvedColumns: fel nem oldható oszlopnevek (ezek az action-ök
+ *   kimaradtak), pl. 'COERCE_NUMERIC: unknown column "Kor"'
+ */
 export interface ApplyActionsResult {
   rows: string[][];
+  rowNumbers: number[];
+  changedRows: number[];
   rowsChanged: number;
+  cellsChanged: number;
+  rowsDropped: number;
+  flaggedRows: FlaggedRow[];
+  duplicateGroups: DuplicateGroup[];
+  unresolvedColumns: string[];
+  changes?: CellChange[];
+  rejectedRows?: RejectedRow[];
+}
+
+/**
+ * Egy sor a végrehajtás alatt: a cellái + az eredeti sorszáma.
+ */
+interface WorkingRow {
+  rowNumber: number;
+  cells: string[];
+}
+
+/**
+ * Egy applyActions hívás közös állapota (napló, számlálók).
+ */
+interface ActionRunContext {
+  hasHeader: boolean;
+  headerRowNumber?: number;
+  header: string[];
+  /** options.expectedColumns, a szerkezeti action-ök után igazítva */
+  expectedColumns?: number;
+  audit: boolean;
+  changedRows: Set<number>;
+  /** az éppen futó action által módosított sorok (onAction-hoz) */
+  actionChangedRows: Set<number>;
+  cellsChanged: number;
   rowsDropped: number;
+  flaggedRows: FlaggedRow[];
+  duplicateGroups: DuplicateGroup[];
+  unresolvedColumns: string[];
+  changes: CellChange[];
+  rejectedRows: RejectedRow[];
 }
 
 /**
@@ -72,23 +520,46 @@ export class CsvEngineService {
   }
 
   /**
-   * Nagyon egyszerű CSV "parser".
-   * - sorokra vág \r?\n alapján
+   * Idézőjel-tudatos (RFC 4180) CSV parser.
+   * - idézőjeles mezőkben megengedi a delimitert, sortörést és a "" escape-et
    * - üres sorokat eldob
-   * - delimiter mentén splitel
    *
-   * Később lecserélhető egy komolyabb CSV-lib-re.
+   * A tényleges tokenizálást a CsvTokenizer végzi (streamelve is használható).
    */
-  parseCsv(csv: string, delimiter: string): string[][] {
-    const lines = csv.split(/\r?\n/).filter((line) => line.length > 0);
-    return lines.map((line) => line.split(delimiter));
+  parseCsv(csv: string, delimiter: string, quoteChar = '"'): string[][] {
+    const tokenizer = new CsvTokenizer(delimiter, quoteChar);
+    return [...tokenizer.push(csv), ...tokenizer.flush()];
   }
 
   /**
    * A belső string[][] reprezentációból újra CSV szöveget készít.
+   * Csak azokat a cellákat tesszük idézőjelbe, ahol muszáj
+   * (delimiter, idézőjel vagy sortörés van bennük), így a parseCsv-vel
+   * oda-vissza alakítható.
    */
-  serializeCsv(rows: string[][], delimiter: string): string {
-    return rows.map((row) => row.join(delimiter)).join('\n');
+  serializeCsv(
+    rows: string[][],
+    delimiter: string,
+    quoteChar = '"',
+    lineEnding = '\n',
+  ): string {
+    return rows
+      .map((row) =>
+        row
+          .map((cell) =>
+            this.quoteCellIfNeeded(cell, delimiter, quoteChar, row.length),
+          )
+          .join(delimiter),
+      )
+      .join(lineEnding);
+  }
+
+  /**
+   * Mintát készít a már parse-olt sorokból (az első maxRows rekord).
+   * A buildSample-lel ellentétben nem vág ketté többsoros cellákat.
+   */
+  buildRowSample(rows: string[][], delimiter: string, maxRows = 50): string {
+    return this.serializeCsv(rows.slice(0, maxRows), delimiter);
   }
 
   /**
@@ -106,6 +577,37 @@ export class CsvEngineService {
         mode?: unknown;
         onError?: unknown;
         columnIndex?: unknown;
+        columnName?: unknown;
+        form?: unknown;
+        case?: unknown;
+        locale?: unknown;
+        decimalSeparator?: unknown;
+        thousandsSeparator?: unknown;
+        currency?: unknown;
+        output?: unknown;
+        decimals?: unknown;
+        inputOrder?: unknown;
+        outputFormat?: unknown;
+        validator?: unknown;
+        normalize?: unknown;
+        keyColumns?: unknown;
+        match?: unknown;
+        threshold?: unknown;
+        keep?: unknown;
+        ignoreColumns?: unknown;
+        tokens?: unknown;
+        nullValue?: unknown;
+        strategy?: unknown;
+        value?: unknown;
+        separator?: unknown;
+        into?: unknown;
+        keepOriginal?: unknown;
+        columns?: unknown;
+        newName?: unknown;
+        template?: unknown;
+        pattern?: unknown;
+        replacement?: unknown;
+        flags?: unknown;
       };
 
       if (typeof obj.type !== 'string') {
@@ -131,12 +633,18 @@ export class CsvEngineService {
           break;
         }
 
-        case 'REMOVE_EMPTY_ROWS':
-          actions.push({ type: 'REMOVE_EMPTY_ROWS' });
+        case 'REMOVE_EMPTY_ROWS': {
+          const ignoreColumns = this.mapColumnList(obj.ignoreColumns);
+          actions.push({
+            type: 'REMOVE_EMPTY_ROWS',
+            ...(ignoreColumns ? { ignoreColumns } : {}),
+          });
           break;
+        }
 
         case 'COERCE_NUMERIC': {
-          if (typeof obj.columnIndex === 'number') {
+          const column = this.mapColumnRef(obj);
+          if (column) {
             const rawOnError = obj.onError;
             const onError: CoerceOnError =
               rawOnError === 'set-null' ||
@@ -147,13 +655,257 @@ export class CsvEngineService {
 
             actions.push({
               type: 'COERCE_NUMERIC',
-              columnIndex: obj.columnIndex,
+              ...column,
+              ...this.mapNumberFormat(obj),
               onError,
             });
           }
           break;
         }
 
+        case 'NORMALIZE_CURRENCY': {
+          const column = this.mapColumnRef(obj);
+          if (column) {
+            actions.push({
+              type: 'NORMALIZE_CURRENCY',
+              ...column,
+              ...this.mapNumberFormat(obj),
+              currency: CURRENCY_CODES.find((c) => c === obj.currency),
+              output: obj.output === 'amount-code' ? 'amount-code' : 'amount',
+              decimals:
+                typeof obj.decimals === 'number' &&
+                Number.isInteger(obj.decimals) &&
+                obj.decimals >= 0 &&
+                obj.decimals <= 4
+                  ? obj.decimals
+                  : undefined,
+              onError: this.mapNormalizeOnError(obj.onError),
+            });
+          }
+          break;
+        }
+
+        case 'NORMALIZE_DATE': {
+          const column = this.mapColumnRef(obj);
+          if (column) {
+            actions.push({
+              type: 'NORMALIZE_DATE',
+              ...column,
+              inputOrder:
+                DATE_INPUT_ORDERS.find((o) => o === obj.inputOrder) ?? 'auto',
+              outputFormat:
+                DATE_OUTPUT_FORMATS.find((f) => f === obj.outputFormat) ??
+                'YYYY-MM-DD',
+              onError: this.mapNormalizeOnError(obj.onError),
+            });
+          }
+          break;
+        }
+
+        case 'STANDARDIZE_NULLS': {
+          const tokens = Array.isArray(obj.tokens)
+            ? obj.tokens.filter((t): t is string => typeof t === 'string')
+            : [];
+          actions.push({
+            type: 'STANDARDIZE_NULLS',
+            ...this.mapColumnRef(obj),
+            tokens:
+              tokens.length > 0
+                ? tokens.map((t) => t.trim().toLowerCase())
+                : [...DEFAULT_NULL_TOKENS],
+            nullValue: typeof obj.nullValue === 'string' ? obj.nullValue : '',
+          });
+          break;
+        }
+
+        case 'IMPUTE': {
+          const column = this.mapColumnRef(obj);
+          const strategy = IMPUTE_STRATEGIES.find((st) => st === obj.strategy);
+          const value = typeof obj.value === 'string' ? obj.value : undefined;
+          if (
+            column &&
+            strategy &&
+            (strategy !== 'constant' || value !== undefined)
+          ) {
+            actions.push({
+              type: 'IMPUTE',
+              ...column,
+              ...this.mapNumberFormat(obj),
+              strategy,
+              value,
+              decimals:
+                typeof obj.decimals === 'number' &&
+                Number.isInteger(obj.decimals) &&
+                obj.decimals >= 0 &&
+                obj.decimals <= 4
+                  ? obj.decimals
+                  : undefined,
+            });
+          }
+          break;
+        }
+
+        case 'VALIDATE_FIELD': {
+          const column = this.mapColumnRef(obj);
+          const validator = FIELD_VALIDATOR_NAMES.find(
+            (v) => v === obj.validator,
+          );
+          if (column && validator) {
+            actions.push({
+              type: 'VALIDATE_FIELD',
+              ...column,
+              validator,
+              onError:
+                obj.onError === 'drop-row' || obj.onError === 'blank'
+                  ? obj.onError
+                  : 'flag',
+              normalize: obj.normalize !== false,
+            });
+          }
+          break;
+        }
+
+        case 'DEDUPLICATE': {
+          const keyColumns = this.mapColumnList(obj.keyColumns);
+          actions.push({
+            type: 'DEDUPLICATE',
+            ...(keyColumns ? { keyColumns } : {}),
+            match:
+              DUPLICATE_MATCH_MODES.find((m) => m === obj.match) ?? 'exact',
+            threshold:
+              typeof obj.threshold === 'number' &&
+              obj.threshold >= 0 &&
+              obj.threshold <= 1
+                ? obj.threshold
+                : DEFAULT_FUZZY_THRESHOLD,
+            keep:
+              obj.keep === 'last' || obj.keep === 'most-complete'
+                ? obj.keep
+                : 'first',
+          });
+          break;
+        }
+
+        case 'SPLIT_COLUMN': {
+          const column = this.mapColumnRef(obj);
+          const into = Array.isArray(obj.into)
+            ? obj.into.filter(
+                (name): name is string => typeof name === 'string',
+              )
+            : [];
+          if (column && into.length >= 2) {
+            actions.push({
+              type: 'SPLIT_COLUMN',
+              ...column,
+              separator: this.mapSeparator(obj.separator),
+              into,
+              keepOriginal: obj.keepOriginal === true,
+            });
+          }
+          break;
+        }
+
+        case 'MERGE_COLUMNS': {
+          const columns = this.mapColumnList(obj.columns);
+          if (columns && typeof obj.into === 'string' && obj.into.length > 0) {
+            actions.push({
+              type: 'MERGE_COLUMNS',
+              columns,
+              separator:
+                typeof obj.separator === 'string' ? obj.separator : ' ',
+              into: obj.into,
+              keepOriginal: obj.keepOriginal === true,
+            });
+          }
+          break;
+        }
+
+        case 'RENAME_COLUMN': {
+          const column = this.mapColumnRef(obj);
+          if (column && typeof obj.newName === 'string' && obj.newName) {
+            actions.push({
+              type: 'RENAME_COLUMN',
+              ...column,
+              newName: obj.newName,
+            });
+          }
+          break;
+        }
+
+        case 'REORDER_COLUMNS':
+        case 'DROP_COLUMNS': {
+          const columns = this.mapColumnList(obj.columns);
+          if (columns) {
+            actions.push({ type: obj.type, columns });
+          }
+          break;
+        }
+
+        case 'DERIVE_COLUMN':
+          if (
+            typeof obj.into === 'string' &&
+            obj.into.length > 0 &&
+            typeof obj.template === 'string'
+          ) {
+            actions.push({
+              type: 'DERIVE_COLUMN',
+              into: obj.into,
+              template: obj.template,
+            });
+          }
+          break;
+
+        case 'REGEX_REPLACE': {
+          const flags = typeof obj.flags === 'string' ? obj.flags : 'g';
+          if (
+            typeof obj.pattern === 'string' &&
+            typeof obj.replacement === 'string' &&
+            isValidRegex(obj.pattern, flags) &&
+            isSafeRegex(obj.pattern, flags)
+          ) {
+            actions.push({
+              type: 'REGEX_REPLACE',
+              ...this.mapColumnRef(obj),
+              pattern: obj.pattern,
+              replacement: obj.replacement,
+              flags,
+            });
+          }
+          break;
+        }
+
+        case 'NORMALIZE_HEADERS':
+          actions.push({ type: 'NORMALIZE_HEADERS' });
+          break;
+
+        case 'COLLAPSE_WHITESPACE':
+        case 'STRIP_CONTROL_CHARS':
+        case 'FOLD_ACCENTS':
+          actions.push({ type: obj.type, ...this.mapColumnRef(obj) });
+          break;
+
+        case 'UNICODE_NORMALIZE':
+          actions.push({
+            type: 'UNICODE_NORMALIZE',
+            ...this.mapColumnRef(obj),
+            form: obj.form === 'NFKC' ? 'NFKC' : 'NFC',
+          });
+          break;
+
+        case 'CHANGE_CASE':
+          if (
+            obj.case === 'upper' ||
+            obj.case === 'lower' ||
+            obj.case === 'title'
+          ) {
+            actions.push({
+              type: 'CHANGE_CASE',
+              ...this.mapColumnRef(obj),
+              case: obj.case,
+            });
+          }
+          break;
+
         default:
           // ismeretlen action típust kihagyjuk
           break;
@@ -165,170 +917,945 @@ export class CsvEngineService {
 
   /**
    * A CleaningAction listát sorrendben végrehajtja a teljes CSV-n.
-   * Visszaadja az új rows-t és egyszerű statisztikákat.
+   * Visszaadja az új rows-t és statisztikákat (opcionálisan részletes naplót).
    */
   applyActions(
     rows: string[][],
     actions: CleaningAction[],
     hasHeader: boolean,
+    options: ApplyActionsOptions = {},
   ): ApplyActionsResult {
-    let workingRows = rows;
-    let rowsChanged = 0;
-    let rowsDropped = 0;
-
-    for (const action of actions) {
-      switch (action.type) {
-        case 'TRIM_WHITESPACE': {
-          let changedHere = 0;
-          workingRows = workingRows.map((row) => {
-            const newRow = row.map((cell) => {
-              const trimmed = cell.trim();
-              if (trimmed !== cell) {
-                changedHere++;
-              }
-              return trimmed;
-            });
-            return newRow;
-          });
-          rowsChanged += changedHere;
-          break;
-        }
+    // egyszer másolunk: az action-ök innentől helyben módosíthatják a cellákat
+    let workingRows: WorkingRow[] = rows.map((cells, index) => ({
+      rowNumber: options.rowNumbers?.[index] ?? index + 1,
+      cells: [...cells],
+    }));
 
-        case 'STRIP_WRAPPING_QUOTES': {
-          let changedHere = 0;
-          workingRows = workingRows.map((row) => {
-            const newRow = row.map((cell) => {
-              const trimmed = cell.trim();
-              if (
-                trimmed.length >= 2 &&
-                trimmed.startsWith('"') &&
-                trimmed.endsWith('"')
-              ) {
-                const inner = trimmed.slice(1, -1);
-                // egyszerű eset: levágjuk a külső idézőket
-                changedHere++;
-                return inner;
-              }
-              return cell;
-            });
-            return newRow;
+    const ctx: ActionRunContext = {
+      hasHeader,
+      headerRowNumber:
+        hasHeader && workingRows.length > 0
+          ? workingRows[0].rowNumber
+          : undefined,
+      header:
+        hasHeader && rows.length > 0
+          ? [...rows[0]]
+          : [...(options.header ?? [])],
+      expectedColumns: options.expectedColumns,
+      audit: options.audit ?? false,
+      changedRows: new Set<number>(),
+      actionChangedRows: new Set<number>(),
+      cellsChanged: 0,
+      rowsDropped: 0,
+      flaggedRows: [],
+      duplicateGroups: [],
+      unresolvedColumns: [],
+      changes: [],
+      rejectedRows: [],
+    };
+
+    actions.forEach((action, index) => {
+      const { cellsChanged, rowsDropped } = ctx;
+      ctx.actionChangedRows.clear();
+
+      workingRows = this.applyAction(workingRows, action, ctx);
+
+      options.onAction?.({
+        index,
+        type: action.type,
+        rowsChanged: ctx.actionChangedRows.size,
+        cellsChanged: ctx.cellsChanged - cellsChanged,
+        rowsDropped: ctx.rowsDropped - rowsDropped,
+      });
+    });
+
+    const rowNumbers = workingRows.map((row) => row.rowNumber);
+    const changedRows = rowNumbers.filter((n) => ctx.changedRows.has(n));
+    // egy később eldobott sor jelölése már nem releváns
+    const kept = new Set(rowNumbers);
+
+    return {
+      rows: workingRows.map((row) => row.cells),
+      rowNumbers,
+      changedRows,
+      rowsChanged: changedRows.length,
+      cellsChanged: ctx.cellsChanged,
+      rowsDropped: ctx.rowsDropped,
+      flaggedRows: ctx.flaggedRows.filter((f) => kept.has(f.rowNumber)),
+      duplicateGroups: ctx.duplicateGroups,
+      unresolvedColumns: ctx.unresolvedColumns,
+      ...(ctx.audit
+        ? { changes: ctx.changes, rejectedRows: ctx.rejectedRows }
+        : {}),
+    };
+  }
+
+  /**
+   * Egyetlen action végrehajtása. Visszaadja a megmaradt sorokat.
+   */
+  private applyAction(
+    rows: WorkingRow[],
+    action: CleaningAction,
+    ctx: ActionRunContext,
+  ): WorkingRow[] {
+    switch (action.type) {
+      case 'TRIM_WHITESPACE': {
+        for (const row of rows) {
+          row.cells.forEach((cell, col) => {
+            this.setCell(ctx, action, row, col, cell.trim());
           });
-          rowsChanged += changedHere;
-          break;
         }
+        return rows;
+      }
 
-        case 'ENSURE_EQUAL_COLUMNS': {
-          const expectedColumns =
-            workingRows.length > 0 ? workingRows[0].length : 0;
-          const newRows: string[][] = [];
-          for (const row of workingRows) {
-            if (row.length === expectedColumns) {
-              newRows.push(row);
-              continue;
-            }
-
+      case 'STRIP_WRAPPING_QUOTES': {
+        for (const row of rows) {
+          row.cells.forEach((cell, col) => {
+            const trimmed = cell.trim();
             if (
-              action.mode === 'pad-with-empty' &&
-              row.length < expectedColumns
+              trimmed.length >= 2 &&
+              trimmed.startsWith('"') &&
+              trimmed.endsWith('"')
             ) {
-              const padded = [...row];
-              while (padded.length < expectedColumns) {
-                padded.push('');
-              }
-              rowsChanged++;
-              newRows.push(padded);
-            } else if (action.mode === 'drop-row') {
-              rowsDropped++;
-              // nem tesszük be a newRows-ba
-            } else {
-              // biztonsági fallback: extra oszlopokat levágunk
-              const sliced = row.slice(0, expectedColumns);
-              rowsChanged++;
-              newRows.push(sliced);
+              // a parser már levette a CSV-szintű idézőjeleket, ez itt
+              // a cella ÉRTÉKÉBEN maradt (pl. "" escape-ből) külső pár
+              this.setCell(ctx, action, row, col, trimmed.slice(1, -1));
             }
-          }
-          workingRows = newRows;
-          break;
+          });
         }
+        return rows;
+      }
 
-        case 'REMOVE_EMPTY_ROWS': {
-          const newRows: string[][] = [];
+      case 'ENSURE_EQUAL_COLUMNS': {
+        const expectedColumns =
+          ctx.expectedColumns ?? (rows.length > 0 ? rows[0].cells.length : 0);
 
-          for (let rowIndex = 0; rowIndex < workingRows.length; rowIndex++) {
-            const row = workingRows[rowIndex];
+        return rows.filter((row) => {
+          const length = row.cells.length;
+          if (length === expectedColumns) {
+            return true;
+          }
 
-            // Header sort SOHA ne dobjuk
-            if (hasHeader && rowIndex === 0) {
-              newRows.push(row);
-              continue;
+          if (action.mode === 'drop-row') {
+            this.dropRow(
+              ctx,
+              action,
+              row,
+              `expected ${expectedColumns} columns, found ${length}`,
+            );
+            return false;
+          }
+
+          if (length < expectedColumns) {
+            for (let col = length; col < expectedColumns; col++) {
+              this.setCell(ctx, action, row, col, '');
             }
+          } else {
+            // biztonsági fallback: extra oszlopokat levágunk
+            for (let col = expectedColumns; col < length; col++) {
+              this.recordChange(ctx, action, row, col, row.cells[col], null);
+            }
+            row.cells.length = expectedColumns;
+          }
+          return true;
+        });
+      }
 
-            // Döntés: csak az ID utáni cellákat nézzük, ha van ID oszlop.
-            // Egyszerű szabály: ha az első oszlopban ID van, de MINDEN MÁS oszlop üres/whitespace,
-            // akkor a sor "üres adat sor"-nak minősül.
-            const startCol = row.length > 1 ? 1 : 0;
-            const cellsToCheck = row.slice(startCol);
+      case 'REMOVE_EMPTY_ROWS': {
+        const ignored = this.resolveActionColumns(
+          ctx,
+          action,
+          action.ignoreColumns,
+        );
+        if (ignored === undefined) {
+          return rows;
+        }
 
-            const allEmpty = cellsToCheck.every(
-              (cell) => cell.trim().length === 0,
-            );
+        return rows.filter((row) => {
+          // Header sort SOHA ne dobjuk
+          if (row.rowNumber === ctx.headerRowNumber) {
+            return true;
+          }
 
-            if (allEmpty) {
-              rowsDropped++;
-              continue; // nem tesszük be a newRows-ba
-            }
+          const allEmpty = row.cells.every(
+            (cell, col) => ignored.includes(col) || cell.trim().length === 0,
+          );
 
-            newRows.push(row);
+          if (allEmpty) {
+            this.dropRow(ctx, action, row, 'empty row');
+            return false;
           }
+          return true;
+        });
+      }
 
-          workingRows = newRows;
-          break;
+      case 'COERCE_NUMERIC':
+        return this.convertColumn(rows, action, ctx, (value) => {
+          const number = parseNumber(value, action);
+          return number.ok ? { ok: true, value: String(number.value) } : number;
+        });
+
+      case 'NORMALIZE_CURRENCY':
+        return this.convertColumn(rows, action, ctx, (value) =>
+          formatCurrency(value, action),
+        );
+
+      case 'NORMALIZE_DATE':
+        return this.convertColumn(rows, action, ctx, (value) => {
+          const date = parseDate(value, action.inputOrder);
+          return date.ok
+            ? { ok: true, value: formatDate(date.value, action.outputFormat) }
+            : date;
+        });
+
+      case 'STANDARDIZE_NULLS':
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          isNullValue(value, action.tokens) ? action.nullValue : value,
+        );
+
+      case 'IMPUTE':
+        return this.impute(rows, action, ctx);
+
+      case 'VALIDATE_FIELD': {
+        const validate = FIELD_VALIDATORS[action.validator];
+        return this.convertColumn(rows, action, ctx, (value) => {
+          const result = validate(value);
+          return result.ok && !action.normalize ? { ok: true, value } : result;
+        });
+      }
+
+      case 'DEDUPLICATE':
+        return this.deduplicate(rows, action, ctx);
+
+      case 'SPLIT_COLUMN': {
+        const col = this.resolveActionColumn(ctx, action);
+        if (col === undefined) {
+          return rows;
         }
+        return this.restructure(rows, ctx, (cells, isHeader) =>
+          replaceColumn(
+            cells,
+            col,
+            isHeader
+              ? action.into
+              : splitValue(
+                  cells[col] ?? '',
+                  action.separator,
+                  action.into.length,
+                ),
+            action.keepOriginal,
+          ),
+        );
+      }
 
-        case 'COERCE_NUMERIC': {
-          const startIndex = hasHeader ? 1 : 0;
-          const newRows = [...workingRows];
+      case 'MERGE_COLUMNS': {
+        const cols = this.resolveActionColumns(ctx, action, action.columns);
+        if (cols === undefined) {
+          return rows;
+        }
+        return this.restructure(rows, ctx, (cells, isHeader) => {
+          const merged = isHeader
+            ? action.into
+            : cols
+                .map((col) => (cells[col] ?? '').trim())
+                .filter((value) => value.length > 0)
+                .join(action.separator);
+          return mergeColumns(cells, cols, merged, action.keepOriginal);
+        });
+      }
 
-          for (let i = startIndex; i < newRows.length; i++) {
-            const row = newRows[i];
-            if (action.columnIndex < 0 || action.columnIndex >= row.length) {
-              continue;
-            }
-            const value = row[action.columnIndex];
-            const trimmed = value.trim();
-            if (trimmed.length === 0) {
-              continue;
-            }
-            const num = Number(trimmed);
-            if (Number.isNaN(num)) {
-              if (action.onError === 'drop-row') {
-                newRows.splice(i, 1);
-                rowsDropped++;
-                i--; // mert rövidebb lett a tömb
-                continue;
-              }
-              if (action.onError === 'set-null') {
-                row[action.columnIndex] = '';
-                rowsChanged++;
-              } else if (action.onError === 'set-zero') {
-                row[action.columnIndex] = '0';
-                rowsChanged++;
-              }
-            } else if (String(num) !== value) {
-              row[action.columnIndex] = String(num);
-              rowsChanged++;
-            }
+      case 'RENAME_COLUMN': {
+        const col = this.resolveActionColumn(ctx, action);
+        if (col === undefined) {
+          return rows;
+        }
+        return this.restructure(rows, ctx, (cells, isHeader) =>
+          isHeader ? replaceColumn(cells, col, [action.newName], false) : cells,
+        );
+      }
+
+      case 'REORDER_COLUMNS': {
+        const cols = this.resolveActionColumns(ctx, action, action.columns);
+        if (cols === undefined) {
+          return rows;
+        }
+        const unique = [...new Set(cols)];
+        return this.restructure(rows, ctx, (cells) =>
+          reorderColumns(cells, unique),
+        );
+      }
+
+      case 'DROP_COLUMNS': {
+        const cols = this.resolveActionColumns(ctx, action, action.columns);
+        if (cols === undefined) {
+          return rows;
+        }
+        return this.restructure(rows, ctx, (cells) => dropColumns(cells, cols));
+      }
+
+      case 'DERIVE_COLUMN': {
+        const refs = new Map<string, number>();
+        for (const ref of templateRefs(action.template)) {
+          const col = this.resolveActionColumn(
+            ctx,
+            /^\d+$/.test(ref)
+              ? { ...action, columnIndex: Number(ref) }
+              : { ...action, columnName: ref },
+          );
+          if (col === undefined) {
+            return rows;
           }
+          refs.set(ref, col);
+        }
+        return this.restructure(rows, ctx, (cells, isHeader) => [
+          ...cells,
+          isHeader
+            ? action.into
+            : fillTemplate(action.template, (ref) => {
+                const col = refs.get(ref);
+                return col === undefined ? '' : (cells[col] ?? '');
+              }).trim(),
+        ]);
+      }
 
-          workingRows = newRows;
-          break;
+      case 'REGEX_REPLACE': {
+        const pattern = new RegExp(action.pattern, action.flags);
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          value.replace(pattern, action.replacement),
+        );
+      }
+
+      case 'NORMALIZE_HEADERS': {
+        const headerRow = rows.find(
+          (row) => row.rowNumber === ctx.headerRowNumber,
+        );
+        if (!headerRow) {
+          // későbbi (header nélküli) batch: csak a név-feloldáshoz kell
+          ctx.header = normalizeHeaderNames(ctx.header);
+          return rows;
         }
 
+        normalizeHeaderNames(headerRow.cells).forEach((name, col) => {
+          this.setCell(ctx, action, headerRow, col, name);
+        });
+        ctx.header = [...headerRow.cells];
+        return rows;
+      }
+
+      case 'COLLAPSE_WHITESPACE':
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          value.replace(/\s+/g, ' ').trim(),
+        );
+
+      case 'UNICODE_NORMALIZE':
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          value.normalize(action.form),
+        );
+
+      case 'CHANGE_CASE':
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          changeCase(value, action.case),
+        );
+
+      case 'STRIP_CONTROL_CHARS':
+        return this.mapTextCells(rows, action, ctx, (value) =>
+          value.replace(CONTROL_CHARS, ''),
+        );
+
+      case 'FOLD_ACCENTS':
+        return this.mapTextCells(rows, action, ctx, foldAccents);
+
+      default:
+        return rows;
+    }
+  }
+
+  /**
+   * Egy oszlop értékeinek átalakítása (szám, pénzösszeg, dátum). Az üres
+   * cellákat és a headert kihagyja; ami nem alakítható át (vagy
+   * kétértelmű), arról az action onError szabálya dönt.
+   */
+  private convertColumn(
+    rows: WorkingRow[],
+    action: CleaningAction & ColumnRef & { onError: ConvertOnError },
+    ctx: ActionRunContext,
+    convert: (value: string) => ParseResult<string>,
+  ): WorkingRow[] {
+    const col = this.resolveActionColumn(ctx, action);
+    if (col === undefined) {
+      return rows;
+    }
+
+    return rows.filter((row) => {
+      if (row.rowNumber === ctx.headerRowNumber) {
+        return true;
+      }
+      if (col < 0 || col >= row.cells.length) {
+        return true;
+      }
+
+      const value = row.cells[col];
+      if (value.trim().length === 0) {
+        return true;
+      }
+
+      const result = convert(value);
+      if (result.ok) {
+        this.setCell(ctx, action, row, col, result.value);
+        return true;
+      }
+
+      switch (action.onError) {
+        case 'drop-row':
+          this.dropRow(
+            ctx,
+            action,
+            row,
+            `column ${col}: "${value}" ${result.error}`,
+          );
+          return false;
+        case 'set-zero':
+          this.setCell(ctx, action, row, col, '0');
+          return true;
+        case 'set-null':
+        case 'blank':
+          this.setCell(ctx, action, row, col, '');
+          return true;
+        case 'flag':
+          ctx.flaggedRows.push({
+            rowNumber: row.rowNumber,
+            column: col,
+            columnName: ctx.header[col],
+            value,
+            reason: `column ${col}: "${value}" ${result.error}`,
+            action: action.type,
+          });
+          return true;
         default:
-          break;
+          return true;
+      }
+    });
+  }
+
+  /**
+   * Az üres (csak whitespace) cellák kitöltése az IMPUTE stratégiája
+   * szerint. Ha nincs miből számolni (pl. egy szám sincs az oszlopban), a
+   * cellák üresek maradnak.
+   */
+  private impute(
+    rows: WorkingRow[],
+    action: ImputeAction,
+    ctx: ActionRunContext,
+  ): WorkingRow[] {
+    const col = this.resolveActionColumn(ctx, action);
+    if (col === undefined) {
+      return rows;
+    }
+
+    const data = rows.filter(
+      (row) => row.rowNumber !== ctx.headerRowNumber && col < row.cells.length,
+    );
+    const isMissing = (row: WorkingRow) => row.cells[col].trim().length === 0;
+
+    if (action.strategy === 'forward-fill') {
+      let previous: string | undefined;
+      for (const row of data) {
+        if (!isMissing(row)) {
+          previous = row.cells[col];
+        } else if (previous !== undefined) {
+          this.setCell(ctx, action, row, col, previous);
+        }
+      }
+      return rows;
+    }
+
+    const fill = imputeValue(
+      data.filter((row) => !isMissing(row)).map((row) => row.cells[col]),
+      action,
+    );
+    if (fill !== undefined) {
+      for (const row of data.filter(isMissing)) {
+        this.setCell(ctx, action, row, col, fill);
+      }
+    }
+    return rows;
+  }
+
+  /**
+   * Duplikált sorok eldobása: csoportonként egy sor marad (a keep stratégia
+   * szerint, a saját helyén), a többi a rejectedRows-ba kerül. A headert
+   * nem hasonlítjuk.
+   */
+  private deduplicate(
+    rows: WorkingRow[],
+    action: DeduplicateAction,
+    ctx: ActionRunContext,
+  ): WorkingRow[] {
+    const columns = this.resolveActionColumns(ctx, action, action.keyColumns);
+    if (columns === undefined) {
+      return rows;
+    }
+
+    const data = rows.filter((row) => row.rowNumber !== ctx.headerRowNumber);
+    const groups = findDuplicateGroups(
+      data.map((row) => buildDuplicateKey(row.cells, columns)),
+      action.match,
+      action.threshold,
+    );
+
+    const dropped = new Set<WorkingRow>();
+    for (const members of groups) {
+      const groupRows = members.map((index) => data[index]);
+      const kept = pickDuplicateToKeep(groupRows, action.keep);
+
+      for (const row of groupRows) {
+        if (row !== kept) {
+          dropped.add(row);
+          this.dropRow(ctx, action, row, `duplicate of row ${kept.rowNumber}`);
+        }
+      }
+
+      ctx.duplicateGroups.push({
+        rowNumbers: groupRows.map((row) => row.rowNumber),
+        keptRowNumber: kept.rowNumber,
+        keyValues:
+          columns.length > 0
+            ? columns.map((col) => kept.cells[col] ?? '')
+            : [...kept.cells],
+        action: action.type,
+      });
+    }
+
+    return rows.filter((row) => !dropped.has(row));
+  }
+
+  /**
+   * Szerkezeti átalakítás minden soron; a header soron isHeader: true.
+   * A ctx.header (akkor is, ha a header sor nincs a rows-ban) és a várt
+   * oszlopszám is követi a változást.
+   */
+  private restructure(
+    rows: WorkingRow[],
+    ctx: ActionRunContext,
+    transform: (cells: string[], isHeader: boolean) => string[],
+  ): WorkingRow[] {
+    let headerSeen = false;
+    for (const row of rows) {
+      const isHeader = row.rowNumber === ctx.headerRowNumber;
+      row.cells = transform(row.cells, isHeader);
+      if (isHeader) {
+        ctx.header = [...row.cells];
+        headerSeen = true;
+      }
+    }
+
+    if (!headerSeen && ctx.header.length > 0) {
+      ctx.header = transform(ctx.header, true);
+    }
+    if (ctx.expectedColumns !== undefined) {
+      ctx.expectedColumns = transform(
+        Array<string>(ctx.expectedColumns).fill(''),
+        false,
+      ).length;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Cellánkénti átalakítás a megadott oszlopon, vagy oszlop nélkül az
+   * összesen. A header sort kihagyja.
+   */
+  private mapTextCells(
+    rows: WorkingRow[],
+    action: CleaningAction & ColumnRef,
+    ctx: ActionRunContext,
+    transform: (value: string) => string,
+  ): WorkingRow[] {
+    const allColumns =
+      action.columnIndex === undefined && action.columnName === undefined;
+    const col = allColumns ? undefined : this.resolveActionColumn(ctx, action);
+    if (!allColumns && col === undefined) {
+      return rows;
+    }
+
+    for (const row of rows) {
+      if (row.rowNumber === ctx.headerRowNumber) {
+        continue;
+      }
+      row.cells.forEach((cell, index) => {
+        if (allColumns || index === col) {
+          this.setCell(ctx, action, row, index, transform(cell));
+        }
+      });
+    }
+
+    return rows;
+  }
+
+  /**
+   * Egy action oszlopának feloldása; a sikertelen név szerinti feloldást
+   * feljegyezzük (unresolvedColumns).
+   */
+  private resolveActionColumn(
+    ctx: ActionRunContext,
+    action: CleaningAction & ColumnRef,
+  ): number | undefined {
+    const col = this.resolveColumnIndex(ctx.header, action);
+    if (col === undefined && action.columnName !== undefined) {
+      const message = `${action.type}: unknown column "${action.columnName}"`;
+      if (!ctx.unresolvedColumns.includes(message)) {
+        ctx.unresolvedColumns.push(message);
+      }
+    }
+    return col;
+  }
+
+  /**
+   * Oszlop-lista feloldása (üres / hiányzó lista: üres tömb). Ha bármelyik
+   * név ismeretlen, undefined: az action kimarad.
+   */
+  private resolveActionColumns(
+    ctx: ActionRunContext,
+    action: CleaningAction,
+    list: ColumnList = [],
+  ): number[] | undefined {
+    const columns: number[] = [];
+    for (const entry of list) {
+      const col = this.resolveActionColumn(
+        ctx,
+        typeof entry === 'number'
+          ? { ...action, columnIndex: entry }
+          : { ...action, columnName: entry },
+      );
+      if (col === undefined) {
+        return undefined;
+      }
+      columns.push(col);
+    }
+    return columns;
+  }
+
+  /**
+   * Oszlop-hivatkozás feloldása a (pillanatnyi) header alapján.
+   * Ismeretlen név, vagy név header nélkül: undefined (az action kimarad).
+   */
+  resolveColumnIndex(header: string[], ref: ColumnRef): number | undefined {
+    if (ref.columnName !== undefined) {
+      return findHeaderIndex(header, ref.columnName);
+    }
+    return ref.columnIndex;
+  }
+
+  /**
+   * Nyers locale / elválasztó paraméterek → NumberFormatOptions
+   * (érvénytelen értékeket kihagyva).
+   */
+  private mapNumberFormat(obj: {
+    locale?: unknown;
+    decimalSeparator?: unknown;
+    thousandsSeparator?: unknown;
+  }): NumberFormatOptions {
+    const format: NumberFormatOptions = {};
+    if (typeof obj.locale === 'string' && isSupportedLocale(obj.locale)) {
+      format.locale = obj.locale;
+    }
+    const decimal = DECIMAL_SEPARATORS.find((d) => d === obj.decimalSeparator);
+    if (decimal) {
+      format.decimalSeparator = decimal;
+    }
+    const thousands = THOUSANDS_SEPARATORS.find(
+      (t) => t === obj.thousandsSeparator,
+    );
+    if (thousands !== undefined) {
+      format.thousandsSeparator = thousands;
+    }
+    return format;
+  }
+
+  private mapNormalizeOnError(value: unknown): NormalizeOnError {
+    return value === 'drop-row' || value === 'set-null' ? value : 'keep';
+  }
+
+  /**
+   * Nyers columnIndex / columnName → ColumnRef (érvénytelen értékeket kihagyva).
+   */
+  private mapColumnRef(obj: {
+    columnIndex?: unknown;
+    columnName?: unknown;
+  }): ColumnRef | undefined {
+    const ref: ColumnRef = {};
+    if (typeof obj.columnIndex === 'number') {
+      ref.columnIndex = obj.columnIndex;
+    }
+    if (typeof obj.columnName === 'string' && obj.columnName.length > 0) {
+      ref.columnName = obj.columnName;
+    }
+    return ref.columnIndex === undefined && ref.columnName === undefined
+      ? undefined
+      : ref;
+  }
+
+  /** Nem üres elválasztó, alapból szóköz. */
+  private mapSeparator(value: unknown): string {
+    return typeof value === 'string' && value.length > 0 ? value : ' ';
+  }
+
+  /**
+   * Nyers oszlop-lista → ColumnList (érvénytelen elemeket kihagyva; üres
+   * lista: undefined).
+   */
+  private mapColumnList(value: unknown): ColumnList | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    const list = value.filter(
+      (entry): entry is number | string =>
+        (typeof entry === 'number' && Number.isInteger(entry) && entry >= 0) ||
+        (typeof entry === 'string' && entry.length > 0),
+    );
+    return list.length > 0 ? list : undefined;
+  }
+
+  /**
+   * Cella írása naplózással (csak ha tényleg változik).
+   */
+  private setCell(
+    ctx: ActionRunContext,
+    action: CleaningAction,
+    row: WorkingRow,
+    col: number,
+    value: string,
+  ): void {
+    const oldValue = col < row.cells.length ? row.cells[col] : null;
+    if (oldValue === value) {
+      return;
+    }
+    row.cells[col] = value;
+    this.recordChange(ctx, action, row, col, oldValue, value);
+  }
+
+  private recordChange(
+    ctx: ActionRunContext,
+    action: CleaningAction,
+    row: WorkingRow,
+    col: number,
+    oldValue: string | null,
+    newValue: string | null,
+  ): void {
+    ctx.cellsChanged++;
+    ctx.changedRows.add(row.rowNumber);
+    ctx.actionChangedRows.add(row.rowNumber);
+
+    if (ctx.audit) {
+      ctx.changes.push({
+        rowNumber: row.rowNumber,
+        column: col,
+        columnName: ctx.header[col],
+        oldValue,
+        newValue,
+        action: action.type,
+      });
+    }
+  }
+
+  private dropRow(
+    ctx: ActionRunContext,
+    action: CleaningAction,
+    row: WorkingRow,
+    reason: string,
+  ): void {
+    ctx.rowsDropped++;
+
+    if (ctx.audit) {
+      ctx.rejectedRows.push({
+        rowNumber: row.rowNumber,
+        row: row.cells,
+        reason,
+        action: action.type,
+      });
+    }
+  }
+
+  /**
+   * Az eldobott sorokból letölthető CSV-t készít:
+   * row_number, reason, action + az eredeti cellák (header esetén a header
+   * oszlopnevei alatt).
+   */
+  buildRejectedRows(rejected: RejectedRow[], header?: string[]): string[][] {
+    const rows: string[][] = [
+      ['row_number', 'reason', 'action', ...(header ?? [])],
+    ];
+
+    for (const r of rejected) {
+      rows.push([String(r.rowNumber), r.reason, r.action, ...r.row]);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Egy cella CSV-kompatibilis alakja: idézőjelbe tesszük, ha delimiter,
+   * idézőjel vagy sortörés van benne (a belső idézőjeleket duplázzuk).
+   * Egyetlen üres cellából álló sort is idézőjelezünk, különben üres sornak
+   * látszana, és a parser eldobná.
+   */
+  private quoteCellIfNeeded(
+    cell: string,
+    delimiter: string,
+    quoteChar: string,
+    rowLength: number,
+  ): string {
+    const needsQuotes =
+      cell.includes(delimiter) ||
+      cell.includes(quoteChar) ||
+      cell.includes('\n') ||
+      cell.includes('\r') ||
+      (rowLength === 1 && cell.length === 0);
+
+    if (!needsQuotes) {
+      return cell;
+    }
+
+    const escaped = cell.split(quoteChar).join(quoteChar + quoteChar);
+    return `${quoteChar}${escaped}${quoteChar}`;
+  }
+}
+
+/**
+ * Kis- / nagybetűsítés magyar nyelvi szabályokkal. A "title" minden szó
+ * (szóköz vagy kötőjel után) első betűjét nagyítja: "kovács-nagy éva" →
+ * "Kovács-Nagy Éva".
+ */
+function changeCase(value: string, textCase: TextCase): string {
+  if (textCase === 'upper') {
+    return value.toLocaleUpperCase(TEXT_LOCALE);
+  }
+
+  const lower = value.toLocaleLowerCase(TEXT_LOCALE);
+  if (textCase === 'lower') {
+    return lower;
+  }
+
+  return lower.replace(
+    /(^|[\s\-(])(\p{L})/gu,
+    (_, separator: string, letter: string) =>
+      separator + letter.toLocaleUpperCase(TEXT_LOCALE),
+  );
+}
+
+/** Lefordítható-e a reguláris kifejezés (a megadott flag-ekkel). */
+export function isValidRegex(pattern: string, flags = ''): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Az IMPUTE kitöltő értéke a kitöltött cellákból (a forward-fill kivételével).
+ */
+function imputeValue(
+  values: string[],
+  action: ImputeAction,
+): string | undefined {
+  if (action.strategy === 'constant') {
+    return action.value;
+  }
+
+  if (action.strategy === 'mode') {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    let best: string | undefined;
+    for (const [value, count] of counts) {
+      if (best === undefined || count > (counts.get(best) ?? 0)) {
+        best = value;
       }
     }
+    return best;
+  }
+
+  const numbers: number[] = [];
+  for (const value of values) {
+    const parsed = parseNumber(value, action);
+    if (parsed.ok) {
+      numbers.push(parsed.value);
+    }
+  }
+  if (numbers.length === 0) {
+    return undefined;
+  }
+
+  let result: number;
+  if (action.strategy === 'mean') {
+    result = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+  } else {
+    numbers.sort((a, b) => a - b);
+    const middle = Math.floor(numbers.length / 2);
+    result =
+      numbers.length % 2 === 1
+        ? numbers[middle]
+        : (numbers[middle - 1] + numbers[middle]) / 2;
+  }
+
+  // lebegőpontos zaj nélkül (0.1 + 0.2 → 0.3)
+  return action.decimals !== undefined
+    ? result.toFixed(action.decimals)
+    : String(Number(result.toFixed(10)));
+}
+
+/**
+ * A duplikátum-csoportból megtartandó sor (a csoport a bemenet sorrendjében
+ * van). most-complete egyezésnél az első nyer.
+ */
+function pickDuplicateToKeep(
+  group: WorkingRow[],
+  keep: DuplicateKeep,
+): WorkingRow {
+  if (keep === 'last') {
+    return group[group.length - 1];
+  }
+  if (keep === 'first') {
+    return group[0];
+  }
+
+  const filled = (row: WorkingRow) =>
+    row.cells.filter((cell) => cell.trim().length > 0).length;
+  return group.reduce((best, row) => (filled(row) > filled(best) ? row : best));
+}
+
+/**
+ * Pénzösszeg egységes alakja a NORMALIZE_CURRENCY beállításai szerint.
+ */
+function formatCurrency(
+  value: string,
+  action: NormalizeCurrencyAction,
+): ParseResult<string> {
+  const parsed = parseCurrency(value, action);
+  if (!parsed.ok) {
+    return parsed;
+  }
 
-    return { rows: workingRows, rowsChanged, rowsDropped };
+  const { amount, currency: found } = parsed.value;
+  if (found && action.currency && found !== action.currency) {
+    return { ok: false, error: `is in ${found}, expected ${action.currency}` };
   }
+
+  const currency = found ?? action.currency;
+  const text =
+    action.decimals !== undefined
+      ? amount.toFixed(action.decimals)
+      : String(amount);
+
+  if (action.output === 'amount-code') {
+    return currency
+      ? { ok: true, value: `${text} ${currency}` }
+      : { ok: false, error: 'has no currency' };
+  }
+
+  return { ok: true, value: text };
 }
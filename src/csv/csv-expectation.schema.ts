@@ -0,0 +1,124 @@
+import { isValidRegex } from './csv-engine.service';
+import { UNSAFE_REGEX_MESSAGE, isSafeRegex } from './csv-regex';
+import { EXPECTATION_TYPES } from './csv-expectation.service';
+import { isColumnRef } from './csv-query.schema';
+import { isSupportedLocale } from './csv-values';
+
+/**
+ * Egy nyers szabálylista (expectations) szigorú ellenőrzése.
+ * Visszaadja az összes hibát ("expectations[1].min must be ..."); üres
+ * tömb esetén a lista érvényes.
+ */
+export function validateExpectations(rawExpectations: unknown[]): string[] {
+  const errors: string[] = [];
+
+  rawExpectations.forEach((raw, index) => {
+    const path = `expectations[${index}]`;
+
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      errors.push(`${path} must be an object`);
+      return;
+    }
+
+    const rule = raw as Record<string, unknown>;
+    const type = EXPECTATION_TYPES.find((t) => t === rule.type);
+    if (!type) {
+      errors.push(
+        `${path}.type must be one of ${EXPECTATION_TYPES.join(', ')}`,
+      );
+      return;
+    }
+
+    if (type !== 'row-count' && !isColumnRef(rule.column)) {
+      errors.push(`${path}.column must be a column index or name`);
+    }
+
+    switch (type) {
+      case 'in-range':
+        validateBounds(rule, path, false, errors);
+        if (
+          rule.locale !== undefined &&
+          (typeof rule.locale !== 'string' || !isSupportedLocale(rule.locale))
+        ) {
+          errors.push(
+            `${path}.locale must be a supported locale (e.g. "hu-HU")`,
+          );
+        }
+        break;
+
+      case 'row-count':
+        validateBounds(rule, path, true, errors);
+        break;
+
+      case 'matches': {
+        const flags = typeof rule.flags === 'string' ? rule.flags : '';
+        if (typeof rule.pattern !== 'string' || rule.pattern.length === 0) {
+          errors.push(`${path}.pattern must be a non-empty string`);
+        } else if (rule.flags !== undefined && !/^[imsu]*$/.test(flags)) {
+          errors.push(`${path}.flags must be a combination of i, m, s, u`);
+        } else if (!isValidRegex(rule.pattern, flags)) {
+          errors.push(`${path}.pattern must be a valid regular expression`);
+        } else if (!isSafeRegex(rule.pattern, flags)) {
+          errors.push(`${path}.pattern ${UNSAFE_REGEX_MESSAGE}`);
+        }
+        break;
+      }
+
+      case 'in-set':
+        if (
+          !Array.isArray(rule.values) ||
+          rule.values.length === 0 ||
+          !rule.values.every(
+            (value) => typeof value === 'string' || typeof value === 'number',
+          )
+        ) {
+          errors.push(
+            `${path}.values must be a non-empty array of strings or numbers`,
+          );
+        }
+        if (
+          rule.ignoreCase !== undefined &&
+          typeof rule.ignoreCase !== 'boolean'
+        ) {
+          errors.push(`${path}.ignoreCase must be a boolean`);
+        }
+        break;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * min / max: legalább az egyik, számok (sorszámnál nemnegatív egészek),
+ * min <= max.
+ */
+function validateBounds(
+  rule: Record<string, unknown>,
+  path: string,
+  integer: boolean,
+  errors: string[],
+): void {
+  const valid = (value: unknown) =>
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    (!integer || (Number.isInteger(value) && value >= 0));
+  const expected = integer ? 'a non-negative integer' : 'a number';
+
+  if (rule.min === undefined && rule.max === undefined) {
+    errors.push(`${path} needs min and / or max`);
+    return;
+  }
+  for (const key of ['min', 'max'] as const) {
+    if (rule[key] !== undefined && !valid(rule[key])) {
+      errors.push(`${path}.${key} must be ${expected}`);
+    }
+  }
+  if (
+    valid(rule.min) &&
+    valid(rule.max) &&
+    (rule.min as number) > (rule.max as number)
+  ) {
+    errors.push(`${path}.min must not be greater than max`);
+  }
+}
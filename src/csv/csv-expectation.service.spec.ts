@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvExpectationService } from './csv-expectation.service';
+
+describe('CsvExpectationService', () => {
+  let service: CsvExpectationService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvExpectationService],
+    }).compile();
+
+    service = module.get<CsvExpectationService>(CsvExpectationService);
+  });
+
+  const rows = [
+    ['ID', 'Email', 'Kor', 'Statusz'],
+    ['1', 'anna@x.hu', '34', 'aktív'],
+    ['2', 'bela@x', '17', 'Aktív'],
+    ['2', '', '1 200', 'törölt'],
+    ['4', 'dora@x.hu', 'n/a', ''],
+  ];
+
+  it('reports violating row numbers per rule', () => {
+    const report = service.validate(rows, true, [
+      { type: 'column-exists', column: 'email' },
+      { type: 'not-null', column: 'Email' },
+      { type: 'unique', column: 0 },
+      { type: 'in-range', column: 'Kor', min: 18, max: 120 },
+      { type: 'matches', column: 'Email', pattern: '^[^@]+@[^@]+\\.hu$' },
+      {
+        type: 'in-set',
+        column: 'Statusz',
+        values: ['aktív', 'inaktív'],
+        ignoreCase: true,
+      },
+    ]);
+
+    expect(report.rows).toBe(4);
+    expect(report.passed).toBe(false);
+    expect(
+      report.results.map((r) => [r.type, r.column, r.passed, r.rowNumbers]),
+    ).toEqual([
+      ['column-exists', 'Email', true, []],
+      ['not-null', 'Email', false, [4]],
+      ['unique', 'ID', false, [3, 4]],
+      ['in-range', 'Kor', false, [3, 4]],
+      ['matches', 'Email', false, [3]],
+      ['in-set', 'Statusz', false, [4]],
+    ]);
+    expect(report.results[3].message).toBe('2 rows not a number within range');
+    // (1 + 0.75 + 0.5 + 0.5 + 0.75 + 0.75) / 6; az "n/a" null-szerű
+    expect(report.score).toBe(70.8);
+  });
+
+  it('checks the row count and fails rules on missing columns', () => {
+    const report = service.validate(rows, true, [
+      { type: 'row-count', min: 1, max: 3 },
+      { type: 'not-null', column: 'Telefon' },
+    ]);
+
+    expect(report.results).toEqual([
+      {
+        type: 'row-count',
+        passed: false,
+        violations: 0,
+        rowNumbers: [],
+        score: 0,
+        message: 'row count 4 is above 3',
+      },
+      {
+        type: 'not-null',
+        column: 'Telefon',
+        passed: false,
+        violations: 0,
+        rowNumbers: [],
+        score: 0,
+        message: 'column "Telefon" does not exist',
+      },
+    ]);
+    expect(report.score).toBe(0);
+  });
+
+  it('maps violations to the given original row numbers', () => {
+    const report = service.validate(
+      [['ID'], ['1'], ['']],
+      true,
+      [{ type: 'not-null', column: 'ID' }],
+      [1, 3, 7],
+    );
+
+    expect(report.results[0].rowNumbers).toEqual([7]);
+  });
+
+  it('scores an empty rule set as a full pass', () => {
+    expect(service.validate(rows, true, [])).toEqual({
+      passed: true,
+      score: 100,
+      rows: 4,
+      results: [],
+    });
+  });
+});
@@ -0,0 +1,289 @@
+import { Injectable } from '@nestjs/common';
+import { createColumnResolver } from './csv-query.service';
+import type { QueryColumn, QueryValue } from './csv-query.service';
+import { isNullValue, parseNumber } from './csv-values';
+
+/**
+ * Deklaratív adatminőségi szabályok (expectations) a /csv/validate-hez és
+ * a "tisztítás, majd ellenőrzés" futásokhoz (clean / apply / recept).
+ *
+ * Oszlop-hivatkozás: header név vagy 0-tól számolt index, mint a
+ * /csv/query-nél.
+ */
+
+export const EXPECTATION_TYPES = [
+  'column-exists',
+  'not-null',
+  'unique',
+  'in-range',
+  'matches',
+  'in-set',
+  'row-count',
+] as const;
+export type ExpectationType = (typeof EXPECTATION_TYPES)[number];
+
+/** Ennyi szabálysértő sorszámot adunk vissza szabályonként. */
+export const MAX_REPORTED_ROWS = 100;
+
+/**
+ * Egy szabály; a mezők a típustól függenek (a validateExpectations
+ * ellenőrzi):
+ * - column-exists, not-null, unique: column
+ * - in-range: column, min / max (számként, locale szerint parse-olva)
+ * - matches: column, pattern, flags
+ * - in-set: column, values, ignoreCase
+ * - row-count: min / max (adatsorok, header nélkül)
+ *
+ * Az in-range / matches / in-set az üres és null-szerű értékeket kihagyja
+ * (azokat a not-null ellenőrzi); a unique szintén.
+ */
+export interface Expectation {
+  type: ExpectationType;
+  column?: QueryColumn;
+  min?: number;
+  max?: number;
+  locale?: string;
+  pattern?: string;
+  flags?: string;
+  values?: QueryValue[];
+  ignoreCase?: boolean;
+}
+
+/**
+ * Egy szabály eredménye.
+ * - column: a feloldott oszlopnév (ismeretlen oszlopnál a hivatkozás)
+ * - violations: a szabálysértő sorok száma; rowNumbers: közülük az első
+ *   MAX_REPORTED_ROWS sorszáma (1-től, a header is számít)
+ * - score: 0 és 1 között (3 tizedesre), a szabálynak megfelelő sorok aránya
+ *   (oszlop- és sorszám-szabálynál 0 vagy 1)
+ * - message: a hiba rövid leírása (sikeres szabálynál nincs)
+ */
+export interface ExpectationResult {
+  type: ExpectationType;
+  column?: string;
+  passed: boolean;
+  violations: number;
+  rowNumbers: number[];
+  score: number;
+  message?: string;
+}
+
+/**
+ * - passed: minden szabály teljesült
+ * - score: minőségi pontszám 0-100 között, a szabályok score-jainak
+ *   átlaga (szabályok nélkül 100)
+ * - rows: az ellenőrzött adatsorok száma (header nélkül)
+ */
+export interface CsvValidationReport {
+  passed: boolean;
+  score: number;
+  rows: number;
+  results: ExpectationResult[];
+}
+
+/**
+ * CsvExpectationService:
+ * parse-olt (akár már tisztított) sorok ellenőrzése a szabályok ellen,
+ * AI nélkül, a sorok módosítása nélkül.
+ */
+@Injectable()
+export class CsvExpectationService {
+  /**
+   * rowNumbers: a sorok eredeti sorszámai (mint az ApplyActionsResult-ban),
+   * hogy tisztítás után is a bemenet soraira mutassunk; alapból 1..n.
+   */
+  validate(
+    rows: string[][],
+    hasHeader: boolean,
+    expectations: Expectation[],
+    rowNumbers: number[] = rows.map((_, i) => i + 1),
+  ): CsvValidationReport {
+    const { names, data, resolve } = createColumnResolver(rows, hasHeader);
+    const dataRowNumbers = hasHeader ? rowNumbers.slice(1) : rowNumbers;
+
+    const results = expectations.map((expectation): ExpectationResult => {
+      if (expectation.type === 'row-count') {
+        return checkRowCount(expectation, data.length);
+      }
+
+      const ref = expectation.column ?? '';
+      const col = resolve(ref);
+      if (col < 0) {
+        return {
+          type: expectation.type,
+          column: String(ref),
+          passed: false,
+          violations: 0,
+          rowNumbers: [],
+          score: 0,
+          message: `column ${typeof ref === 'number' ? ref : `"${ref}"`} does not exist`,
+        };
+      }
+
+      const column = names[col];
+      if (expectation.type === 'column-exists') {
+        return {
+          type: expectation.type,
+          column,
+          passed: true,
+          violations: 0,
+          rowNumbers: [],
+          score: 1,
+        };
+      }
+
+      const values = data.map((row) => row[col] ?? '');
+      const violating = findViolations(expectation, values);
+      const violations = violating.length;
+
+      const result: ExpectationResult = {
+        type: expectation.type,
+        column,
+        passed: violations === 0,
+        violations,
+        rowNumbers: violating
+          .slice(0, MAX_REPORTED_ROWS)
+          .map((index) => dataRowNumbers[index]),
+        score: data.length > 0 ? 1 - violations / data.length : 1,
+      };
+      if (violations > 0) {
+        result.message = `${violations} row${violations === 1 ? '' : 's'} ${describeViolation(expectation)}`;
+      }
+      return result;
+    });
+
+    const score =
+      results.length > 0
+        ? results.reduce((sum, r) => sum + r.score, 0) / results.length
+        : 1;
+
+    return {
+      passed: results.every((r) => r.passed),
+      score: Number((score * 100).toFixed(1)),
+      rows: data.length,
+      results: results.map((r) => ({
+        ...r,
+        score: Number(r.score.toFixed(3)),
+      })),
+    };
+  }
+}
+
+function checkRowCount(
+  expectation: Expectation,
+  count: number,
+): ExpectationResult {
+  const { min, max } = expectation;
+  const result: ExpectationResult = {
+    type: 'row-count',
+    passed: true,
+    violations: 0,
+    rowNumbers: [],
+    score: 1,
+  };
+
+  if (min !== undefined && count < min) {
+    result.message = `row count ${count} is below ${min}`;
+  } else if (max !== undefined && count > max) {
+    result.message = `row count ${count} is above ${max}`;
+  }
+  if (result.message) {
+    result.passed = false;
+    result.score = 0;
+  }
+  return result;
+}
+
+/** A szabálysértő értékek indexei (az adatsorok között). */
+function findViolations(expectation: Expectation, values: string[]): number[] {
+  const violating: number[] = [];
+
+  switch (expectation.type) {
+    case 'not-null':
+      values.forEach((value, index) => {
+        if (isNullValue(value)) {
+          violating.push(index);
+        }
+      });
+      return violating;
+
+    case 'unique': {
+      // minden előfordulás szabálysértő, az első is
+      const seen = new Map<string, number[]>();
+      values.forEach((value, index) => {
+        if (isNullValue(value)) {
+          return;
+        }
+        const key = value.trim();
+        const indexes = seen.get(key);
+        if (indexes) {
+          indexes.push(index);
+        } else {
+          seen.set(key, [index]);
+        }
+      });
+      for (const indexes of seen.values()) {
+        if (indexes.length > 1) {
+          violating.push(...indexes);
+        }
+      }
+      return violating.sort((a, b) => a - b);
+    }
+
+    default: {
+      const accepts = buildCheck(expectation);
+      values.forEach((value, index) => {
+        if (!isNullValue(value) && !accepts(value.trim())) {
+          violating.push(index);
+        }
+      });
+      return violating;
+    }
+  }
+}
+
+/** in-range / matches / in-set: egy (nem üres) érték megfelel-e. */
+function buildCheck(expectation: Expectation): (value: string) => boolean {
+  if (expectation.type === 'in-range') {
+    const { min, max, locale } = expectation;
+    return (value) => {
+      const number = parseNumber(value, locale ? { locale } : {});
+      return (
+        number.ok &&
+        (min === undefined || number.value >= min) &&
+        (max === undefined || number.value <= max)
+      );
+    };
+  }
+
+  if (expectation.type === 'matches') {
+    // a séma nem enged g / y flag-et (a test() állapotot tartana)
+    const pattern = new RegExp(
+      expectation.pattern ?? '',
+      expectation.flags ?? '',
+    );
+    return (value) => pattern.test(value);
+  }
+
+  const fold = (value: string) =>
+    expectation.ignoreCase ? value.toLocaleLowerCase('hu-HU') : value;
+  const allowed = new Set(
+    (expectation.values ?? []).map((value) => fold(String(value).trim())),
+  );
+  return (value) => allowed.has(fold(value));
+}
+
+function describeViolation(expectation: Expectation): string {
+  switch (expectation.type) {
+    case 'not-null':
+      return 'empty';
+    case 'unique':
+      return 'with duplicate values';
+    case 'in-range':
+      return 'not a number within range';
+    case 'matches':
+      return 'not matching the pattern';
+    default:
+      return 'not in the allowed set';
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Header (oszlopnév) segédfüggvények.
+ *
+ * A magyar forrásfájlokban ugyanaz az oszlop gyakran többféleképpen szerepel
+ * ("Életkor", "eletkor ", "ÉLETKOR"), ezért a név szerinti hivatkozásokat
+ * normalizált alakban hasonlítjuk össze.
+ */
+
+/** Ékezetek eltávolítása: "Árvíztűrő" → "Arvizturo". */
+export function foldAccents(value: string): string {
+  return value.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * snake_case alak: trim, ékezetmentesítés, camelCase szétbontása,
+ * kisbetű, minden nem alfanumerikus szakasz → "_".
+ * "Születési Dátum" → "szuletesi_datum", "firstName" → "first_name".
+ */
+export function toSnakeCase(value: string): string {
+  return foldAccents(value.trim())
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Header sor normalizálása: snake_case + ismétlődő nevek egyedivé tétele
+ * ("nev", "nev" → "nev", "nev_2"). Üres név helyett column_<n> (1-től).
+ */
+export function normalizeHeaderNames(header: string[]): string[] {
+  const used = new Set<string>();
+
+  return header.map((name, index) => {
+    const base = toSnakeCase(name) || `column_${index + 1}`;
+    let unique = base;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${base}_${n}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Oszlop keresése név szerint: előbb pontos egyezés, utána a normalizált
+ * (snake_case) alakok egyezése. Nincs találat: undefined.
+ */
+export function findHeaderIndex(
+  header: string[],
+  name: string,
+): number | undefined {
+  const exact = header.indexOf(name);
+  if (exact >= 0) {
+    return exact;
+  }
+
+  const wanted = toSnakeCase(name);
+  const index = header.findIndex((h) => toSnakeCase(h) === wanted);
+  return index >= 0 ? index : undefined;
+}
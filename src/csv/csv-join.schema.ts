@@ -0,0 +1,37 @@
+import { isColumnRef } from './csv-query.schema';
+
+/**
+ * A /csv/join kérés szigorú ellenőrzése (a DTO csak az alakot nézi).
+ * Visszaadja az összes hibát; üres tömb esetén a kérés érvényes.
+ */
+
+export interface RawCsvJoin {
+  left: { keys: unknown[] };
+  right: { keys: unknown[] };
+  suffixes?: string[];
+}
+
+export function validateCsvJoin(join: RawCsvJoin): string[] {
+  const errors: string[] = [];
+
+  for (const side of ['left', 'right'] as const) {
+    join[side].keys.forEach((key, index) => {
+      if (!isColumnRef(key)) {
+        errors.push(`${side}.keys[${index}] must be a column index or name`);
+      }
+    });
+  }
+
+  if (join.left.keys.length !== join.right.keys.length) {
+    errors.push('left.keys and right.keys must have the same length');
+  }
+
+  if (join.suffixes) {
+    const [left, right] = join.suffixes;
+    if (left === right) {
+      errors.push('suffixes must be two different strings');
+    }
+  }
+
+  return errors;
+}
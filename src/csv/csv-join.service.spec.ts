@@ -0,0 +1,113 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvJoinService, DEFAULT_JOIN_SUFFIXES } from './csv-join.service';
+import type { CsvJoinOptions, JoinType } from './csv-join.service';
+
+describe('CsvJoinService', () => {
+  let service: CsvJoinService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvJoinService],
+    }).compile();
+
+    service = module.get<CsvJoinService>(CsvJoinService);
+  });
+
+  const customers = {
+    rows: [
+      ['ID', 'Nev', 'Datum'],
+      ['1', 'Anna', '2024-01-01'],
+      ['2', 'Béla', '2024-02-01'],
+      ['', 'Névtelen', '2024-03-01'],
+    ],
+    hasHeader: true,
+    keys: ['ID'],
+  };
+  const orders = {
+    rows: [
+      ['Rendeles', 'UgyfelID', 'Datum'],
+      ['R1', '1', '2024-05-01'],
+      ['R2', '1', '2024-05-02'],
+      ['R3', '9', '2024-05-03'],
+    ],
+    hasHeader: true,
+    keys: ['UgyfelID'],
+  };
+  const options = (type: JoinType): CsvJoinOptions => ({
+    type,
+    suffixes: DEFAULT_JOIN_SUFFIXES,
+    ignoreCase: false,
+  });
+
+  it('inner join keeps only matching pairs and suffixes collisions', () => {
+    const result = service.join(customers, orders, options('inner'));
+
+    expect(result.columns).toEqual([
+      'ID',
+      'Nev',
+      'Datum_left',
+      'Rendeles',
+      'Datum_right',
+    ]);
+    expect(result.rows).toEqual([
+      ['1', 'Anna', '2024-01-01', 'R1', '2024-05-01'],
+      ['1', 'Anna', '2024-01-01', 'R2', '2024-05-02'],
+    ]);
+    expect(result.matchedPairs).toBe(2);
+    // az üres kulcs semmivel nem párosul
+    expect(result.unmatchedLeft).toEqual([
+      { rowNumber: 3, key: ['2'] },
+      { rowNumber: 4, key: [''] },
+    ]);
+    expect(result.unmatchedRight).toEqual([{ rowNumber: 4, key: ['9'] }]);
+  });
+
+  it('left, right and full joins keep unmatched rows with empty cells', () => {
+    const ids = (type: JoinType) =>
+      service
+        .join(customers, orders, options(type))
+        .rows.map((row) => `${row[0]}:${row[3]}`);
+
+    expect(ids('left')).toEqual(['1:R1', '1:R2', '2:', ':']);
+    // a csak jobb oldali sorban a kulcs a jobb oldalról jön
+    expect(ids('right')).toEqual(['1:R1', '1:R2', '9:R3']);
+    expect(ids('full')).toEqual(['1:R1', '1:R2', '2:', ':', '9:R3']);
+  });
+
+  it('matches composite keys, optionally ignoring case', () => {
+    const left = {
+      rows: [['Kovács', 'Éva', 'Pécs']],
+      hasHeader: false,
+      keys: [0, 1],
+    };
+    const right = {
+      rows: [
+        ['Nev1', 'Nev2', 'Tel'],
+        ['KOVÁCS', 'éva', '+3630'],
+      ],
+      hasHeader: true,
+      keys: ['Nev1', 'Nev2'],
+    };
+
+    expect(service.join(left, right, options('inner')).rows).toEqual([]);
+    expect(
+      service.join(left, right, { ...options('inner'), ignoreCase: true }),
+    ).toMatchObject({
+      columns: ['column_1', 'column_2', 'column_3', 'Tel'],
+      rows: [['Kovács', 'Éva', 'Pécs', '+3630']],
+    });
+  });
+
+  it('reports unknown key columns per side', () => {
+    const result = service.join(
+      { ...customers, keys: ['Azonosito'] },
+      { ...orders, keys: [7] },
+      options('inner'),
+    );
+
+    expect(result.errors).toEqual([
+      'left: unknown column "Azonosito"',
+      'right: unknown column 7',
+    ]);
+  });
+});
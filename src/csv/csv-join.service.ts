@@ -0,0 +1,208 @@
+import { Injectable } from '@nestjs/common';
+import { createColumnResolver } from './csv-query.service';
+import type { QueryColumn } from './csv-query.service';
+import { isNullValue } from './csv-values';
+
+/**
+ * A /csv/join két CSV összekapcsolásának típusai.
+ *
+ * Oszlop-hivatkozás: mint a /csv/query-nél (header név vagy 0-tól számolt
+ * index), oldalanként a saját header szerint.
+ */
+
+export const JOIN_TYPES = ['inner', 'left', 'right', 'full'] as const;
+export type JoinType = (typeof JOIN_TYPES)[number];
+
+/** Ütköző oszlopnevek alap utótagjai (bal, jobb). */
+export const DEFAULT_JOIN_SUFFIXES: [string, string] = ['_left', '_right'];
+
+/** Kulcs-elválasztó összetett kulcshoz: cellában nem fordul elő. */
+const KEY_SEPARATOR = '\u0000';
+
+export interface JoinSide {
+  rows: string[][];
+  hasHeader: boolean;
+  keys: QueryColumn[];
+}
+
+export interface CsvJoinOptions {
+  type: JoinType;
+  suffixes: [string, string];
+  /** kis- / nagybetű független kulcs-egyeztetés */
+  ignoreCase: boolean;
+}
+
+/** Párosítatlan sor: eredeti sorszám (1-től, a header is számít) + kulcs. */
+export interface UnmatchedRow {
+  rowNumber: number;
+  key: string[];
+}
+
+/**
+ * - columns: a bal oldal oszlopai, majd a jobb oldal nem-kulcs oszlopai
+ *   (ütközésnél mindkettő utótagot kap)
+ * - matchedPairs: az összepárosított (bal, jobb) sorpárok száma
+ * - unmatchedLeft / unmatchedRight: a párt nem találó sorok, a join
+ *   típusától függetlenül (inner-nél ezek kimaradnak, left / right / full
+ *   esetén üres cellákkal bekerülnek)
+ * - errors: ismeretlen kulcsoszlopok (ilyenkor üres az eredmény)
+ */
+export interface CsvJoinResult {
+  columns: string[];
+  rows: string[][];
+  matchedPairs: number;
+  unmatchedLeft: UnmatchedRow[];
+  unmatchedRight: UnmatchedRow[];
+  errors: string[];
+}
+
+/**
+ * CsvJoinService:
+ * két parse-olt CSV összekapcsolása kulcsoszlop(ok) alapján, AI nélkül.
+ *
+ * A kulcsokat trimmelve, pontos egyezéssel (ignoreCase esetén kisbetűsítve)
+ * hasonlítjuk; az üres / null-szerű kulcs (mint SQL-ben a NULL) semmivel nem
+ * párosul. Több egyező sornál minden párosítás bekerül. A kulcsoszlopok
+ * egyszer szerepelnek (a bal oldal nevével); a csak jobb oldali sorokban a
+ * jobb oldal kulcsértékeivel töltjük ki őket.
+ */
+@Injectable()
+export class CsvJoinService {
+  join(
+    left: JoinSide,
+    right: JoinSide,
+    options: CsvJoinOptions,
+  ): CsvJoinResult {
+    const l = createColumnResolver(left.rows, left.hasHeader);
+    const r = createColumnResolver(right.rows, right.hasHeader);
+    const leftKeys = left.keys.map(l.resolve);
+    const rightKeys = right.keys.map(r.resolve);
+
+    const errors = [
+      ...l.unresolved.map((message) => `left: ${message}`),
+      ...r.unresolved.map((message) => `right: ${message}`),
+    ];
+    if (errors.length > 0) {
+      return {
+        columns: [],
+        rows: [],
+        matchedPairs: 0,
+        unmatchedLeft: [],
+        unmatchedRight: [],
+        errors,
+      };
+    }
+
+    const keyOf = (row: string[], cols: number[]): string[] =>
+      cols.map((col) => (row[col] ?? '').trim());
+    const lookupKey = (key: string[]): string | undefined =>
+      key.some((value) => isNullValue(value))
+        ? undefined
+        : (options.ignoreCase
+            ? key.map((value) => value.toLocaleLowerCase('hu-HU'))
+            : key
+          ).join(KEY_SEPARATOR);
+
+    const rightIndex = new Map<string, number[]>();
+    r.data.forEach((row, index) => {
+      const key = lookupKey(keyOf(row, rightKeys));
+      if (key !== undefined) {
+        const list = rightIndex.get(key);
+        if (list) {
+          list.push(index);
+        } else {
+          rightIndex.set(key, [index]);
+        }
+      }
+    });
+
+    const rightColumns = r.names
+      .map((_, col) => col)
+      .filter((col) => !rightKeys.includes(col));
+    const collisions = new Set(
+      rightColumns
+        .map((col) => r.names[col])
+        .filter((name) => l.names.includes(name)),
+    );
+    const [leftSuffix, rightSuffix] = options.suffixes;
+    const columns = [
+      ...l.names.map((name) =>
+        collisions.has(name) ? name + leftSuffix : name,
+      ),
+      ...rightColumns.map((col) =>
+        collisions.has(r.names[col])
+          ? r.names[col] + rightSuffix
+          : r.names[col],
+      ),
+    ];
+
+    const combine = (
+      leftRow: string[] | undefined,
+      rightRow: string[] | undefined,
+    ): string[] => [
+      ...l.names.map((_, col) => {
+        if (leftRow) {
+          return leftRow[col] ?? '';
+        }
+        const keyPosition = leftKeys.indexOf(col);
+        return keyPosition >= 0 && rightRow
+          ? (rightRow[rightKeys[keyPosition]] ?? '')
+          : '';
+      }),
+      ...rightColumns.map((col) => (rightRow ? (rightRow[col] ?? '') : '')),
+    ];
+
+    const leftOffset = left.hasHeader ? 2 : 1;
+    const rightOffset = right.hasHeader ? 2 : 1;
+    const keepLeft = options.type === 'left' || options.type === 'full';
+    const keepRight = options.type === 'right' || options.type === 'full';
+
+    const rows: string[][] = [];
+    const unmatchedLeft: UnmatchedRow[] = [];
+    const rightMatched = new Set<number>();
+    let matchedPairs = 0;
+
+    l.data.forEach((leftRow, index) => {
+      const key = keyOf(leftRow, leftKeys);
+      const lookup = lookupKey(key);
+      const matches = lookup === undefined ? undefined : rightIndex.get(lookup);
+
+      if (!matches) {
+        unmatchedLeft.push({ rowNumber: index + leftOffset, key });
+        if (keepLeft) {
+          rows.push(combine(leftRow, undefined));
+        }
+        return;
+      }
+
+      for (const match of matches) {
+        rows.push(combine(leftRow, r.data[match]));
+        rightMatched.add(match);
+        matchedPairs++;
+      }
+    });
+
+    const unmatchedRight: UnmatchedRow[] = [];
+    r.data.forEach((rightRow, index) => {
+      if (rightMatched.has(index)) {
+        return;
+      }
+      unmatchedRight.push({
+        rowNumber: index + rightOffset,
+        key: keyOf(rightRow, rightKeys),
+      });
+      if (keepRight) {
+        rows.push(combine(undefined, rightRow));
+      }
+    });
+
+    return {
+      columns,
+      rows,
+      matchedPairs,
+      unmatchedLeft,
+      unmatchedRight,
+      errors: [],
+    };
+  }
+}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { inflateRawSync } from 'zlib';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvProfileService } from './csv-profile.service';
+import type { CsvDialect } from './models/csv-dialect.model';
+
+/** ZIP bejegyzések kicsomagolása (csak a local file headerek alapján). */
+function unzip(buffer: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  let offset = 0;
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const size = buffer.readUInt32LE(offset + 18);
+    const nameLength = buffer.readUInt16LE(offset + 26);
+    const extraLength = buffer.readUInt16LE(offset + 28);
+    const start = offset + 30 + nameLength + extraLength;
+    const name = buffer.toString(
+      'utf-8',
+      offset + 30,
+      offset + 30 + nameLength,
+    );
+    files.set(
+      name,
+      inflateRawSync(buffer.subarray(start, start + size)).toString('utf-8'),
+    );
+    offset = start + size;
+  }
+  return files;
+}
+
+describe('CsvOutputService', () => {
+  let service: CsvOutputService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvOutputService, CsvEngineService, CsvProfileService],
+    }).compile();
+
+    service = module.get<CsvOutputService>(CsvOutputService);
+  });
+
+  const dialect: CsvDialect = {
+    delimiter: ';',
+    quoteChar: '"',
+    lineEnding: '\n',
+    hasHeader: true,
+    encoding: 'utf-8',
+  };
+  const rows = [
+    ['ID', 'Nev', 'Osszeg', 'Aktiv', 'Belepes'],
+    ['1', "O'Brien", '12.5', 'igen', '2024-03-01'],
+    ['2', 'Béla', '', 'nem', '15.04.2023'],
+  ];
+  const render = (format: 'json' | 'ndjson' | 'tsv' | 'sql') =>
+    service.render(rows, dialect, format, { baseName: 'cleaned' }).content;
+
+  it('renders JSON, NDJSON and TSV keyed by the header', () => {
+    expect(JSON.parse(render('json') as string)).toEqual([
+      {
+        ID: '1',
+        Nev: "O'Brien",
+        Osszeg: '12.5',
+        Aktiv: 'igen',
+        Belepes: '2024-03-01',
+      },
+      { ID: '2', Nev: 'Béla', Osszeg: '', Aktiv: 'nem', Belepes: '15.04.2023' },
+    ]);
+    expect((render('ndjson') as string).split('\n')).toHaveLength(3);
+    expect(render('tsv')).toBe(rows.map((row) => row.join('\t')).join('\n'));
+  });
+
+  it('renders CREATE TABLE and INSERT with inferred column types', () => {
+    expect(render('sql')).toBe(
+      [
+        'CREATE TABLE "csv_data" (',
+        '  "ID" BIGINT,',
+        '  "Nev" TEXT,',
+        '  "Osszeg" NUMERIC,',
+        '  "Aktiv" BOOLEAN,',
+        '  "Belepes" DATE',
+        ');',
+        '',
+        'INSERT INTO "csv_data" ("ID", "Nev", "Osszeg", "Aktiv", "Belepes") VALUES',
+        "  (1, 'O''Brien', 12.5, TRUE, '2024-03-01'),",
+        "  (2, 'Béla', NULL, FALSE, '2023-04-15');",
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('falls back to TEXT when not every value fits the type', () => {
+    const output = service.render(
+      [['Kod', 'Id'], ['12'], ['A-7'], ['3'], ['4'], ['5']],
+      { ...dialect },
+      'sql',
+      { baseName: 'cleaned', tableName: 'kodok' },
+    );
+
+    expect(output.content).toContain('"Kod" TEXT');
+    expect(output.content).toContain("('A-7', NULL)");
+  });
+
+  it('keeps leading zeros and huge integers as text', () => {
+    const numbers = [
+      ['TAJ', 'Szamla', 'Db'],
+      ['012345678', '12345678901234567890123', '3'],
+      ['123456789', '42', '9007199254740993'],
+    ];
+
+    const sql = service.render(numbers, dialect, 'sql', {
+      baseName: 'cleaned',
+    }).content as string;
+    expect(sql).toContain('"TAJ" TEXT,\n  "Szamla" TEXT,\n  "Db" TEXT');
+    expect(sql).toContain("('012345678', '12345678901234567890123', '3')");
+
+    const xlsx = service.render(numbers, dialect, 'xlsx', {
+      baseName: 'cleaned',
+    });
+    const sheet =
+      unzip(xlsx.content as Buffer).get('xl/worksheets/sheet1.xml') ?? '';
+    expect(sheet).toContain('<t xml:space="preserve">012345678</t>');
+    expect(sheet).toContain(
+      '<t xml:space="preserve">12345678901234567890123</t>',
+    );
+    expect(sheet).not.toContain('<v>');
+  });
+
+  it('renders an XLSX workbook with numeric cells for numeric columns', () => {
+    const output = service.render(rows, dialect, 'xlsx', {
+      baseName: 'cleaned',
+    });
+    const files = unzip(output.content as Buffer);
+    const sheet = files.get('xl/worksheets/sheet1.xml') ?? '';
+
+    expect(output).toMatchObject({
+      fileName: 'cleaned.xlsx',
+      contentType:
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    });
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(sheet).toContain(
+      '<c r="A1" t="inlineStr"><is><t xml:space="preserve">ID</t></is></c>',
+    );
+    expect(sheet).toContain('<c r="C2"><v>12.5</v></c>');
+    expect(sheet).toContain(`<t xml:space="preserve">O'Brien</t>`);
+    expect(sheet).not.toContain('r="C3"');
+    expect(service.toCsvOutput(output).encoding).toBe('base64');
+  });
+});
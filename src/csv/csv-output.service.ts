@@ -0,0 +1,315 @@
+import { Injectable } from '@nestjs/common';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvProfileService } from './csv-profile.service';
+import { createColumnResolver } from './csv-query.service';
+import { formatDate, isNullValue, parseDate } from './csv-values';
+import { buildXlsx } from './csv-xlsx';
+import type { XlsxCell } from './csv-xlsx';
+import type { CsvDialect } from './models/csv-dialect.model';
+import type { ColumnProfile, ColumnType } from './models/csv-profile.model';
+import type { CsvOutput } from './models/csv-output.model';
+
+export const OUTPUT_FORMATS = [
+  'csv',
+  'json',
+  'ndjson',
+  'tsv',
+  'sql',
+  'xlsx',
+] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/** A SQL kimenet alapértelmezett táblaneve. */
+export const DEFAULT_TABLE_NAME = 'csv_data';
+
+/** Egy INSERT utasításba legfeljebb ennyi sor kerül. */
+const SQL_INSERT_BATCH = 1000;
+
+const FORMAT_INFO: Record<
+  OutputFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  json: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+  ndjson: {
+    contentType: 'application/x-ndjson; charset=utf-8',
+    extension: 'ndjson',
+  },
+  tsv: {
+    contentType: 'text/tab-separated-values; charset=utf-8',
+    extension: 'tsv',
+  },
+  sql: { contentType: 'application/sql; charset=utf-8', extension: 'sql' },
+  xlsx: {
+    contentType:
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx',
+  },
+};
+
+/** A profil típusa → PostgreSQL oszloptípus. */
+const SQL_TYPES: Record<ColumnType, string> = {
+  integer: 'BIGINT',
+  decimal: 'NUMERIC',
+  boolean: 'BOOLEAN',
+  date: 'DATE',
+  email: 'TEXT',
+  text: 'TEXT',
+};
+
+const TRUE_TOKENS = new Set(['true', 'yes', 'igen']);
+
+export interface RenderOptions {
+  /** a letöltött fájl neve kiterjesztés nélkül */
+  baseName: string;
+  /** a SQL kimenet táblaneve */
+  tableName?: string;
+}
+
+/**
+ * Egy renderelt kimenet. A content szöveg (xlsx-nél bináris); a
+ * toCsvOutput a JSON válaszba tehető alakot adja (xlsx: base64).
+ */
+export interface RenderedOutput {
+  format: OutputFormat;
+  contentType: string;
+  fileName: string;
+  content: string | Buffer;
+}
+
+/**
+ * CsvOutputService:
+ * a tisztított sorok kiírása a kért formátumban (CSV, JSON, NDJSON, TSV,
+ * SQL, XLSX).
+ *
+ * Az objektum-kulcsok és a SQL oszlopnevek a header nevei (header nélkül,
+ * ill. üres / ismétlődő névnél column_<n>). A SQL és az XLSX a profil
+ * típusait használja, de csak ha az oszlop MINDEN kitöltött értéke
+ * megfelel a típusnak; egyébként szöveg. Az üres és null-szerű cellák a
+ * SQL-ben NULL-ok.
+ */
+@Injectable()
+export class CsvOutputService {
+  constructor(
+    private readonly csvEngine: CsvEngineService,
+    private readonly csvProfile: CsvProfileService,
+  ) {}
+
+  render(
+    rows: string[][],
+    dialect: CsvDialect,
+    format: OutputFormat,
+    options: RenderOptions,
+  ): RenderedOutput {
+    const { contentType, extension } = FORMAT_INFO[format];
+    return {
+      format,
+      contentType,
+      fileName: `${options.baseName}.${extension}`,
+      content: this.renderContent(rows, dialect, format, options),
+    };
+  }
+
+  toCsvOutput(output: RenderedOutput): CsvOutput {
+    const binary = Buffer.isBuffer(output.content);
+    return {
+      format: output.format,
+      contentType: output.contentType,
+      fileName: output.fileName,
+      encoding: binary ? 'base64' : 'utf-8',
+      content: binary
+        ? output.content.toString('base64')
+        : (output.content as string),
+    };
+  }
+
+  private renderContent(
+    rows: string[][],
+    dialect: CsvDialect,
+    format: OutputFormat,
+    options: RenderOptions,
+  ): string | Buffer {
+    const { delimiter, quoteChar, lineEnding, hasHeader } = dialect;
+
+    switch (format) {
+      case 'csv':
+        return this.csvEngine.serializeCsv(
+          rows,
+          delimiter,
+          quoteChar,
+          lineEnding,
+        );
+      case 'tsv':
+        return this.csvEngine.serializeCsv(rows, '\t', quoteChar, lineEnding);
+      case 'json':
+        return JSON.stringify(toObjects(rows, hasHeader));
+      case 'ndjson':
+        return toObjects(rows, hasHeader)
+          .map((row) => JSON.stringify(row) + '\n')
+          .join('');
+      case 'sql':
+        return this.renderSql(
+          rows,
+          hasHeader,
+          options.tableName ?? DEFAULT_TABLE_NAME,
+        );
+      case 'xlsx':
+        return this.renderXlsx(rows, hasHeader, options.baseName);
+    }
+  }
+
+  /** CREATE TABLE + INSERT-ek (PostgreSQL). */
+  private renderSql(
+    rows: string[][],
+    hasHeader: boolean,
+    tableName: string,
+  ): string {
+    const names = columnNames(rows, hasHeader);
+    const types = this.columnTypes(rows, hasHeader);
+    const data = hasHeader ? rows.slice(1) : rows;
+    const table = quoteIdentifier(tableName);
+    const columns = names.map(quoteIdentifier);
+
+    const statements = [
+      `CREATE TABLE ${table} (\n` +
+        columns
+          .map((column, i) => `  ${column} ${SQL_TYPES[types[i]]}`)
+          .join(',\n') +
+        '\n);',
+    ];
+
+    for (let start = 0; start < data.length; start += SQL_INSERT_BATCH) {
+      const values = data
+        .slice(start, start + SQL_INSERT_BATCH)
+        .map(
+          (row) =>
+            '  (' +
+            names.map((_, i) => sqlLiteral(row[i] ?? '', types[i])).join(', ') +
+            ')',
+        );
+      statements.push(
+        `INSERT INTO ${table} (${columns.join(', ')}) VALUES\n` +
+          values.join(',\n') +
+          ';',
+      );
+    }
+
+    return statements.join('\n\n') + '\n';
+  }
+
+  /** Szám típusú oszlopban szám cellák, minden más szöveg. */
+  private renderXlsx(
+    rows: string[][],
+    hasHeader: boolean,
+    sheetName: string,
+  ): Buffer {
+    const types = this.columnTypes(rows, hasHeader);
+    const cells: XlsxCell[][] = rows.map((row, r) =>
+      row.map((value, c) => {
+        const numeric = types[c] === 'integer' || types[c] === 'decimal';
+        if ((hasHeader && r === 0) || !numeric || isNullValue(value.trim())) {
+          return value;
+        }
+        return value.trim() === '' ? null : Number(value);
+      }),
+    );
+    return buildXlsx(cells, sheetName);
+  }
+
+  /**
+   * Oszloponkénti típus a profil alapján; ha nem minden kitöltött érték
+   * felel meg, text. Szám oszlop is text, ha egy értéke számként nem
+   * vihető át veszteség nélkül (isExactNumber).
+   */
+  private columnTypes(rows: string[][], hasHeader: boolean): ColumnType[] {
+    const data = hasHeader ? rows.slice(1) : rows;
+
+    return this.csvProfile
+      .profileRows(rows, hasHeader, 0)
+      .map((profile: ColumnProfile, c) => {
+        if (
+          profile.filledCount === 0 ||
+          profile.conformingCount !== profile.filledCount
+        ) {
+          return 'text';
+        }
+        const numeric =
+          profile.inferredType === 'integer' ||
+          profile.inferredType === 'decimal';
+        return numeric && !data.every((row) => isExactNumber(row[c] ?? ''))
+          ? 'text'
+          : profile.inferredType;
+      });
+  }
+}
+
+/** Oszlopnevek: header, üres / ismétlődő névnél column_<n>. */
+function columnNames(rows: string[][], hasHeader: boolean): string[] {
+  const seen = new Set<string>();
+  return createColumnResolver(rows, hasHeader).names.map((name, i) => {
+    const unique = seen.has(name) ? `column_${i + 1}` : name;
+    seen.add(unique);
+    return unique;
+  });
+}
+
+function toObjects(
+  rows: string[][],
+  hasHeader: boolean,
+): Record<string, string>[] {
+  const names = columnNames(rows, hasHeader);
+  return (hasHeader ? rows.slice(1) : rows).map((row) =>
+    Object.fromEntries(names.map((name, i) => [name, row[i] ?? ''])),
+  );
+}
+
+/**
+ * Egy (profil szerint szám) érték számként is pontosan átvihető-e:
+ * - vezető nullás alak (TAJ, irányítószám: 012345678) nem, a nulla elveszne
+ * - egész csak 2^53-ig (Number és BIGINT is pontos), tizedes tört legfeljebb
+ *   15 értékes jegyig
+ * Az üres / null-szerű érték nem számít.
+ */
+function isExactNumber(value: string): boolean {
+  const text = value.trim();
+  if (text === '' || isNullValue(text)) {
+    return true;
+  }
+  if (/^[+-]?0\d/.test(text)) {
+    return false;
+  }
+  if (/^[+-]?\d+$/.test(text)) {
+    return Number.isSafeInteger(Number(text));
+  }
+  return text.replace(/\D/g, '').replace(/^0+/, '').length <= 15;
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function sqlLiteral(value: string, type: ColumnType): string {
+  const text = value.trim();
+  if (text === '' || isNullValue(text)) {
+    return 'NULL';
+  }
+
+  switch (type) {
+    case 'integer':
+    case 'decimal':
+      // a profil csak sima (1234, -12.5) alakot fogad el, ez SQL-ben is az
+      return text;
+    case 'boolean':
+      return TRUE_TOKENS.has(text.toLowerCase()) ? 'TRUE' : 'FALSE';
+    case 'date': {
+      const parsed = parseDate(text, 'DMY');
+      return quoteText(parsed.ok ? formatDate(parsed.value) : value);
+    }
+    default:
+      return quoteText(value);
+  }
+}
+
+function quoteText(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
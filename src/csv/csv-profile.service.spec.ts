@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvProfileService } from './csv-profile.service';
+
+describe('CsvProfileService', () => {
+  let service: CsvProfileService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvProfileService],
+    }).compile();
+
+    service = module.get<CsvProfileService>(CsvProfileService);
+  });
+
+  const rows = [
+    ['ID', 'Eletkor', 'Email', 'Szuletett', 'Aktiv', 'Megjegyzes'],
+    ['1', '25', 'anna@example.com', '2001-03-15', 'igen', 'ok'],
+    ['2', '31.5', 'bela@example.com', '1993.05.02.', 'nem', ''],
+    ['3', 'N/A', 'cecil@example.hu', '15.07.1980', 'igen', 'ok'],
+    ['4', '40', 'dora@example.com', '2000-02-30', 'nem', 'x'],
+    ['5', 'abc', 'nincs', '1999-12-31', 'igen', 'ok'],
+    ['6', '52', 'eva@example.com', '2010-01-01', 'nem', 'ok'],
+  ];
+
+  describe('profileRows', () => {
+    it('infers column types', () => {
+      const types = service
+        .profileRows(rows, true)
+        .map((p) => [p.name, p.inferredType]);
+
+      expect(types).toEqual([
+        ['ID', 'integer'],
+        ['Eletkor', 'decimal'],
+        ['Email', 'email'],
+        ['Szuletett', 'date'],
+        ['Aktiv', 'boolean'],
+        ['Megjegyzes', 'text'],
+      ]);
+    });
+
+    it('computes fill ratios, distinct and top values, ranges', () => {
+      const [id, age, , born, , note] = service.profileRows(rows, true, 2);
+
+      expect(id).toMatchObject({ min: 1, max: 6, distinctCount: 6 });
+      expect(age).toMatchObject({
+        nullCount: 1,
+        nullRatio: 0.1667,
+        filledCount: 5,
+        conformingCount: 4,
+        min: 25,
+        max: 52,
+      });
+      expect(born).toMatchObject({
+        conformingCount: 5,
+        min: '1980-07-15',
+        max: '2010-01-01',
+      });
+      expect(note).toMatchObject({
+        emptyCount: 1,
+        emptyRatio: 0.1667,
+        topValues: [
+          { value: 'ok', count: 4 },
+          { value: 'x', count: 1 },
+        ],
+        length: { min: 1, max: 2, mean: 1.8 },
+      });
+    });
+
+    it('handles files with hundreds of thousands of rows', () => {
+      const large = [
+        ['ID', 'Nev'],
+        ...Array.from({ length: 300_000 }, (_, i) => [String(i + 1), 'x']),
+      ];
+
+      const [id, name] = service.profileRows(large, true);
+
+      expect(id).toMatchObject({ min: 1, max: 300_000 });
+      expect(name.length).toEqual({ min: 1, max: 1, mean: 1 });
+    });
+  });
+
+  describe('proposeActions', () => {
+    it('suggests COERCE_NUMERIC for numeric columns with stray values', () => {
+      const profiles = service.profileRows(rows, true);
+
+      expect(service.proposeActions(profiles)).toEqual([
+        {
+          type: 'COERCE_NUMERIC',
+          columnIndex: 1,
+          columnName: 'Eletkor',
+          onError: 'set-null',
+        },
+      ]);
+      expect(
+        service.proposeActions(profiles, [
+          { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'drop-row' },
+        ]),
+      ).toEqual([]);
+    });
+  });
+
+  it('summarizes one column per line', () => {
+    const summary = service.summarize(service.profileRows(rows, true));
+
+    expect(summary.split('\n')).toHaveLength(6);
+    expect(summary).toContain('#1 "Eletkor": decimal, 4/5 conforming');
+  });
+});
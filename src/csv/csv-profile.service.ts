@@ -0,0 +1,301 @@
+import { Injectable } from '@nestjs/common';
+import { CleaningAction } from './csv-engine.service';
+import { findHeaderIndex } from './csv-headers';
+import { DEFAULT_NULL_TOKENS, formatDate, parseDate } from './csv-values';
+import {
+  ColumnProfile,
+  ColumnType,
+  LengthStats,
+  ValueCount,
+} from './models/csv-profile.model';
+
+/** Ennyi leggyakoribb értéket adunk vissza oszloponként. */
+const DEFAULT_TOP_VALUES = 5;
+/** Ekkora arányban kell egyeznie a kitöltött értékeknek egy típussal. */
+const TYPE_THRESHOLD = 0.8;
+
+const NULL_TOKENS = new Set(DEFAULT_NULL_TOKENS);
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'igen', 'nem']);
+
+const INTEGER = /^[+-]?\d+$/;
+const DECIMAL = /^[+-]?(?:\d+\.\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * A típusok próbálási sorrendje: a szigorúbbtól a lazábbig.
+ * (Az egész szám decimálisnak is megfelel.)
+ */
+const TYPE_CHECKS: [Exclude<ColumnType, 'text'>, (value: string) => boolean][] =
+  [
+    ['integer', (v) => INTEGER.test(v)],
+    ['decimal', (v) => INTEGER.test(v) || DECIMAL.test(v)],
+    ['boolean', (v) => BOOLEAN_TOKENS.has(v.toLowerCase())],
+    ['date', (v) => toIsoDate(v) !== undefined],
+    ['email', (v) => EMAIL.test(v)],
+  ];
+
+/**
+ * CsvProfileService:
+ * oszloponkénti statisztika és típus-felismerés, AI nélkül.
+ *
+ * A profilból a backend maga is tud oszlop-specifikus action-t javasolni,
+ * és az AI 50 nyers sor helyett egy tömör összefoglalót kap.
+ */
+@Injectable()
+export class CsvProfileService {
+  /**
+   * Minden oszlop profilja. Az oszlopszámot a leghosszabb sor adja,
+   * a rövidebb sorok hiányzó cellái üresnek számítanak.
+   */
+  profileRows(
+    rows: string[][],
+    hasHeader: boolean,
+    topValues = DEFAULT_TOP_VALUES,
+  ): ColumnProfile[] {
+    const header = hasHeader && rows.length > 0 ? rows[0] : undefined;
+    const data = hasHeader ? rows.slice(1) : rows;
+    // reduce: a Math.max(...list) nagy tömbnél túlcsordítaná a stacket
+    const columns = rows.reduce((max, row) => Math.max(max, row.length), 0);
+
+    const profiles: ColumnProfile[] = [];
+    for (let index = 0; index < columns; index++) {
+      profiles.push(
+        this.profileColumn(
+          data.map((row) => row[index] ?? ''),
+          index,
+          header?.[index],
+          topValues,
+        ),
+      );
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Determinisztikus javaslatok a profil alapján:
+   * - szám típusú oszlop, amiben nem szám értékek is vannak → COERCE_NUMERIC
+   *   (set-null, hogy adat ne vesszen el; a terv szerkeszthető)
+   *
+   * Az existing listában (pl. AI terv) már kezelt oszlopokat kihagyja.
+   */
+  proposeActions(
+    profiles: ColumnProfile[],
+    existing: CleaningAction[] = [],
+  ): CleaningAction[] {
+    const actions: CleaningAction[] = [];
+    const header = profiles.map((p) => p.name ?? '');
+    const coerced = new Set(
+      existing.flatMap((a) => {
+        if (a.type !== 'COERCE_NUMERIC') {
+          return [];
+        }
+        const index =
+          a.columnName !== undefined
+            ? findHeaderIndex(header, a.columnName)
+            : a.columnIndex;
+        return index === undefined ? [] : [index];
+      }),
+    );
+
+    for (const profile of profiles) {
+      if (coerced.has(profile.index)) {
+        continue;
+      }
+
+      const filled = profile.filledCount;
+      const isNumeric =
+        profile.inferredType === 'integer' ||
+        profile.inferredType === 'decimal';
+
+      if (isNumeric && profile.conformingCount < filled) {
+        // névvel is: az AI terv közben átrendezheti az oszlopokat
+        actions.push({
+          type: 'COERCE_NUMERIC',
+          columnIndex: profile.index,
+          ...(profile.name ? { columnName: profile.name } : {}),
+          onError: 'set-null',
+        });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Tömör, soronként egy oszlopos szöveges összefoglaló az AI promptba.
+   */
+  summarize(profiles: ColumnProfile[]): string {
+    return profiles
+      .map((p) => {
+        const parts = [
+          `#${p.index}${p.name !== undefined ? ` "${truncate(p.name)}"` : ''}: ${p.inferredType}`,
+          `${p.conformingCount}/${p.filledCount} conforming`,
+          `empty ${percent(p.emptyRatio)}`,
+          `null ${percent(p.nullRatio)}`,
+          `distinct ${p.distinctCount}`,
+        ];
+
+        if (p.min !== undefined && p.max !== undefined) {
+          parts.push(`min ${p.min}`, `max ${p.max}`);
+        }
+
+        parts.push(`length ${p.length.min}-${p.length.max}`);
+
+        if (p.topValues.length > 0) {
+          parts.push(
+            'top: ' +
+              p.topValues
+                .map((t) => `"${truncate(t.value)}"(${t.count})`)
+                .join(', '),
+          );
+        }
+
+        return parts.join(', ');
+      })
+      .join('\n');
+  }
+
+  private profileColumn(
+    values: string[],
+    index: number,
+    name: string | undefined,
+    topValues: number,
+  ): ColumnProfile {
+    const total = values.length;
+    const counts = new Map<string, number>();
+    const filled: string[] = [];
+    let emptyCount = 0;
+    let nullCount = 0;
+
+    for (const raw of values) {
+      const value = raw.trim();
+      if (value.length === 0) {
+        emptyCount++;
+        continue;
+      }
+      if (NULL_TOKENS.has(value.toLowerCase())) {
+        nullCount++;
+        continue;
+      }
+      filled.push(value);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    const { type, conforming } = this.inferType(filled);
+
+    const profile: ColumnProfile = {
+      index,
+      name,
+      inferredType: type,
+      emptyCount,
+      emptyRatio: ratio(emptyCount, total),
+      nullCount,
+      nullRatio: ratio(nullCount, total),
+      filledCount: filled.length,
+      distinctCount: counts.size,
+      topValues: this.topValues(counts, topValues),
+      conformingCount: conforming.length,
+      length: this.lengthStats(filled),
+    };
+
+    Object.assign(profile, this.range(type, conforming));
+
+    return profile;
+  }
+
+  /**
+   * Az első típus (TYPE_CHECKS sorrendben), amelynek a kitöltött értékek
+   * legalább TYPE_THRESHOLD része megfelel; különben szöveg.
+   */
+  private inferType(filled: string[]): {
+    type: ColumnType;
+    conforming: string[];
+  } {
+    if (filled.length > 0) {
+      for (const [type, check] of TYPE_CHECKS) {
+        const conforming = filled.filter(check);
+        if (conforming.length / filled.length >= TYPE_THRESHOLD) {
+          return { type, conforming };
+        }
+      }
+    }
+
+    return { type: 'text', conforming: filled };
+  }
+
+  private range(
+    type: ColumnType,
+    conforming: string[],
+  ): Pick<ColumnProfile, 'min' | 'max'> {
+    if (type === 'integer' || type === 'decimal') {
+      const numbers = conforming.map(Number);
+      return numbers.length > 0 ? minMax(numbers) : {};
+    }
+
+    if (type === 'date') {
+      const dates = conforming
+        .map(toIsoDate)
+        .filter((d): d is string => d !== undefined)
+        .sort();
+      return dates.length > 0
+        ? { min: dates[0], max: dates[dates.length - 1] }
+        : {};
+    }
+
+    return {};
+  }
+
+  private topValues(counts: Map<string, number>, limit: number): ValueCount[] {
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, limit)
+      .map(([value, count]) => ({ value, count }));
+  }
+
+  private lengthStats(filled: string[]): LengthStats {
+    if (filled.length === 0) {
+      return { min: 0, max: 0, mean: 0 };
+    }
+
+    const lengths = filled.map((value) => value.length);
+    const sum = lengths.reduce((a, b) => a + b, 0);
+
+    return {
+      ...minMax(lengths),
+      mean: Math.round((sum / lengths.length) * 100) / 100,
+    };
+  }
+}
+
+/** Legkisebb és legnagyobb elem (ciklussal: a spread nagy tömbnél túlcsordítaná a stacket). */
+function minMax(numbers: number[]): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of numbers) {
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return { min, max };
+}
+
+/**
+ * Dátum YYYY-MM-DD alakban (a típusfelismeréshez a perjeles alakot is
+ * nap-hó-évnek vesszük), vagy undefined.
+ */
+function toIsoDate(value: string): string | undefined {
+  const date = parseDate(value, 'DMY');
+  return date.ok ? formatDate(date.value) : undefined;
+}
+
+function ratio(count: number, total: number): number {
+  return total === 0 ? 0 : Math.round((count / total) * 10000) / 10000;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function truncate(value: string, max = 30): string {
+  return value.length > max ? `${value.slice(0, max)}…` : value;
+}
@@ -0,0 +1,148 @@
+import { isValidRegex } from './csv-engine.service';
+import { UNSAFE_REGEX_MESSAGE, isSafeRegex } from './csv-regex';
+import { QUERY_OPERATORS, SORT_TYPES } from './csv-query.service';
+import type { QueryOperator } from './csv-query.service';
+import { isSupportedLocale } from './csv-values';
+
+/**
+ * A /csv/query lekérdezés szigorú ellenőrzése (a DTO csak az alakot nézi).
+ * Visszaadja az összes hibát ("where.and[1].op must be ..."); üres tömb
+ * esetén a lekérdezés érvényes.
+ */
+
+/** Ennél mélyebb and / or fát nem fogadunk el. */
+const MAX_FILTER_DEPTH = 10;
+
+/** Ezekhez nem kell value. */
+const NULL_OPERATORS: QueryOperator[] = ['isNull', 'notNull'];
+
+export interface RawCsvQuery {
+  select?: unknown[];
+  where?: Record<string, unknown>;
+  sort?: Record<string, unknown>[];
+  locale?: string;
+}
+
+export function validateCsvQuery(query: RawCsvQuery): string[] {
+  const errors: string[] = [];
+
+  query.select?.forEach((column, index) => {
+    if (!isColumnRef(column)) {
+      errors.push(`select[${index}] must be a column index or name`);
+    }
+  });
+
+  if (query.where !== undefined) {
+    validateFilter(query.where, 'where', 0, errors);
+  }
+
+  query.sort?.forEach((key, index) => {
+    const path = `sort[${index}]`;
+    if (!isColumnRef(key.column)) {
+      errors.push(`${path}.column must be a column index or name`);
+    }
+    if (
+      key.direction !== undefined &&
+      key.direction !== 'asc' &&
+      key.direction !== 'desc'
+    ) {
+      errors.push(`${path}.direction must be "asc" or "desc"`);
+    }
+    if (
+      key.type !== undefined &&
+      !SORT_TYPES.some((type) => type === key.type)
+    ) {
+      errors.push(`${path}.type must be one of ${SORT_TYPES.join(', ')}`);
+    }
+  });
+
+  if (query.locale !== undefined && !isSupportedLocale(query.locale)) {
+    errors.push('locale must be a supported locale (e.g. "hu-HU")');
+  }
+
+  return errors;
+}
+
+function validateFilter(
+  raw: unknown,
+  path: string,
+  depth: number,
+  errors: string[],
+): void {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (depth > MAX_FILTER_DEPTH) {
+    errors.push(`${path} is nested too deeply (max ${MAX_FILTER_DEPTH})`);
+    return;
+  }
+
+  const filter = raw as Record<string, unknown>;
+
+  for (const group of ['and', 'or'] as const) {
+    if (filter[group] === undefined) {
+      continue;
+    }
+    const parts = filter[group];
+    if (!Array.isArray(parts) || parts.length === 0) {
+      errors.push(`${path}.${group} must be a non-empty array`);
+      return;
+    }
+    parts.forEach((part, index) =>
+      validateFilter(part, `${path}.${group}[${index}]`, depth + 1, errors),
+    );
+    return;
+  }
+
+  if (!isColumnRef(filter.column)) {
+    errors.push(`${path}.column must be a column index or name`);
+  }
+
+  const op = QUERY_OPERATORS.find((o) => o === filter.op);
+  if (!op) {
+    errors.push(
+      `${path}.op must be one of ${QUERY_OPERATORS.join(', ')} (or use "and" / "or")`,
+    );
+    return;
+  }
+
+  const value = filter.value;
+  if (NULL_OPERATORS.includes(op)) {
+    return;
+  }
+
+  if (op === 'in') {
+    if (!Array.isArray(value) || !value.every(isScalar)) {
+      errors.push(`${path}.value must be an array of strings or numbers`);
+    }
+    return;
+  }
+
+  if (!isScalar(value)) {
+    errors.push(`${path}.value must be a string or number for "${op}"`);
+    return;
+  }
+
+  if (op === 'regex') {
+    const flags = typeof filter.flags === 'string' ? filter.flags : '';
+    if (filter.flags !== undefined && !/^[imsu]*$/.test(flags)) {
+      errors.push(`${path}.flags must be a combination of i, m, s, u`);
+    } else if (!isValidRegex(String(value), flags)) {
+      errors.push(`${path}.value must be a valid regular expression`);
+    } else if (!isSafeRegex(String(value), flags)) {
+      errors.push(`${path}.value ${UNSAFE_REGEX_MESSAGE}`);
+    }
+  }
+}
+
+export function isColumnRef(value: unknown): boolean {
+  return (
+    (typeof value === 'number' && Number.isInteger(value) && value >= 0) ||
+    (typeof value === 'string' && value.trim().length > 0)
+  );
+}
+
+function isScalar(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvQueryService } from './csv-query.service';
+
+describe('CsvQueryService', () => {
+  let service: CsvQueryService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [CsvQueryService],
+    }).compile();
+
+    service = module.get<CsvQueryService>(CsvQueryService);
+  });
+
+  const rows = [
+    ['ID', 'Nev', 'Varos', 'Fizetes', 'Belepes'],
+    ['1', 'Kovács Éva', 'Pécs', '450000', '2021-03-01'],
+    ['2', 'Nagy Péter', 'Budapest', '9000', '2022.11.15.'],
+    ['3', 'Ábel Anna', 'Győr', 'N/A', '2023-01-10'],
+    ['4', 'Zsigmond Ede', 'Budapest', '1 200 000', ''],
+    ['5', 'Varga Ödön', 'Szeged', '80000', '2020-06-30'],
+  ];
+
+  it('filters with typed comparisons combined with and / or', () => {
+    const result = service.runQuery(rows, true, {
+      where: {
+        or: [
+          {
+            and: [
+              { column: 'Varos', op: 'eq', value: 'Budapest' },
+              { column: 'Fizetes', op: 'gt', value: 10000 },
+            ],
+          },
+          { column: 'Belepes', op: 'lt', value: '2020-12-31' },
+          { column: 3, op: 'isNull' },
+        ],
+      },
+      select: ['ID'],
+    });
+
+    // "9000" < 10000 számként (szövegként nagyobb lenne)
+    expect(result.rows.flat()).toEqual(['3', '4', '5']);
+    expect(result.matchedRows).toBe(3);
+  });
+
+  it('supports contains, regex and in', () => {
+    const ids = (where: Record<string, unknown>) =>
+      service
+        .runQuery(rows, true, { where: where as never, select: [0] })
+        .rows.flat();
+
+    expect(ids({ column: 'Nev', op: 'contains', value: 'ANNA' })).toEqual([
+      '3',
+    ]);
+    expect(
+      ids({ column: 'Nev', op: 'regex', value: '^(kov|zsig)', flags: 'i' }),
+    ).toEqual(['1', '4']);
+    expect(
+      ids({ column: 'Varos', op: 'in', value: ['Győr', 'Szeged'] }),
+    ).toEqual(['3', '5']);
+  });
+
+  it('sorts by several typed keys with nulls last, then pages', () => {
+    const sorted = service.runQuery(rows, true, {
+      sort: [
+        { column: 'Varos', direction: 'asc', type: 'text' },
+        { column: 'Fizetes', direction: 'desc' },
+      ],
+      select: ['Varos', 'Fizetes'],
+    });
+    const paged = service.runQuery(rows, true, {
+      sort: [{ column: 'Fizetes', direction: 'desc', type: 'number' }],
+      offset: 1,
+      limit: 2,
+      select: ['ID'],
+    });
+
+    expect(sorted.rows).toEqual([
+      ['Budapest', '1 200 000'],
+      ['Budapest', '9000'],
+      ['Győr', 'N/A'],
+      ['Pécs', '450000'],
+      ['Szeged', '80000'],
+    ]);
+    expect(paged.rows.flat()).toEqual(['1', '5']);
+    expect(paged.matchedRows).toBe(5);
+  });
+
+  it('reports unknown columns', () => {
+    const result = service.runQuery(rows, true, {
+      select: ['Kor', 9],
+      where: { column: 'Kor', op: 'isNull' },
+    });
+
+    expect(result.unresolvedColumns).toEqual([
+      'unknown column "Kor"',
+      'unknown column 9',
+    ]);
+  });
+});
@@ -0,0 +1,365 @@
+import { Injectable } from '@nestjs/common';
+import { findHeaderIndex } from './csv-headers';
+import { formatDate, isNullValue, parseDate, parseNumber } from './csv-values';
+import type { NumberFormatOptions } from './csv-values';
+
+/**
+ * A /csv/query deklaratív lekérdezésének típusai.
+ *
+ * Oszlop-hivatkozás: header név (normalizált alakban is egyeztetve) vagy
+ * 0-tól számolt index, mint a ColumnList-ben.
+ */
+
+export const QUERY_OPERATORS = [
+  'eq',
+  'ne',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'contains',
+  'regex',
+  'in',
+  'isNull',
+  'notNull',
+] as const;
+export type QueryOperator = (typeof QUERY_OPERATORS)[number];
+
+export const SORT_TYPES = ['auto', 'number', 'date', 'text'] as const;
+export type SortType = (typeof SORT_TYPES)[number];
+
+export type QueryColumn = number | string;
+export type QueryValue = string | number;
+
+export interface QueryPredicate {
+  column: QueryColumn;
+  op: QueryOperator;
+  /** eq..lte / contains / regex: egy érték; in: lista; null-vizsgálat: nincs */
+  value?: QueryValue | QueryValue[];
+  /** regex flag-ek (pl. "i") */
+  flags?: string;
+}
+
+export type QueryFilter =
+  | QueryPredicate
+  | { and: QueryFilter[] }
+  | { or: QueryFilter[] };
+
+export interface QuerySort {
+  column: QueryColumn;
+  direction?: 'asc' | 'desc';
+  type?: SortType;
+}
+
+export interface CsvQuery {
+  select?: QueryColumn[];
+  where?: QueryFilter;
+  sort?: QuerySort[];
+  limit?: number;
+  offset?: number;
+  locale?: string;
+}
+
+/**
+ * - columns: a kiválasztott oszlopok nevei (header nélkül column_<n>)
+ * - matchedRows: a where-nek megfelelő sorok száma (limit / offset előtt)
+ * - unresolvedColumns: ismeretlen oszlop-hivatkozások (ilyenkor üres az
+ *   eredmény)
+ */
+export interface CsvQueryResult {
+  columns: string[];
+  rows: string[][];
+  matchedRows: number;
+  unresolvedColumns: string[];
+}
+
+/** Egy cella típusos alakja az összehasonlításhoz. */
+type TypedValue =
+  | { kind: 'number'; value: number }
+  | { kind: 'date'; value: string }
+  | { kind: 'text'; value: string };
+
+type RowPredicate = (row: string[]) => boolean;
+
+/**
+ * Oszlop-hivatkozások feloldása (a /csv/aggregate is ezt használja).
+ *
+ * - names: oszlopnevek (header nélkül column_<n>)
+ * - data: az adatsorok (header nélkül)
+ * - resolve: hivatkozás → index; ismeretlenre -1, és az unresolved-be kerül
+ */
+export interface ColumnResolver {
+  names: string[];
+  data: string[][];
+  resolve: (ref: QueryColumn) => number;
+  unresolved: string[];
+}
+
+const TEXT_LOCALE = 'hu-HU';
+const collator = new Intl.Collator(TEXT_LOCALE, { numeric: true });
+
+/**
+ * CsvQueryService:
+ * szűrés (where), rendezés, lapozás és oszlop-kiválasztás már parse-olt
+ * sorokon, AI nélkül.
+ *
+ * Az összehasonlítás típusos: ha mindkét oldal szám (a COERCE_NUMERIC
+ * szabályai szerint), számként; ha dátum, dátumként; egyébként szövegként
+ * (magyar ábécérend). A rendezésnél az üres / null-szerű értékek mindig a
+ * végére kerülnek.
+ */
+@Injectable()
+export class CsvQueryService {
+  runQuery(
+    rows: string[][],
+    hasHeader: boolean,
+    query: CsvQuery,
+  ): CsvQueryResult {
+    const { names, data, resolve, unresolved } = createColumnResolver(
+      rows,
+      hasHeader,
+    );
+
+    const format: NumberFormatOptions = query.locale
+      ? { locale: query.locale }
+      : {};
+    const where = query.where
+      ? this.compileFilter(query.where, resolve, format)
+      : () => true;
+    const sort = (query.sort ?? []).map((key) => ({
+      col: resolve(key.column),
+      desc: key.direction === 'desc',
+      type: key.type ?? 'auto',
+    }));
+    const select = (query.select ?? names.map((_, i) => i)).map(resolve);
+
+    if (unresolved.length > 0) {
+      return {
+        columns: [],
+        rows: [],
+        matchedRows: 0,
+        unresolvedColumns: unresolved,
+      };
+    }
+
+    const matched = data.filter(where);
+
+    if (sort.length > 0) {
+      // az Array.prototype.sort stabil: egyező kulcsnál marad a sorrend
+      matched.sort((a, b) => {
+        for (const key of sort) {
+          const result = compareForSort(
+            a[key.col] ?? '',
+            b[key.col] ?? '',
+            key.type,
+            format,
+          );
+          if (result !== 0) {
+            // a null-szerű értékek iránytól függetlenül hátul
+            return Math.abs(result) === 2 || !key.desc ? result : -result;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const offset = query.offset ?? 0;
+    const page =
+      query.limit !== undefined
+        ? matched.slice(offset, offset + query.limit)
+        : matched.slice(offset);
+
+    return {
+      columns: select.map((col) => names[col]),
+      rows: page.map((row) => select.map((col) => row[col] ?? '')),
+      matchedRows: matched.length,
+      unresolvedColumns: [],
+    };
+  }
+
+  /**
+   * A (már validált) where fa → sor-predikátum. Az oszlopokat egyszer
+   * oldjuk fel.
+   */
+  private compileFilter(
+    filter: QueryFilter,
+    resolve: (ref: QueryColumn) => number,
+    format: NumberFormatOptions,
+  ): RowPredicate {
+    if ('and' in filter) {
+      const parts = filter.and.map((f) =>
+        this.compileFilter(f, resolve, format),
+      );
+      return (row) => parts.every((part) => part(row));
+    }
+    if ('or' in filter) {
+      const parts = filter.or.map((f) =>
+        this.compileFilter(f, resolve, format),
+      );
+      return (row) => parts.some((part) => part(row));
+    }
+
+    const col = resolve(filter.column);
+    const cell = (row: string[]) => row[col] ?? '';
+    const value = filter.value;
+    const single = String(Array.isArray(value) ? '' : (value ?? ''));
+
+    switch (filter.op) {
+      case 'isNull':
+        return (row) => isNullValue(cell(row));
+      case 'notNull':
+        return (row) => !isNullValue(cell(row));
+      case 'contains': {
+        const needle = single.toLocaleLowerCase(TEXT_LOCALE);
+        return (row) =>
+          cell(row).toLocaleLowerCase(TEXT_LOCALE).includes(needle);
+      }
+      case 'regex': {
+        // a séma nem enged g / y flag-et (a test() állapotot tartana)
+        const pattern = new RegExp(single, filter.flags ?? '');
+        return (row) => pattern.test(cell(row));
+      }
+      case 'in': {
+        const options = (Array.isArray(value) ? value : [single]).map(String);
+        return (row) =>
+          options.some(
+            (option) => compareTyped(cell(row), option, format) === 0,
+          );
+      }
+      default: {
+        const op = filter.op;
+        return (row) => {
+          const result = compareTyped(cell(row), single, format);
+          switch (op) {
+            case 'eq':
+              return result === 0;
+            case 'ne':
+              return result !== 0;
+            case 'gt':
+              return result > 0;
+            case 'gte':
+              return result >= 0;
+            case 'lt':
+              return result < 0;
+            default:
+              return result <= 0;
+          }
+        };
+      }
+    }
+  }
+}
+
+export function createColumnResolver(
+  rows: string[][],
+  hasHeader: boolean,
+): ColumnResolver {
+  const header = hasHeader && rows.length > 0 ? rows[0] : [];
+  const data = hasHeader ? rows.slice(1) : rows;
+  const width = data.reduce(
+    (max, row) => Math.max(max, row.length),
+    header.length,
+  );
+  const names = Array.from(
+    { length: width },
+    (_, i) => header[i] || `column_${i + 1}`,
+  );
+
+  const unresolved: string[] = [];
+  const resolve = (ref: QueryColumn): number => {
+    const col =
+      typeof ref === 'number'
+        ? ref < width
+          ? ref
+          : undefined
+        : findHeaderIndex(names, ref);
+    if (col === undefined) {
+      const message = `unknown column ${typeof ref === 'number' ? ref : `"${ref}"`}`;
+      if (!unresolved.includes(message)) {
+        unresolved.push(message);
+      }
+      return -1;
+    }
+    return col;
+  };
+
+  return { names, data, resolve, unresolved };
+}
+
+function toTypedValue(
+  text: string,
+  type: SortType,
+  format: NumberFormatOptions,
+): TypedValue | undefined {
+  const value = text.trim();
+
+  if (type === 'auto' || type === 'number') {
+    const number = parseNumber(value, format);
+    if (number.ok) {
+      return { kind: 'number', value: number.value };
+    }
+    if (type === 'number') {
+      return undefined;
+    }
+  }
+
+  if (type === 'auto' || type === 'date') {
+    const date = parseDate(value);
+    if (date.ok) {
+      return { kind: 'date', value: formatDate(date.value) };
+    }
+    if (type === 'date') {
+      return undefined;
+    }
+  }
+
+  return { kind: 'text', value };
+}
+
+/**
+ * Típusos összehasonlítás (-1, 0, 1): azonos típusnál érték szerint,
+ * eltérőnél szövegként.
+ */
+export function compareTyped(
+  a: string,
+  b: string,
+  format: NumberFormatOptions,
+  type: SortType = 'auto',
+): number {
+  const left = toTypedValue(a, type, format);
+  const right = toTypedValue(b, type, format);
+
+  if (left?.kind === 'number' && right?.kind === 'number') {
+    return Math.sign(left.value - right.value);
+  }
+  if (left?.kind === 'date' && right?.kind === 'date') {
+    return compareText(left.value, right.value);
+  }
+  return compareText(a.trim(), b.trim());
+}
+
+/** Magyar ábécérend; az egyenlőség pontos (nem collator-szintű). */
+function compareText(a: string, b: string): number {
+  if (a === b) {
+    return 0;
+  }
+  return Math.sign(collator.compare(a, b)) || (a < b ? -1 : 1);
+}
+
+/**
+ * Rendezési összehasonlítás: a null-szerű (és a type-nak nem megfelelő)
+ * értékek ±2-t kapnak, hogy az irány ne fordítsa meg őket.
+ */
+function compareForSort(
+  a: string,
+  b: string,
+  type: SortType,
+  format: NumberFormatOptions,
+): number {
+  const aMissing = isNullValue(a) || !toTypedValue(a, type, format);
+  const bMissing = isNullValue(b) || !toTypedValue(b, type, format);
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 2 : -2;
+  }
+  return compareTyped(a, b, format, type);
+}
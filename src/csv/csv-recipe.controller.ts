@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { CsvRecipeService } from './csv-recipe.service';
+import { RunRecipeDto } from './dto/run-recipe.dto';
+import { SaveCleanRecipeDto, SaveRecipeDto } from './dto/save-recipe.dto';
+import type { CsvRecipe, RunRecipeResponse } from './models/csv-recipe.model';
+
+/**
+ * Mentett tisztítási receptek: CRUD + futtatás AI nélkül.
+ */
+@Controller('csv/recipes')
+export class CsvRecipeController {
+  constructor(private readonly csvRecipeService: CsvRecipeService) {}
+
+  @Get()
+  listRecipes(): Promise<CsvRecipe[]> {
+    return this.csvRecipeService.list();
+  }
+
+  @Post()
+  createRecipe(@Body() dto: SaveRecipeDto): Promise<CsvRecipe> {
+    return this.csvRecipeService.create(dto);
+  }
+
+  /** Új recept egy /csv/clean válaszból (a lefuttatott lépésekkel). */
+  @Post('from-clean')
+  saveCleanRecipe(@Body() dto: SaveCleanRecipeDto): Promise<CsvRecipe> {
+    return this.csvRecipeService.saveFromClean(dto);
+  }
+
+  /** ?version=N: egy régebbi verzió (alapból a legutolsó). */
+  @Get(':id')
+  getRecipe(
+    @Param('id') id: string,
+    @Query('version', new ParseIntPipe({ optional: true })) version?: number,
+  ): Promise<CsvRecipe> {
+    return this.csvRecipeService.get(id, version);
+  }
+
+  @Get(':id/versions')
+  listRecipeVersions(@Param('id') id: string): Promise<CsvRecipe[]> {
+    return this.csvRecipeService.listVersions(id);
+  }
+
+  /** Új verziót ment; a régi verziók megmaradnak. */
+  @Put(':id')
+  updateRecipe(
+    @Param('id') id: string,
+    @Body() dto: SaveRecipeDto,
+  ): Promise<CsvRecipe> {
+    return this.csvRecipeService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteRecipe(@Param('id') id: string): Promise<void> {
+    return this.csvRecipeService.remove(id);
+  }
+
+  @Post(':id/run')
+  runRecipe(
+    @Param('id') id: string,
+    @Body() dto: RunRecipeDto,
+  ): Promise<RunRecipeResponse> {
+    return this.csvRecipeService.run(id, dto);
+  }
+}
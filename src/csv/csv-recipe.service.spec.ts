@@ -0,0 +1,207 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CsvRecipeService } from './csv-recipe.service';
+import { csvConfig } from './csv.config';
+import { CsvService } from './csv.service';
+import { AiService } from '../ai/ai.service';
+import { AiModule } from '../ai/ai.module';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvQueryService } from './csv-query.service';
+import { CsvAggregateService } from './csv-aggregate.service';
+import { CsvJoinService } from './csv-join.service';
+import { CsvDiffService } from './csv-diff.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvExpectationService } from './csv-expectation.service';
+
+describe('CsvRecipeService', () => {
+  let service: CsvRecipeService;
+  let csvService: CsvService;
+  let aiService: AiService;
+  let recipesDir: string;
+
+  const actions = [
+    { type: 'TRIM_WHITESPACE' },
+    { type: 'COERCE_NUMERIC', columnName: 'Ar', onError: 'set-null' },
+  ];
+
+  beforeEach(async () => {
+    recipesDir = await mkdtemp(join(tmpdir(), 'csv-recipes-'));
+
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AiModule],
+      providers: [
+        CsvRecipeService,
+        CsvService,
+        CsvEngineService,
+        CsvDialectService,
+        CsvProfileService,
+        CsvQueryService,
+        CsvAggregateService,
+        CsvJoinService,
+        CsvDiffService,
+        CsvOutputService,
+        CsvExpectationService,
+        { provide: csvConfig.KEY, useValue: { recipesDir } },
+      ],
+    }).compile();
+
+    service = module.get<CsvRecipeService>(CsvRecipeService);
+    csvService = module.get<CsvService>(CsvService);
+    aiService = module.get<AiService>(AiService);
+  });
+
+  afterEach(async () => {
+    await rm(recipesDir, { recursive: true, force: true });
+  });
+
+  it('stores recipes on disk as JSON files', async () => {
+    const created = await service.create({
+      name: 'Havi export',
+      actions,
+      settings: { delimiter: ';' },
+    });
+
+    expect(created).toMatchObject({
+      name: 'Havi export',
+      version: 1,
+      actions: [
+        { type: 'TRIM_WHITESPACE' },
+        { type: 'COERCE_NUMERIC', columnName: 'Ar', onError: 'set-null' },
+      ],
+      settings: { delimiter: ';' },
+    });
+    expect(await readdir(recipesDir)).toEqual([`${created.id}.json`]);
+    expect(await service.get(created.id)).toEqual(created);
+    expect(await service.list()).toEqual([created]);
+  });
+
+  it('keeps every version when a recipe is updated', async () => {
+    const created = await service.create({ name: 'Havi export', actions });
+
+    const updated = await service.update(created.id, {
+      name: 'Havi export v2',
+      actions: [{ type: 'TRIM_WHITESPACE' }],
+    });
+
+    expect(updated.version).toBe(2);
+    expect(updated.createdAt).toBe(created.createdAt);
+    expect((await service.get(created.id, 1)).actions).toHaveLength(2);
+    expect((await service.listVersions(created.id)).map((r) => r.name)).toEqual(
+      ['Havi export', 'Havi export v2'],
+    );
+    await expect(service.get(created.id, 3)).rejects.toThrow(NotFoundException);
+  });
+
+  it('serializes concurrent updates of the same recipe', async () => {
+    const created = await service.create({ name: 'Havi export', actions });
+
+    const updates = await Promise.all(
+      ['v2', 'v3', 'v4'].map((name) =>
+        service.update(created.id, { name, actions }),
+      ),
+    );
+
+    expect(updates.map((r) => r.version)).toEqual([2, 3, 4]);
+    expect((await service.listVersions(created.id)).map((r) => r.name)).toEqual(
+      ['Havi export', 'v2', 'v3', 'v4'],
+    );
+    expect(await readdir(recipesDir)).toEqual([`${created.id}.json`]);
+  });
+
+  it('deletes recipes and answers 404 for unknown ids', async () => {
+    const created = await service.create({ name: 'Havi export', actions });
+
+    await service.remove(created.id);
+
+    await expect(service.get(created.id)).rejects.toThrow(NotFoundException);
+    await expect(service.get('../secret')).rejects.toThrow(NotFoundException);
+    expect(await service.list()).toEqual([]);
+  });
+
+  it('rejects invalid actions with 400', async () => {
+    await expect(
+      service.create({ name: 'Hibás', actions: [{ type: 'COERCE_NUMERIC' }] }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('runs a recipe without calling the AI, the request settings winning', async () => {
+    const prompt = jest.spyOn(aiService, 'analyzeCsvPrompt');
+    const created = await service.create({
+      name: 'Havi export',
+      actions,
+      settings: { delimiter: ';', hasHeader: true },
+    });
+
+    const result = await service.run(created.id, {
+      csv: 'ID;Ar\n1; 100 \n2;ingyen',
+    });
+
+    expect(prompt).not.toHaveBeenCalled();
+    expect(result.cleanedCsv).toBe('ID;Ar\n1;100\n2;');
+    expect(result.recipe).toEqual({
+      id: created.id,
+      name: 'Havi export',
+      version: 1,
+    });
+
+    const overridden = await service.run(created.id, {
+      csv: 'ID,Ar\n1, 100 ',
+      delimiter: ',',
+    });
+    expect(overridden.cleanedCsv).toBe('ID,Ar\n1,100');
+  });
+
+  it('validates the cleaned data with the stored expectations', async () => {
+    const created = await service.create({
+      name: 'Havi export',
+      actions,
+      expectations: [{ type: 'not-null', column: 'Ar' }],
+    });
+
+    const result = await service.run(created.id, {
+      csv: 'ID;Ar\n1; 100 \n2;ingyen',
+    });
+
+    expect(created.expectations).toEqual([{ type: 'not-null', column: 'Ar' }]);
+    expect(result.validation).toMatchObject({ passed: false, score: 50 });
+    await expect(
+      service.update(created.id, {
+        name: 'Havi export',
+        actions,
+        expectations: [{ type: 'unique' }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('saves the actions of a /csv/clean response as a recipe', async () => {
+    const csv = 'ID;Nev\n1; "Anna" \n ; \n';
+    const cleaned = await csvService.cleanCsv({ csv, aiProvider: 'mock' });
+
+    const recipe = await service.saveFromClean({
+      name: 'Ügyfelek',
+      cleanResponse: { ...cleaned },
+    });
+
+    expect(recipe.actions).toEqual(cleaned.actions);
+    expect(recipe.settings).toEqual({
+      delimiter: ';',
+      quoteChar: '"',
+      hasHeader: true,
+    });
+    expect(recipe.description).toBe(cleaned.aiReview.explanation);
+    expect((await service.run(recipe.id, { csv })).cleanedCsv).toBe(
+      cleaned.cleanedCsv,
+    );
+  });
+
+  it('rejects a clean response without actions', async () => {
+    await expect(
+      service.saveFromClean({ name: 'Üres', cleanResponse: {} }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
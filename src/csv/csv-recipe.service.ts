@@ -0,0 +1,363 @@
+import { randomUUID } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { csvConfig } from './csv.config';
+import type { CsvConfig } from './csv.config';
+import { CsvService } from './csv.service';
+import { CsvEngineService } from './csv-engine.service';
+import type { CleaningAction } from './csv-engine.service';
+import { validateCleaningActions } from './cleaning-action.schema';
+import type { Expectation } from './csv-expectation.service';
+import { validateExpectations } from './csv-expectation.schema';
+import { RunRecipeDto } from './dto/run-recipe.dto';
+import { SaveCleanRecipeDto, SaveRecipeDto } from './dto/save-recipe.dto';
+import type {
+  CsvRecipe,
+  CsvRecipeSettings,
+  RunRecipeResponse,
+} from './models/csv-recipe.model';
+
+/** Egy recept egy verziója, ahogy a lemezen van. */
+interface RecipeVersion {
+  version: number;
+  name: string;
+  description?: string;
+  actions: CleaningAction[];
+  settings: CsvRecipeSettings;
+  expectations?: Expectation[];
+  savedAt: string;
+}
+
+/** Egy recept fájlja: az összes verzió, a legrégebbi elöl. */
+interface StoredRecipe {
+  id: string;
+  createdAt: string;
+  versions: RecipeVersion[];
+}
+
+const SETTING_KEYS = [
+  'delimiter',
+  'quoteChar',
+  'hasHeader',
+  'encoding',
+  'inputFormat',
+  'sheet',
+  'sheetIndex',
+  'columnWidths',
+] as const satisfies (keyof CsvRecipeSettings)[];
+
+/**
+ * CsvRecipeService:
+ * mentett, verziózott tisztítási receptek (action lista + olvasási
+ * beállítások) és a futtatásuk AI nélkül.
+ *
+ * Minden recept egy JSON fájl a CSV_RECIPES_DIR könyvtárban (<id>.json),
+ * benne az összes verzióval; a módosítás új verziót ír, a régiek
+ * megmaradnak. Az írás (egyedi nevű) ideiglenes fájlon + átnevezésen
+ * keresztül megy, hogy félbeszakadt írás ne hagyjon sérült receptet; egy
+ * recept módosításai (olvasás + írás) sorban futnak, hogy két egyidejű
+ * módosítás ne írja ugyanazt a verziót.
+ */
+@Injectable()
+export class CsvRecipeService {
+  /** Receptenként sorba fűzött módosítások. */
+  private readonly writes = new Map<string, Promise<unknown>>();
+
+  constructor(
+    @Inject(csvConfig.KEY) private readonly config: CsvConfig,
+    private readonly csvService: CsvService,
+    private readonly csvEngine: CsvEngineService,
+  ) {}
+
+  /** Az összes recept legutolsó verziója, név szerint rendezve. */
+  async list(): Promise<CsvRecipe[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.config.recipesDir);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const ids = files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .filter((id) => isUUID(id));
+    const stored = await Promise.all(ids.map((id) => this.load(id)));
+
+    return stored
+      .map((recipe) => toRecipe(recipe))
+      .sort((a, b) => a.name.localeCompare(b.name, 'hu-HU'));
+  }
+
+  /** Egy recept adott (alapból a legutolsó) verziója; ismeretlenre 404. */
+  async get(id: string, version?: number): Promise<CsvRecipe> {
+    return toRecipe(await this.load(id), version);
+  }
+
+  /** Egy recept összes verziója, a legrégebbi elöl. */
+  async listVersions(id: string): Promise<CsvRecipe[]> {
+    const stored = await this.load(id);
+    return stored.versions.map((v) => toRecipe(stored, v.version));
+  }
+
+  async create(dto: SaveRecipeDto): Promise<CsvRecipe> {
+    const now = new Date().toISOString();
+    const stored: StoredRecipe = {
+      id: randomUUID(),
+      createdAt: now,
+      versions: [this.buildVersion(dto, 1, now)],
+    };
+
+    await this.store(stored);
+    return toRecipe(stored);
+  }
+
+  /** Új verzió a megadott tartalommal (a régi verziók megmaradnak). */
+  update(id: string, dto: SaveRecipeDto): Promise<CsvRecipe> {
+    return this.exclusive(id, async () => {
+      const stored = await this.load(id);
+      const latest = stored.versions[stored.versions.length - 1];
+      stored.versions.push(
+        this.buildVersion(dto, latest.version + 1, new Date().toISOString()),
+      );
+
+      await this.store(stored);
+      return toRecipe(stored);
+    });
+  }
+
+  /** A recept törlése az összes verziójával. */
+  remove(id: string): Promise<void> {
+    return this.exclusive(id, async () => {
+      await this.load(id);
+      await rm(this.filePath(id));
+    });
+  }
+
+  /**
+   * Új recept egy /csv/clean válaszból: a ténylegesen lefuttatott lépések
+   * (actions) + a dialektus delimiter / quoteChar / hasHeader mezői.
+   * A kódolást nem mentjük, azt futtatáskor újra felismerjük.
+   */
+  async saveFromClean(dto: SaveCleanRecipeDto): Promise<CsvRecipe> {
+    const { actions, dialect, aiReview } = dto.cleanResponse;
+    if (!Array.isArray(actions)) {
+      throw new BadRequestException(
+        'cleanResponse.actions must be the action list of a /csv/clean response.',
+      );
+    }
+
+    const settings: CsvRecipeSettings = {};
+    if (isRecord(dialect)) {
+      if (isSingleChar(dialect.delimiter)) {
+        settings.delimiter = dialect.delimiter;
+      }
+      if (isSingleChar(dialect.quoteChar)) {
+        settings.quoteChar = dialect.quoteChar;
+      }
+      if (typeof dialect.hasHeader === 'boolean') {
+        settings.hasHeader = dialect.hasHeader;
+      }
+    }
+
+    const explanation =
+      isRecord(aiReview) && typeof aiReview.explanation === 'string'
+        ? aiReview.explanation
+        : undefined;
+
+    return this.create({
+      name: dto.name,
+      description: dto.description ?? explanation,
+      actions: actions as Record<string, unknown>[],
+      settings,
+      expectations: dto.expectations,
+    });
+  }
+
+  /**
+   * A recept futtatása a kérés CSV-jén, AI nélkül (mint a /csv/apply).
+   * A kérés olvasási mezői felülírják a recept beállításait.
+   */
+  async run(id: string, dto: RunRecipeDto): Promise<RunRecipeResponse> {
+    const recipe = await this.get(id, dto.version);
+
+    const settings: CsvRecipeSettings = {};
+    for (const key of SETTING_KEYS) {
+      copySetting(settings, key, dto[key] ?? recipe.settings[key]);
+    }
+
+    const response = this.csvService.applyCsv({
+      csv: dto.csv,
+      csvBase64: dto.csvBase64,
+      ...settings,
+      outputFormat: dto.outputFormat,
+      tableName: dto.tableName,
+      audit: dto.audit,
+      actions: recipe.actions.map((action) => ({ ...action })),
+      expectations: recipe.expectations?.map((rule) => ({ ...rule })),
+    });
+
+    return {
+      ...response,
+      recipe: { id: recipe.id, name: recipe.name, version: recipe.version },
+    };
+  }
+
+  /**
+   * Validált, típusos verzió a DTO-ból. Hibás action vagy szabálylistára
+   * 400-at adunk (mint a /csv/apply).
+   */
+  private buildVersion(
+    dto: SaveRecipeDto,
+    version: number,
+    savedAt: string,
+  ): RecipeVersion {
+    const errors = validateCleaningActions(dto.actions);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid cleaning actions.',
+        errors,
+      });
+    }
+
+    const expectationErrors = validateExpectations(dto.expectations ?? []);
+    if (expectationErrors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid expectations.',
+        errors: expectationErrors,
+      });
+    }
+
+    const settings: CsvRecipeSettings = {};
+    for (const key of SETTING_KEYS) {
+      copySetting(settings, key, dto.settings?.[key]);
+    }
+
+    const entry: RecipeVersion = {
+      version,
+      name: dto.name,
+      description: dto.description,
+      actions: this.csvEngine.mapToCleaningActions(dto.actions),
+      settings,
+      savedAt,
+    };
+    if (dto.expectations) {
+      entry.expectations = dto.expectations as unknown as Expectation[];
+    }
+    return entry;
+  }
+
+  /** A task az adott recept korábbi módosításai után fut. */
+  private exclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writes.get(id) ?? Promise.resolve();
+    const result = previous.catch(() => undefined).then(task);
+    const settled = result.catch(() => undefined);
+
+    this.writes.set(id, settled);
+    void settled.then(() => {
+      if (this.writes.get(id) === settled) {
+        this.writes.delete(id);
+      }
+    });
+    return result;
+  }
+
+  private async load(id: string): Promise<StoredRecipe> {
+    if (!isUUID(id)) {
+      throw recipeNotFound(id);
+    }
+
+    try {
+      const content = await readFile(this.filePath(id), 'utf-8');
+      return JSON.parse(content) as StoredRecipe;
+    } catch (error) {
+      if (isNotFound(error)) {
+        throw recipeNotFound(id);
+      }
+      throw error;
+    }
+  }
+
+  private async store(recipe: StoredRecipe): Promise<void> {
+    const file = this.filePath(recipe.id);
+    const temp = `${file}.${randomUUID()}.tmp`;
+
+    await mkdir(this.config.recipesDir, { recursive: true });
+    await writeFile(temp, JSON.stringify(recipe, null, 2), 'utf-8');
+    await rename(temp, file);
+  }
+
+  private filePath(id: string): string {
+    return join(this.config.recipesDir, `${id}.json`);
+  }
+}
+
+/** A tárolt recept egy verziója (alapból a legutolsó) API alakban. */
+function toRecipe(stored: StoredRecipe, version?: number): CsvRecipe {
+  const entry =
+    version === undefined
+      ? stored.versions[stored.versions.length - 1]
+      : stored.versions.find((v) => v.version === version);
+
+  if (!entry) {
+    throw new NotFoundException(
+      `Recipe ${stored.id} has no version ${version}.`,
+    );
+  }
+
+  return {
+    id: stored.id,
+    name: entry.name,
+    description: entry.description,
+    version: entry.version,
+    actions: entry.actions,
+    settings: entry.settings,
+    expectations: entry.expectations,
+    createdAt: stored.createdAt,
+    updatedAt: entry.savedAt,
+  };
+}
+
+/** Csak a megadott beállítást másoljuk (a hiányzó ne legyen undefined kulcs). */
+function copySetting<K extends keyof CsvRecipeSettings>(
+  settings: CsvRecipeSettings,
+  key: K,
+  value: CsvRecipeSettings[K],
+): void {
+  if (value !== undefined) {
+    settings[key] = value;
+  }
+}
+
+function recipeNotFound(id: string): NotFoundException {
+  return new NotFoundException(`Recipe ${id} not found.`);
+}
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSingleChar(value: unknown): value is string {
+  return typeof value === 'string' && value.length === 1;
+}
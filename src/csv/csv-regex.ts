@@ -0,0 +1,175 @@
+/**
+ * A kliens / AI által adott reguláris kifejezések biztonsági ellenőrzése.
+ *
+ * A minták szinkron futnak minden cellán (REGEX_REPLACE, query regex,
+ * matches szabály), így egyetlen katasztrofálisan visszalépő (backtracking)
+ * minta megakasztaná az egész szervert. Ezért elutasítjuk azokat a
+ * szerkezeteket, amelyeknél ugyanaz a szöveg sokféleképpen illeszthető:
+ * - ismételt csoport, amiben kvantor vagy alternatíva van: (a+)+, (a|a)*,
+ *   (.*a){9}
+ * - egymás utáni, átfedő karakterhalmazú változó hosszú ismétlések:
+ *   \d+\d+, .*\s*
+ * A vizsgálat konzervatív: ami ezek miatt kiesik, az átírható biztonságos
+ * alakra (pl. [ab]+ az (a|b)+ helyett).
+ */
+
+/** A kliens / AI által adott reguláris kifejezések maximális hossza. */
+export const MAX_REGEX_LENGTH = 500;
+export const UNSAFE_REGEX_MESSAGE =
+  `must be at most ${MAX_REGEX_LENGTH} characters, without repeated groups ` +
+  'that contain a quantifier or alternation such as (a+)+ or (a|b)*, and ' +
+  'without adjacent overlapping repetitions such as \\d+\\d+';
+
+/** Egy kvantor a minta (maradékának) elején, a lusta ?-lel együtt. */
+const QUANTIFIER = /^(?:[*+?]|\{\d+(?:,\d*)?\})\??/;
+
+/** Egy atom: escape, karakterosztály vagy egyetlen karakter. */
+const ATOM =
+  /^(?:\\(?:[pPk]\{[^}]*\}|u\{[\da-fA-F]+\}|u[\da-fA-F]{4}|x[\da-fA-F]{2}|c[a-zA-Z]|\d+|[\s\S])|\[(?:\\[\s\S]|[^\]\\])*\]|[\s\S])/;
+
+/** Csoport nyitása, a (?:, (?=, (?!, (?<=, (?<!, (?<név> előtagokkal. */
+const GROUP_OPEN = /^\((?:\?(?:[:=!]|<[=!]|<[^>]*>))?/;
+
+/** Az átfedés vizsgálatához használt karakterek (Latin-1 + Latin Extended). */
+const SAMPLE_CHARS = Array.from({ length: 0x250 }, (_, code) =>
+  String.fromCharCode(code),
+);
+
+/** Egy (csoport)szint a mintában. */
+interface RegexLevel {
+  /** van-e benne (bármilyen mélyen) változó hosszú ismétlés */
+  quantified: boolean;
+  /** van-e benne (bármilyen mélyen) alternatíva */
+  alternation: boolean;
+  /** az ismételt atomok, amelyek közvetlenül a következő atom előtt állnak */
+  open: string[];
+}
+
+/**
+ * Futtatható-e biztonságosan a minta (a flag-ekkel) minden cellán:
+ * legfeljebb MAX_REGEX_LENGTH karakter, és nincs benne a fenti,
+ * katasztrofális visszalépést okozó szerkezetek egyike sem.
+ */
+export function isSafeRegex(pattern: string, flags = ''): boolean {
+  return (
+    pattern.length <= MAX_REGEX_LENGTH && !isBacktrackingProne(pattern, flags)
+  );
+}
+
+function isBacktrackingProne(pattern: string, flags: string): boolean {
+  const levels: RegexLevel[] = [newLevel()];
+  const overlap = atomOverlap(flags);
+
+  for (let i = 0; i < pattern.length; ) {
+    const level = levels[levels.length - 1];
+    const rest = pattern.slice(i);
+
+    if (rest[0] === '(') {
+      levels.push(newLevel());
+      i += GROUP_OPEN.exec(rest)?.[0].length ?? 1;
+      continue;
+    }
+    if (rest[0] === '|') {
+      level.alternation = true;
+      level.open = [];
+      i++;
+      continue;
+    }
+    if (rest[0] === ')' && levels.length > 1) {
+      const inner = levels.pop() as RegexLevel;
+      const quantifier = QUANTIFIER.exec(rest.slice(1))?.[0] ?? '';
+      const [min, max] = bounds(quantifier);
+      if (max > 1 && (inner.quantified || inner.alternation)) {
+        return true;
+      }
+
+      const parent = levels[levels.length - 1];
+      parent.quantified ||= inner.quantified || max > min;
+      parent.alternation ||= inner.alternation;
+      // a csoportot atomként nem követjük: ami előtte állt, nem szomszédos
+      // a mögötte állóval
+      parent.open = [];
+      i += 1 + quantifier.length;
+      continue;
+    }
+
+    const atom = ATOM.exec(rest)?.[0] ?? rest[0];
+    const quantifier = QUANTIFIER.exec(rest.slice(atom.length))?.[0] ?? '';
+    const [min, max] = bounds(quantifier);
+    i += atom.length + quantifier.length;
+
+    if (max === min) {
+      // fix hosszú (vagy {0}): a korábbi ismétlések nem szomszédosak többé
+      if (min > 0) {
+        level.open = [];
+      }
+      continue;
+    }
+
+    level.quantified = true;
+    if (max === 1) {
+      continue;
+    }
+    if (level.open.some((previous) => overlap(previous, atom))) {
+      return true;
+    }
+    level.open = min > 0 ? [atom] : [...level.open, atom];
+  }
+
+  return false;
+}
+
+function newLevel(): RegexLevel {
+  return { quantified: false, alternation: false, open: [] };
+}
+
+/** A kvantor alsó és felső korlátja (kvantor nélkül 1, 1). */
+function bounds(quantifier: string): [number, number] {
+  // a lusta változat (+?, {2,}?) korlátai ugyanazok
+  const token =
+    quantifier.length > 1 && quantifier.endsWith('?')
+      ? quantifier.slice(0, -1)
+      : quantifier;
+  switch (token) {
+    case '':
+      return [1, 1];
+    case '?':
+      return [0, 1];
+    case '*':
+      return [0, Infinity];
+    case '+':
+      return [1, Infinity];
+  }
+
+  const [, min, comma, max] = /^\{(\d+)(,?)(\d*)\}$/.exec(token) ?? [];
+  const from = Number(min);
+  return [from, !comma ? from : max ? Number(max) : Infinity];
+}
+
+/**
+ * Két atom illeszthet-e ugyanarra a karakterre (a mintakarakterek
+ * alapján). A nem lefordítható atomot (pl. visszahivatkozás) mindennel
+ * átfedőnek vesszük.
+ */
+function atomOverlap(flags: string): (a: string, b: string) => boolean {
+  const cache = new Map<string, Set<string> | undefined>();
+  const matches = (atom: string): Set<string> | undefined => {
+    if (!cache.has(atom)) {
+      let matched: Set<string> | undefined;
+      try {
+        const regex = new RegExp(`^(?:${atom})$`, flags.replace(/[gy]/g, ''));
+        matched = new Set(SAMPLE_CHARS.filter((char) => regex.test(char)));
+      } catch {
+        matched = undefined;
+      }
+      cache.set(atom, matched);
+    }
+    return cache.get(atom);
+  };
+
+  return (a, b) => {
+    const left = matches(a);
+    const right = matches(b);
+    return !left || !right || [...left].some((char) => right.has(char));
+  };
+}
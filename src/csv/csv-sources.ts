@@ -0,0 +1,122 @@
+import type { ParseResult } from './csv-values';
+
+/**
+ * Nem-CSV bemenetek (JSON, NDJSON, fixed-width) átalakítása a
+ * CsvEngineService sor-reprezentációjára (string[][]). Az XLSX olvasó a
+ * csv-xlsx.ts-ben van.
+ *
+ * A JSON / NDJSON rekordok kulcsaiból lesz a header (az első előfordulás
+ * sorrendjében); a hiányzó kulcs üres cella.
+ */
+
+export const INPUT_FORMATS = [
+  'csv',
+  'xlsx',
+  'json',
+  'ndjson',
+  'fixed-width',
+] as const;
+export type InputFormat = (typeof INPUT_FORMATS)[number];
+
+/** JSON tömb (objektumok) → header + sorok. */
+export function parseJsonRecords(text: string): ParseResult<string[][]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      ok: false,
+      error: `is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+    };
+  }
+
+  if (!Array.isArray(parsed)) {
+    return { ok: false, error: 'must be a JSON array of objects' };
+  }
+  const index = parsed.findIndex((record) => !isRecord(record));
+  if (index >= 0) {
+    return { ok: false, error: `item ${index} is not an object` };
+  }
+
+  return {
+    ok: true,
+    value: recordsToRows(parsed as Record<string, unknown>[]),
+  };
+}
+
+/** Soronként egy JSON objektum; az üres sorokat kihagyjuk. */
+export function parseNdjson(text: string): ParseResult<string[][]> {
+  const records: Record<string, unknown>[] = [];
+  const lines = text.split(/\r\n|\n|\r/);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].trim() === '') {
+      continue;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(lines[i]);
+    } catch {
+      return { ok: false, error: `line ${i + 1} is not valid JSON` };
+    }
+    if (!isRecord(record)) {
+      return { ok: false, error: `line ${i + 1} is not a JSON object` };
+    }
+    records.push(record);
+  }
+
+  return { ok: true, value: recordsToRows(records) };
+}
+
+/**
+ * Fix szélességű szöveg: a widths szerint soronként feldarabolva, a
+ * cellák trimmelve. Ami az utolsó oszlopon túl van, az utolsó oszlopba
+ * kerül; az üres sorokat kihagyjuk.
+ */
+export function parseFixedWidth(text: string, widths: number[]): string[][] {
+  return text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim() !== '')
+    .map((line) => {
+      let start = 0;
+      return widths.map((width, i) => {
+        const end = i === widths.length - 1 ? line.length : start + width;
+        const cell = line.slice(start, end).trim();
+        start += width;
+        return cell;
+      });
+    });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function recordsToRows(records: Record<string, unknown>[]): string[][] {
+  const header: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        header.push(key);
+      }
+    }
+  }
+
+  return [
+    header,
+    ...records.map((record) => header.map((key) => toCell(record[key]))),
+  ];
+}
+
+/** Szám / logikai érték szövegként, null üresen, beágyazott érték JSON-ként. */
+function toCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value as string | number | boolean);
+}
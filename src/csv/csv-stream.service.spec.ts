@@ -0,0 +1,120 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PassThrough, Readable } from 'node:stream';
+import { CsvStreamService } from './csv-stream.service';
+import { CsvService } from './csv.service';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvQueryService } from './csv-query.service';
+import { CsvAggregateService } from './csv-aggregate.service';
+import { CsvJoinService } from './csv-join.service';
+import { CsvDiffService } from './csv-diff.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvExpectationService } from './csv-expectation.service';
+
+describe('CsvStreamService', () => {
+  let service: CsvStreamService;
+  let analyzeCsv: jest.Mock;
+
+  beforeEach(async () => {
+    analyzeCsv = jest.fn().mockResolvedValue({
+      explanation: 'ok',
+      issues: [],
+      actions: [],
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsvStreamService,
+        CsvEngineService,
+        CsvDialectService,
+        CsvProfileService,
+        CsvQueryService,
+        CsvAggregateService,
+        CsvJoinService,
+        CsvDiffService,
+        CsvOutputService,
+        CsvExpectationService,
+        { provide: CsvService, useValue: { analyzeCsv } },
+      ],
+    }).compile();
+
+    service = module.get<CsvStreamService>(CsvStreamService);
+  });
+
+  const collect = (stream: PassThrough): Promise<string> =>
+    new Promise((resolve) => {
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('pre-cleans rows split across chunk boundaries', async () => {
+    // a chunk határ egy idézőjeles mező és egy több byte-os karakter közepén van
+    const bytes = Buffer.from('ID;Nev\n1;" Anna "\n2;"Bé\nla";\n;\n', 'utf8');
+    const input = Readable.from([
+      bytes.subarray(0, 13),
+      bytes.subarray(13, 24),
+      bytes.subarray(24),
+    ]);
+    const output = new PassThrough();
+    const result = collect(output);
+
+    const stats = await service.cleanStream(input, output, {});
+    output.end();
+
+    expect(await result).toBe('ID;Nev\n1;Anna\n2;"Bé\nla"\n');
+    expect(stats).toMatchObject({
+      rowsBefore: 4,
+      rowsAfter: 3,
+      rowsDropped: 1,
+    });
+    expect(analyzeCsv).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps UTF-8 when the sniffed head ends inside a character', async () => {
+    // a 65536. byte és az első chunk vége is egy "é" közepére esik
+    const bytes = Buffer.from(
+      'Nev\n' + 'a'.repeat(65531) + 'éé\nBéla\n',
+      'utf8',
+    );
+    const input = Readable.from([
+      bytes.subarray(0, 65538),
+      bytes.subarray(65538),
+    ]);
+    const output = new PassThrough();
+    const result = collect(output);
+
+    await service.cleanStream(input, output, {});
+    output.end();
+
+    expect((await result).split('\n').slice(1)).toEqual([
+      'a'.repeat(65531) + 'éé',
+      'Béla',
+      '',
+    ]);
+  });
+
+  it('asks the AI once, using only the first rows as a sample', async () => {
+    const lines = [
+      'ID,Ertek',
+      ...Array.from({ length: 500 }, (_, i) => `${i},${i * 2}`),
+    ];
+    const input = Readable.from(lines.map((line) => Buffer.from(line + '\n')));
+    const output = new PassThrough();
+    const result = collect(output);
+
+    const stats = await service.cleanStream(input, output, {});
+    output.end();
+
+    const [[dto]] = analyzeCsv.mock.calls as [[{ csvSample: string }]];
+    expect(analyzeCsv).toHaveBeenCalledTimes(1);
+    expect(dto.csvSample.split('\n')).toHaveLength(50);
+    expect((await result).split('\n')).toHaveLength(502);
+    expect(stats.rowsAfter).toBe(501);
+  });
+});
@@ -0,0 +1,442 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import busboy from 'busboy';
+import { once } from 'node:events';
+import { IncomingHttpHeaders } from 'node:http';
+import { Readable, Writable } from 'node:stream';
+import {
+  CleaningAction,
+  CsvEngineService,
+  PRE_CLEAN_ACTIONS,
+  WHOLE_FILE_ACTIONS,
+} from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvService } from './csv.service';
+import { CsvTokenizer } from './csv-tokenizer';
+import { AI_PROVIDER_NAMES, AiProviderName } from '../ai/ai.types';
+import { AiReview } from './models/ai-review.model';
+import { CleanStats } from './models/clean-csv-response.model';
+import {
+  CSV_ENCODINGS,
+  CsvDialect,
+  CsvEncoding,
+} from './models/csv-dialect.model';
+
+/** Ennyi byte-ot olvasunk be a kódolás / dialektus felismeréséhez. */
+const SNIFF_BYTES = 64 * 1024;
+/** Ennyi (előtisztított) sort küldünk mintaként az AI-nak. */
+const SAMPLE_ROWS = 50;
+
+/**
+ * A multipart feltöltés szöveges mezői (a fájl ELŐTT kell érkezniük).
+ * Ami hiányzik, azt a CsvDialectService ismeri fel.
+ */
+export interface UploadCsvOptions {
+  delimiter?: string;
+  quoteChar?: string;
+  hasHeader?: boolean;
+  encoding?: CsvEncoding;
+  aiProvider?: AiProviderName;
+  aiModel?: string;
+  /** mint a /csv/clean-nél: a profil alapú javaslatok is fussanak le */
+  applyProfileActions?: boolean;
+}
+
+export interface CsvUpload {
+  file: Readable;
+  filename: string;
+  options: UploadCsvOptions;
+}
+
+/**
+ * Az AI terv + dialektus, még az első kimeneti byte ELŐTT.
+ * A controller ebből tudja beállítani a válasz header-eit.
+ */
+export interface StreamCleanPlan {
+  aiReview: AiReview;
+  dialect: CsvDialect;
+}
+
+/**
+ * Kiírásra váró, előtisztított sorok: cellák, eredeti sorszámok és a
+ * pre-clean által már módosított sorok (a rowsChanged számításához).
+ */
+interface PendingRows {
+  rows: string[][];
+  rowNumbers: number[];
+  changed: Set<number>;
+}
+
+/**
+ * CsvStreamService:
+ * nagy fájlok tisztítása streamelve, korlátos memóriával.
+ *
+ * - a bemenetet darabonként (chunk) dekódolja és tokenizálja
+ * - minden darabra lefuttatja a PRE_CLEAN_ACTIONS lépéseket
+ * - az első SAMPLE_ROWS sorból mintát készít, és EGYSZER megkérdezi az AI-t
+ * - az AI action-öket a további darabokra is alkalmazza, és azonnal kiírja
+ *
+ * Egyszerre csak egy darab + a minta van a memóriában, így a fájlméret
+ * nem számít. Csak soronként értelmezhető action-ök futtathatók így.
+ */
+@Injectable()
+export class CsvStreamService {
+  private readonly logger = new Logger(CsvStreamService.name);
+
+  constructor(
+    private readonly csvService: CsvService,
+    private readonly csvEngine: CsvEngineService,
+    private readonly csvDialect: CsvDialectService,
+    private readonly csvProfile: CsvProfileService,
+  ) {}
+
+  /**
+   * multipart/form-data kérésből kiveszi az első fájlt és az előtte
+   * érkezett mezőket. A fájl stream-et a hívónak kell végigolvasnia.
+   */
+  parseUpload(
+    req: Readable & { headers: IncomingHttpHeaders },
+  ): Promise<CsvUpload> {
+    return new Promise<CsvUpload>((resolve, reject) => {
+      let parser: busboy.Busboy;
+      try {
+        parser = busboy({ headers: req.headers, limits: { files: 1 } });
+      } catch {
+        reject(new BadRequestException('Expected a multipart/form-data body.'));
+        return;
+      }
+
+      const fields: Record<string, string> = {};
+      let fileSeen = false;
+
+      parser.on('field', (name, value) => {
+        fields[name] = value;
+      });
+
+      parser.on('file', (_name, file, info) => {
+        fileSeen = true;
+        try {
+          resolve({
+            file,
+            filename: info.filename ?? 'upload.csv',
+            options: this.parseUploadOptions(fields),
+          });
+        } catch (error) {
+          file.resume();
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      });
+
+      parser.on('close', () => {
+        if (!fileSeen) {
+          reject(new BadRequestException('No CSV file in the upload.'));
+        }
+      });
+
+      parser.on('error', (error) => {
+        reject(
+          new BadRequestException(
+            `Invalid multipart body: ${error instanceof Error ? error.message : String(error)}`,
+          ),
+        );
+      });
+
+      req.pipe(parser);
+    });
+  }
+
+  /**
+   * Streamelt tisztítás: input → (dekódolás, tokenizálás, pre-clean, AI
+   * action-ök) → output. Az output-ot NEM zárja le, hogy a hívó még
+   * trailer-t / záró adatot írhasson bele.
+   *
+   * Az onPlan az első kiírás előtt fut le (AI válasz után).
+   */
+  async cleanStream(
+    input: AsyncIterable<Buffer>,
+    output: Writable,
+    options: UploadCsvOptions,
+    onPlan?: (plan: StreamCleanPlan) => void,
+  ): Promise<CleanStats> {
+    const iterator = input[Symbol.asyncIterator]();
+
+    // 1) Fejrész beolvasása a felismeréshez (korlátos méret)
+    const head: Buffer[] = [];
+    let headBytes = 0;
+    let inputDone = false;
+
+    while (headBytes < SNIFF_BYTES) {
+      const next = await iterator.next();
+      if (next.done) {
+        inputDone = true;
+        break;
+      }
+      head.push(next.value);
+      headBytes += next.value.length;
+    }
+
+    const headBuffer = Buffer.concat(head);
+    const encoding =
+      options.encoding ?? this.csvDialect.detectEncoding(headBuffer, inputDone);
+    const decoder = new TextDecoder(
+      encoding === 'windows-1250' ? 'windows-1250' : 'utf-8',
+    );
+    const headText = decoder.decode(headBuffer, { stream: true });
+
+    const detected = this.csvDialect.detectDialect(headText, encoding);
+    const dialect: CsvDialect = {
+      ...detected,
+      delimiter: options.delimiter ?? detected.delimiter,
+      quoteChar: options.quoteChar ?? detected.quoteChar,
+      hasHeader: options.hasHeader ?? detected.hasHeader,
+    };
+
+    // 2) Rekordok darabonként
+    const tokenizer = new CsvTokenizer(dialect.delimiter, dialect.quoteChar);
+    const batches = async function* (): AsyncGenerator<string[][]> {
+      yield tokenizer.push(headText);
+      if (!inputDone) {
+        for (let next = await iterator.next(); !next.done; ) {
+          yield tokenizer.push(decoder.decode(next.value, { stream: true }));
+          next = await iterator.next();
+        }
+      }
+      yield tokenizer.push(decoder.decode());
+      yield tokenizer.flush();
+    };
+
+    const stats: CleanStats = {
+      rowsBefore: 0,
+      rowsAfter: 0,
+      columns: 0,
+      rowsChanged: 0,
+      cellsChanged: 0,
+      rowsDropped: 0,
+      rowsFlagged: 0,
+    };
+
+    let expectedColumns: number | undefined;
+    let headerPending = dialect.hasHeader;
+    let nextRowNumber = 1;
+    let sample: PendingRows = { rows: [], rowNumbers: [], changed: new Set() };
+    let aiActions: CleaningAction[] | undefined;
+    // az (előtisztított, de az AI action-ök előtti) header a név szerinti
+    // hivatkozásokhoz a későbbi darabokban
+    let header: string[] | undefined;
+
+    const writeRows = async (
+      pending: PendingRows,
+      containsHeader: boolean,
+    ): Promise<void> => {
+      const result = this.csvEngine.applyActions(
+        pending.rows,
+        aiActions ?? [],
+        containsHeader,
+        { expectedColumns, rowNumbers: pending.rowNumbers, header },
+      );
+      // egy sor csak egyszer számít, ha a pre-clean és az AI is módosította
+      const changed = new Set([...pending.changed, ...result.changedRows]);
+      stats.rowsChanged += result.rowNumbers.filter((n) =>
+        changed.has(n),
+      ).length;
+      stats.cellsChanged += result.cellsChanged;
+      stats.rowsDropped += result.rowsDropped;
+      stats.rowsFlagged += new Set(
+        result.flaggedRows.map((f) => f.rowNumber),
+      ).size;
+      stats.rowsAfter += result.rows.length;
+
+      if (containsHeader && pending.rows.length > 0) {
+        header = pending.rows[0];
+      }
+
+      if (result.rows.length === 0) {
+        return;
+      }
+      stats.columns = result.rows[0].length;
+
+      const chunk =
+        this.csvEngine.serializeCsv(
+          result.rows,
+          dialect.delimiter,
+          dialect.quoteChar,
+          dialect.lineEnding,
+        ) + dialect.lineEnding;
+
+      if (!output.write(chunk)) {
+        await once(output, 'drain');
+      }
+    };
+
+    const planAndFlushSample = async (): Promise<void> => {
+      aiActions = await this.requestPlan(sample.rows, dialect, options, onPlan);
+      await writeRows(sample, dialect.hasHeader);
+      sample = { rows: [], rowNumbers: [], changed: new Set() };
+    };
+
+    for await (const records of batches()) {
+      if (records.length === 0) {
+        continue;
+      }
+
+      if (expectedColumns === undefined) {
+        expectedColumns = records[0].length;
+        stats.columns = expectedColumns;
+      }
+
+      stats.rowsBefore += records.length;
+
+      // 3) PRE-CLEAN erre a darabra (a header csak az első darabban van)
+      // (a sorszámok a teljes fájlra nézve folytatódnak)
+      const preCleaned = this.csvEngine.applyActions(
+        records,
+        PRE_CLEAN_ACTIONS,
+        headerPending,
+        {
+          expectedColumns,
+          rowNumbers: records.map((_, i) => nextRowNumber + i),
+        },
+      );
+      headerPending = false;
+      nextRowNumber += records.length;
+      stats.cellsChanged += preCleaned.cellsChanged;
+      stats.rowsDropped += preCleaned.rowsDropped;
+
+      // 4) Amíg nincs AI terv, gyűjtjük a mintát; utána azonnal kiírunk
+      if (aiActions === undefined) {
+        sample.rows.push(...preCleaned.rows);
+        sample.rowNumbers.push(...preCleaned.rowNumbers);
+        preCleaned.changedRows.forEach((n) => sample.changed.add(n));
+        if (sample.rows.length >= SAMPLE_ROWS) {
+          await planAndFlushSample();
+        }
+      } else {
+        await writeRows(
+          {
+            rows: preCleaned.rows,
+            rowNumbers: preCleaned.rowNumbers,
+            changed: new Set(preCleaned.changedRows),
+          },
+          false,
+        );
+      }
+    }
+
+    // rövid fájl: a teljes tartalom a mintában maradt
+    if (aiActions === undefined) {
+      await planAndFlushSample();
+    }
+
+    return stats;
+  }
+
+  /**
+   * AI terv kérése az előtisztított mintára (ugyanaz a logika, mint a
+   * nem-streamelt /csv/clean esetén). Itt a profil csak a mintáról készül,
+   * mert a teljes fájl még nincs beolvasva.
+   */
+  private async requestPlan(
+    sampleRows: string[][],
+    dialect: CsvDialect,
+    options: UploadCsvOptions,
+    onPlan?: (plan: StreamCleanPlan) => void,
+  ): Promise<CleaningAction[]> {
+    this.logger.log('CLEAN_STREAM: calling analyzeCsv (AI)...');
+
+    const profiles = this.csvProfile.profileRows(sampleRows, dialect.hasHeader);
+    const plan = await this.csvService.analyzeCsv({
+      csvSample: this.csvEngine.buildRowSample(
+        sampleRows,
+        dialect.delimiter,
+        SAMPLE_ROWS,
+      ),
+      delimiter: dialect.delimiter,
+      hasHeader: dialect.hasHeader,
+      columnProfile: this.csvProfile.summarize(profiles),
+      aiProvider: options.aiProvider,
+      aiModel: options.aiModel,
+    });
+
+    this.logger.log('CLEAN_STREAM: analyzeCsv (AI) finished OK.');
+
+    onPlan?.({
+      aiReview: {
+        explanation: plan.explanation,
+        issues: plan.issues,
+        actions: plan.actions,
+      },
+      dialect,
+    });
+
+    // a darabonként futó tisztítás nem látja a teljes fájlt (pl. duplikátumok)
+    const aiActions = this.csvEngine
+      .mapToCleaningActions(plan.actions)
+      .filter((action) => {
+        if (!WHOLE_FILE_ACTIONS.includes(action.type)) {
+          return true;
+        }
+        this.logger.warn(
+          `CLEAN_STREAM: skipping ${action.type}, it needs the whole file.`,
+        );
+        return false;
+      });
+    return options.applyProfileActions
+      ? [...aiActions, ...this.csvProfile.proposeActions(profiles, aiActions)]
+      : aiActions;
+  }
+
+  /**
+   * A multipart mezők (mind string) ellenőrzése és típusos alakra hozása.
+   */
+  private parseUploadOptions(fields: Record<string, string>): UploadCsvOptions {
+    const options: UploadCsvOptions = {};
+
+    for (const key of ['delimiter', 'quoteChar'] as const) {
+      const value = fields[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (value.length !== 1) {
+        throw new BadRequestException(`${key} must be a single character.`);
+      }
+      options[key] = value;
+    }
+
+    for (const key of ['hasHeader', 'applyProfileActions'] as const) {
+      const value = fields[key];
+      if (value === undefined) {
+        continue;
+      }
+      if (value !== 'true' && value !== 'false') {
+        throw new BadRequestException(`${key} must be "true" or "false".`);
+      }
+      options[key] = value === 'true';
+    }
+
+    if (fields.encoding !== undefined) {
+      const encoding = CSV_ENCODINGS.find((e) => e === fields.encoding);
+      if (!encoding) {
+        throw new BadRequestException(
+          `encoding must be one of: ${CSV_ENCODINGS.join(', ')}.`,
+        );
+      }
+      options.encoding = encoding;
+    }
+
+    if (fields.aiProvider !== undefined) {
+      const provider = AI_PROVIDER_NAMES.find((p) => p === fields.aiProvider);
+      if (!provider) {
+        throw new BadRequestException(
+          `aiProvider must be one of: ${AI_PROVIDER_NAMES.join(', ')}.`,
+        );
+      }
+      options.aiProvider = provider;
+    }
+
+    if (fields.aiModel) {
+      options.aiModel = fields.aiModel;
+    }
+
+    return options;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * RFC 4180 szerinti, idézőjel-tudatos CSV tokenizer.
+ *
+ * Inkrementálisan is használható: a push() tetszőleges méretű darabokat kap
+ * (pl. stream chunk-okat), és visszaadja az addig LEZÁRT rekordokat.
+ * A végén a flush() adja vissza a maradékot.
+ *
+ * Szabályok:
+ * - idézőjeles mezőben lehet delimiter, sortörés és "" (escape-elt idézőjel)
+ * - \n, \r\n és \r sorvéget is elfogad
+ * - teljesen üres sorokat kihagy
+ *
+ * Toleráns a gyakori hibákra: ha egy idézőjeles mezőben olyan idézőjel áll,
+ * amit nem delimiter / sorvég követ (pl. "Gabor "Geza" Toth"), azt literális
+ * karakternek veszi, és nem dob hibát.
+ */
+export class CsvTokenizer {
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotedField = false;
+  private pendingQuote = false;
+  private skipLineFeed = false;
+
+  constructor(
+    private readonly delimiter: string,
+    private readonly quote = '"',
+  ) {}
+
+  /**
+   * Feldolgoz egy darab szöveget, és visszaadja az ebben lezárult rekordokat.
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+
+    for (const char of chunk) {
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false;
+        if (char === '\n') {
+          continue;
+        }
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+
+        if (char === this.quote) {
+          // "" → egy darab idézőjel, maradunk az idézőjeles mezőben
+          this.field += this.quote;
+          continue;
+        }
+
+        if (char === this.delimiter || char === '\n' || char === '\r') {
+          // szabályos lezáró idézőjel → a karaktert lent kezeljük
+          this.inQuotes = false;
+        } else {
+          // toleráns ág: a magányos idézőjel a mező része volt
+          this.field += this.quote + char;
+          continue;
+        }
+      }
+
+      if (this.inQuotes) {
+        if (char === this.quote) {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === this.quote && this.field.length === 0 && !this.quotedField) {
+        this.inQuotes = true;
+        this.quotedField = true;
+      } else if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.skipLineFeed = char === '\r';
+        this.endRecord(records);
+      } else {
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Lezárja a bemenetet: visszaadja az utolsó, sorvég nélküli rekordot (ha van).
+   * Lezáratlan idézőjeles mezőt hiba helyett a maradék szövegként ad vissza.
+   */
+  flush(): string[][] {
+    const records: string[][] = [];
+
+    this.pendingQuote = false;
+    this.inQuotes = false;
+    this.skipLineFeed = false;
+
+    if (this.record.length > 0 || this.field.length > 0 || this.quotedField) {
+      this.endRecord(records);
+    }
+
+    return records;
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.quotedField = false;
+  }
+
+  private endRecord(records: string[][]): void {
+    const isBlankLine =
+      this.record.length === 0 && this.field.length === 0 && !this.quotedField;
+
+    this.endField();
+
+    if (!isBlankLine) {
+      records.push(this.record);
+    }
+
+    this.record = [];
+  }
+}
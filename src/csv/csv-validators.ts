@@ -0,0 +1,158 @@
+import type { ParseResult } from './csv-values';
+
+/**
+ * Mező-validátorok a VALIDATE_FIELD action-höz.
+ *
+ * Minden validátor egy (érték) → ParseResult függvény: érvényes értékre a
+ * normalizált alakot adja vissza (pl. telefonszám E.164-ben), érvénytelenre
+ * a hiba okát. Új validátorhoz elég a FIELD_VALIDATORS-be felvenni.
+ */
+export type FieldValidator = (value: string) => ParseResult<string>;
+
+export const FIELD_VALIDATOR_NAMES = [
+  'email',
+  'phone',
+  'url',
+  'hu-postal-code',
+  'hu-tax-number',
+  'hu-taj',
+] as const;
+
+export type FieldValidatorName = (typeof FIELD_VALIDATOR_NAMES)[number];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@.]{2,}$/;
+const E164 = /^\+[1-9]\d{7,14}$/;
+/** Magyar számok: 8 (pl. Budapest: 1 + 7 jegy) vagy 9 jegy a +36 után. */
+const HU_NATIONAL = /^\+36\d{8,9}$/;
+
+/** A magyar adószám megyekódjai (utolsó két jegy). */
+const HU_TAX_COUNTIES = new Set([
+  ...Array.from({ length: 19 }, (_, i) => i + 2),
+  ...Array.from({ length: 23 }, (_, i) => i + 22),
+  51,
+]);
+
+function ok(value: string): ParseResult<string> {
+  return { ok: true, value };
+}
+
+function fail(error: string): ParseResult<string> {
+  return { ok: false, error };
+}
+
+/** E-mail cím; a domain részt kisbetűsítjük. */
+function validateEmail(value: string): ParseResult<string> {
+  const email = value.trim();
+  if (!EMAIL.test(email)) {
+    return fail('is not a valid email address');
+  }
+  const at = email.lastIndexOf('@');
+  return ok(email.slice(0, at + 1) + email.slice(at + 1).toLowerCase());
+}
+
+/**
+ * Telefonszám → E.164 (+36301234567). Elfogadott: +36 30 123 4567,
+ * 0036 30 123 4567, 06-30-123-4567, (06 1) 234 5678. Más ország számát
+ * csak nemzetközi alakban (+ / 00) fogadjuk el.
+ */
+function validatePhone(value: string): ParseResult<string> {
+  const compact = value.trim().replace(/[\s\-/().]/g, '');
+
+  let e164: string;
+  if (compact.startsWith('+')) {
+    e164 = compact;
+  } else if (compact.startsWith('00')) {
+    e164 = '+' + compact.slice(2);
+  } else if (compact.startsWith('06')) {
+    e164 = '+36' + compact.slice(2);
+  } else {
+    return fail('is not a phone number in international or 06 format');
+  }
+
+  if (!E164.test(e164) || (e164.startsWith('+36') && !HU_NATIONAL.test(e164))) {
+    return fail('is not a valid phone number');
+  }
+
+  return ok(e164);
+}
+
+/** http(s) URL, hosttal (az értéket nem írjuk át). */
+function validateUrl(value: string): ParseResult<string> {
+  const text = value.trim();
+  try {
+    const url = new URL(text);
+    if (
+      (url.protocol === 'http:' || url.protocol === 'https:') &&
+      url.hostname.includes('.')
+    ) {
+      return ok(text);
+    }
+  } catch {
+    // lent: hiba
+  }
+  return fail('is not a valid http(s) URL');
+}
+
+/** Magyar irányítószám: 4 jegy (1000-9999), opcionális "H-" előtaggal. */
+function validateHuPostalCode(value: string): ParseResult<string> {
+  const code = value.trim().replace(/^H-?/i, '');
+  return /^[1-9]\d{3}$/.test(code)
+    ? ok(code)
+    : fail('is not a valid Hungarian postal code');
+}
+
+/**
+ * Magyar adószám (12345678-1-42): a törzsszám 8. jegye ellenőrző összeg
+ * (9, 7, 3, 1 súlyokkal), az ÁFA-kód 1-5, a megyekód érvényes.
+ * Kimenet: kötőjeles alak.
+ */
+function validateHuTaxNumber(value: string): ParseResult<string> {
+  const digits = value.trim().replace(/[\s-]/g, '');
+  if (!/^\d{11}$/.test(digits)) {
+    return fail('is not a Hungarian tax number (12345678-1-42)');
+  }
+
+  const weights = [9, 7, 3, 1, 9, 7, 3];
+  const sum = weights.reduce((acc, w, i) => acc + w * Number(digits[i]), 0);
+  if ((10 - (sum % 10)) % 10 !== Number(digits[7])) {
+    return fail('has an invalid tax number checksum');
+  }
+
+  const vatCode = Number(digits[8]);
+  const county = Number(digits.slice(9));
+  if (vatCode < 1 || vatCode > 5 || !HU_TAX_COUNTIES.has(county)) {
+    return fail('has an invalid VAT or county code');
+  }
+
+  return ok(`${digits.slice(0, 8)}-${digits[8]}-${digits.slice(9)}`);
+}
+
+/**
+ * TAJ szám: 9 jegy, a 9. ellenőrző jegy = (páratlan helyiértékek × 3 +
+ * páros helyiértékek × 7) mod 10 az első 8 jegyre. Kimenet: 9 jegy
+ * elválasztók nélkül.
+ */
+function validateHuTaj(value: string): ParseResult<string> {
+  const digits = value.trim().replace(/[\s-]/g, '');
+  if (!/^\d{9}$/.test(digits)) {
+    return fail('is not a TAJ number (9 digits)');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 3 : 7);
+  }
+
+  return sum % 10 === Number(digits[8])
+    ? ok(digits)
+    : fail('has an invalid TAJ checksum');
+}
+
+export const FIELD_VALIDATORS: Record<FieldValidatorName, FieldValidator> = {
+  email: validateEmail,
+  phone: validatePhone,
+  url: validateUrl,
+  'hu-postal-code': validateHuPostalCode,
+  'hu-tax-number': validateHuTaxNumber,
+  'hu-taj': validateHuTaj,
+};
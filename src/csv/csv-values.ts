@@ -0,0 +1,399 @@
+/**
+ * Cella-érték parserek: számok, pénzösszegek és dátumok nyelvi (locale)
+ * formátumokkal.
+ *
+ * Elv: amit nem lehet egyértelműen értelmezni (pl. "1,234" — ezres vagy
+ * tizedes elválasztó?), azt NEM találgatjuk ki, hanem hibaként adjuk vissza,
+ * és a hívó action onError szabálya dönt róla.
+ */
+
+export type ParseResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+/**
+ * Hiányzó értéket jelölő tokenek (kisbetűvel; az összevetés trimmelt,
+ * kis- / nagybetű független).
+ */
+export const DEFAULT_NULL_TOKENS: readonly string[] = [
+  'null',
+  'n/a',
+  'na',
+  '#n/a',
+  'none',
+  'nil',
+  '-',
+  'nincs',
+];
+
+/** Üres (csak whitespace) cella, vagy a tokens egyike. */
+export function isNullValue(
+  value: string,
+  tokens: readonly string[] = DEFAULT_NULL_TOKENS,
+): boolean {
+  const text = value.trim().toLowerCase();
+  return text.length === 0 || tokens.includes(text);
+}
+
+export const DECIMAL_SEPARATORS = ['.', ','] as const;
+export type DecimalSeparator = (typeof DECIMAL_SEPARATORS)[number];
+
+/** '' = nincs ezres elválasztó; ' ' bármilyen szóközt (NBSP is) jelent. */
+export const THOUSANDS_SEPARATORS = [' ', '.', ',', "'", ''] as const;
+export type ThousandsSeparator = (typeof THOUSANDS_SEPARATORS)[number];
+
+/**
+ * Számformátum. Ha semmi nincs megadva, automatikus felismerés (csak az
+ * egyértelmű alakokat fogadja el). A locale (pl. "hu-HU") az elválasztókat
+ * adja, a külön megadott elválasztók erősebbek.
+ */
+export interface NumberFormatOptions {
+  locale?: string;
+  decimalSeparator?: DecimalSeparator;
+  thousandsSeparator?: ThousandsSeparator;
+}
+
+/** Pénznem jelölések → ISO kód. */
+const CURRENCY_MARKERS: Record<string, string> = {
+  ft: 'HUF',
+  'ft.': 'HUF',
+  huf: 'HUF',
+  forint: 'HUF',
+  '€': 'EUR',
+  eur: 'EUR',
+  $: 'USD',
+  usd: 'USD',
+  '£': 'GBP',
+  gbp: 'GBP',
+  chf: 'CHF',
+};
+
+export const CURRENCY_CODES = ['HUF', 'EUR', 'USD', 'GBP', 'CHF'] as const;
+export type CurrencyCode = (typeof CURRENCY_CODES)[number];
+
+const CURRENCY_PREFIX = /^([€$£]|HUF|EUR|USD|GBP|CHF)\s*/i;
+const CURRENCY_SUFFIX = /\s*([€$£]|Ft\.?|HUF|EUR|USD|GBP|CHF|forint)$/i;
+
+/** A \s a nem törhető szóközöket (NBSP, U+202F) is lefedi. */
+const SPACES = /\s/;
+const PLAIN_NUMBER = /^\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/;
+
+/**
+ * Szám értelmezése. Elfogadja az előjelet (+, -, −), a % jelet és a
+ * pénznem jelöléseket (ezeket elhagyja): "1 234,50", "12.500 Ft", "45%".
+ */
+export function parseNumber(
+  value: string,
+  options: NumberFormatOptions = {},
+): ParseResult<number> {
+  const { text: amount, currency } = stripCurrency(
+    value.trim().replace(/%$/, '').trim(),
+  );
+  let text = amount;
+
+  let sign = 1;
+  if (/^[+\-−]/.test(text)) {
+    sign = text[0] === '+' ? 1 : -1;
+    text = text.slice(1).trim();
+  }
+
+  if (text.length === 0 || !/^[\d.,'\s]+$/.test(text)) {
+    return PLAIN_NUMBER.test(text)
+      ? { ok: true, value: sign * Number(text) }
+      : { ok: false, error: 'is not a number' };
+  }
+
+  const format = resolveNumberFormat(text, options, currency !== undefined);
+  if (!format.ok) {
+    return format;
+  }
+
+  const number = parseWithSeparators(
+    text,
+    format.value.decimal,
+    format.value.thousands,
+  );
+  return number === undefined
+    ? { ok: false, error: 'is not a number' }
+    : { ok: true, value: sign * number };
+}
+
+/**
+ * Pénzösszeg: szám + opcionális pénznem jelölés elöl vagy hátul
+ * ("12.500 Ft", "€ 1,234.50", "HUF 990").
+ */
+export function parseCurrency(
+  value: string,
+  options: NumberFormatOptions = {},
+): ParseResult<{ amount: number; currency?: string }> {
+  const { currency } = stripCurrency(value.trim());
+  const amount = parseNumber(value, options);
+
+  return amount.ok
+    ? { ok: true, value: { amount: amount.value, currency } }
+    : { ok: false, error: amount.error.replace('number', 'amount') };
+}
+
+export const DATE_INPUT_ORDERS = ['auto', 'YMD', 'DMY', 'MDY'] as const;
+export type DateInputOrder = (typeof DATE_INPUT_ORDERS)[number];
+
+export const DATE_OUTPUT_FORMATS = [
+  'YYYY-MM-DD',
+  'YYYY.MM.DD.',
+  'DD.MM.YYYY',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+] as const;
+export type DateOutputFormat = (typeof DATE_OUTPUT_FORMATS)[number];
+
+export interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const DATE =
+  /^(\d{1,4})\s*([-./])\s*(\d{1,2})\s*[-./]\s*(\d{1,4})\.?(?:[T ]\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Dátum értelmezése: 2024-03-05, 2024.03.05., 2024. 03. 05., 05.03.2024,
+ * 05/03/2024, ISO időponttal együtt (az időt elhagyjuk).
+ *
+ * "auto" esetén: az évvel kezdődő alak év-hó-nap; a pontokkal tagolt
+ * nap-hó-év; perjel / kötőjel esetén csak akkor döntünk, ha az egyik tag
+ * nagyobb 12-nél (vagy a kettő egyenlő), különben a dátum kétértelmű.
+ */
+export function parseDate(
+  value: string,
+  order: DateInputOrder = 'auto',
+): ParseResult<DateParts> {
+  const match = DATE.exec(value.trim());
+  if (!match) {
+    return { ok: false, error: 'is not a date' };
+  }
+
+  const [, first, separator, second, third] = match;
+  const a = Number(first);
+  const b = Number(second);
+  const c = Number(third);
+
+  let parts: DateParts;
+  if (first.length === 4) {
+    parts = { year: a, month: b, day: c };
+  } else if (third.length === 4) {
+    let dayFirst: boolean;
+    if (order === 'DMY' || order === 'MDY') {
+      dayFirst = order === 'DMY';
+    } else if (order === 'YMD') {
+      return { ok: false, error: 'is not a date' };
+    } else if (separator === '.' || a > 12 || a === b) {
+      dayFirst = true;
+    } else if (b > 12) {
+      dayFirst = false;
+    } else {
+      return { ok: false, error: 'is an ambiguous date (day/month order)' };
+    }
+    parts = dayFirst
+      ? { year: c, month: b, day: a }
+      : { year: c, month: a, day: b };
+  } else {
+    return { ok: false, error: 'is not a date' };
+  }
+
+  return isValidDate(parts)
+    ? { ok: true, value: parts }
+    : { ok: false, error: 'is not a valid calendar date' };
+}
+
+export function formatDate(
+  parts: DateParts,
+  format: DateOutputFormat = 'YYYY-MM-DD',
+): string {
+  const yyyy = String(parts.year).padStart(4, '0');
+  const mm = String(parts.month).padStart(2, '0');
+  const dd = String(parts.day).padStart(2, '0');
+
+  switch (format) {
+    case 'YYYY.MM.DD.':
+      return `${yyyy}.${mm}.${dd}.`;
+    case 'DD.MM.YYYY':
+      return `${dd}.${mm}.${yyyy}`;
+    case 'DD/MM/YYYY':
+      return `${dd}/${mm}/${yyyy}`;
+    case 'MM/DD/YYYY':
+      return `${mm}/${dd}/${yyyy}`;
+    default:
+      return `${yyyy}-${mm}-${dd}`;
+  }
+}
+
+/** Igaz, ha a locale-t ismeri a futtatókörnyezet (Intl). */
+export function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function stripCurrency(text: string): { text: string; currency?: string } {
+  const suffix = CURRENCY_SUFFIX.exec(text);
+  if (suffix) {
+    return {
+      text: text.slice(0, suffix.index),
+      currency: CURRENCY_MARKERS[suffix[1].toLowerCase()],
+    };
+  }
+
+  const prefix = CURRENCY_PREFIX.exec(text);
+  if (prefix) {
+    return {
+      text: text.slice(prefix[0].length),
+      currency: CURRENCY_MARKERS[prefix[1].toLowerCase()],
+    };
+  }
+
+  return { text };
+}
+
+/**
+ * A tizedes és ezres elválasztó(k) meghatározása: megadott formátum, locale,
+ * vagy automatikus felismerés az érték alapján (hasCurrency: az értéken
+ * pénznem jelölés volt).
+ */
+function resolveNumberFormat(
+  text: string,
+  options: NumberFormatOptions,
+  hasCurrency: boolean,
+): ParseResult<{ decimal: string; thousands: string[] }> {
+  if (options.locale || options.decimalSeparator) {
+    const locale = options.locale
+      ? localeSeparators(options.locale)
+      : undefined;
+    const decimal = options.decimalSeparator ?? locale?.decimal ?? '.';
+    const thousands =
+      options.thousandsSeparator !== undefined
+        ? [options.thousandsSeparator]
+        : // a locale saját jele mellett a szóköz és a "másik" írásjel is
+          // elfogadott (hu-HU: "1 234,5" és "1.234,5" is)
+          [locale?.group ?? '', ' ', decimal === ',' ? '.' : ','];
+    return { ok: true, value: { decimal, thousands } };
+  }
+
+  if (options.thousandsSeparator !== undefined) {
+    const decimal = options.thousandsSeparator === ',' ? '.' : ',';
+    return {
+      ok: true,
+      value: { decimal, thousands: [options.thousandsSeparator] },
+    };
+  }
+
+  // automatikus: csak egyértelmű esetek
+  const hasSpace = SPACES.test(text);
+  const dots = text.split('.').length - 1;
+  const commas = text.split(',').length - 1;
+
+  if (dots > 0 && commas > 0) {
+    const decimal = text.lastIndexOf('.') > text.lastIndexOf(',') ? '.' : ',';
+    return {
+      ok: true,
+      value: { decimal, thousands: [decimal === '.' ? ',' : '.', ' '] },
+    };
+  }
+
+  const separator = dots > 0 ? '.' : commas > 0 ? ',' : undefined;
+  if (separator === undefined) {
+    return { ok: true, value: { decimal: '.', thousands: [' ', "'"] } };
+  }
+
+  const count = separator === '.' ? dots : commas;
+  if (count > 1) {
+    return { ok: true, value: { decimal: '', thousands: [separator, ' '] } };
+  }
+
+  // egyetlen vessző: "1,234" lehet ezres és tizedes is, "0,5" tizedes;
+  // egyetlen pont: tizedes (mint a Number(), "47.497" / "1.234" is), de
+  // pénzösszegnél a "12.500 Ft" ugyanúgy kétértelmű, mint az "1,250 Ft"
+  const [integer, fraction] = text.split(separator);
+  const looksLikeGroup =
+    (separator === ',' || hasCurrency) &&
+    !hasSpace &&
+    fraction.length === 3 &&
+    /^[1-9]\d{0,2}$/.test(integer.trim());
+  if (looksLikeGroup) {
+    return {
+      ok: false,
+      error: 'is an ambiguous number (thousands or decimal separator?)',
+    };
+  }
+
+  return { ok: true, value: { decimal: separator, thousands: [' ', "'"] } };
+}
+
+/**
+ * Szám a megadott elválasztókkal. Az ezres csoportoknak szabályosnak kell
+ * lenniük (1-3 jegy, utána pontosan 3 jegyes csoportok).
+ */
+function parseWithSeparators(
+  text: string,
+  decimal: string,
+  thousands: string[],
+): number | undefined {
+  const [integerPart, fractionPart, ...rest] = decimal
+    ? text.split(decimal)
+    : [text];
+  if (rest.length > 0) {
+    return undefined;
+  }
+
+  const isThousands = (char: string) =>
+    thousands.includes(SPACES.test(char) ? ' ' : char);
+
+  const groups: string[] = [''];
+  for (const char of integerPart) {
+    if (/\d/.test(char)) {
+      groups[groups.length - 1] += char;
+    } else if (isThousands(char)) {
+      groups.push('');
+    } else {
+      return undefined;
+    }
+  }
+
+  const validGroups =
+    groups.length === 1
+      ? integerPart.length > 0 || (fractionPart ?? '').length > 0
+      : /^\d{1,3}$/.test(groups[0]) &&
+        groups.slice(1).every((g) => /^\d{3}$/.test(g));
+  if (!validGroups) {
+    return undefined;
+  }
+
+  if (fractionPart !== undefined && !/^\d+$/.test(fractionPart)) {
+    return undefined;
+  }
+
+  const normalized =
+    groups.join('') + (fractionPart !== undefined ? `.${fractionPart}` : '');
+  return Number(normalized || '0');
+}
+
+function localeSeparators(locale: string): { decimal: string; group: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    decimal: parts.find((p) => p.type === 'decimal')?.value ?? '.',
+    group: (parts.find((p) => p.type === 'group')?.value ?? ',').replace(
+      SPACES,
+      ' ',
+    ),
+  };
+}
+
+function isValidDate({ year, month, day }: DateParts): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
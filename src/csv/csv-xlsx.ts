@@ -0,0 +1,499 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+import type { ParseResult } from './csv-values';
+
+/**
+ * Minimális XLSX (Office Open XML) író és olvasó, külső függőség nélkül.
+ *
+ * Írás: egyetlen munkalap; a szövegek inline stringek (nincs sharedStrings
+ * tábla), a számok szám cellák; stílus, képlet, dátum-típus nincs.
+ *
+ * Olvasás: a kiválasztott munkalap cellái szövegként (megosztott és inline
+ * stringek, számok, logikai értékek, hibák). A dátum formátumú szám
+ * cellákból YYYY-MM-DD (időponttal YYYY-MM-DD HH:MM:SS) lesz; a képleteknek
+ * a mentett (cache-elt) értékét olvassuk.
+ *
+ * A ZIP konténert is itt kezeljük (deflate a zlib-ből, CRC-32 táblázattal).
+ */
+
+export type XlsxCell = string | number | null;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+/** Az XML-ben nem engedett (vagy kerülendő) vezérlőkarakterek. */
+const INVALID_XML_CHARS = /(?![\t\n\r])[\p{Cc}\uFFFE\uFFFF]/gu;
+
+/** A munkalap neve legfeljebb 31 karakter, ezek nélkül. */
+const INVALID_SHEET_NAME_CHARS = /[\\/?*[\]:]/g;
+
+export function buildXlsx(rows: XlsxCell[][], sheetName = 'Sheet1'): Buffer {
+  const name =
+    sheetName.replace(INVALID_SHEET_NAME_CHARS, ' ').trim().slice(0, 31) ||
+    'Sheet1';
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(name)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return buildZip([
+    ['[Content_Types].xml', CONTENT_TYPES],
+    ['_rels/.rels', ROOT_RELS],
+    ['xl/workbook.xml', workbook],
+    ['xl/_rels/workbook.xml.rels', WORKBOOK_RELS],
+    ['xl/worksheets/sheet1.xml', buildSheet(rows)],
+  ]);
+}
+
+function buildSheet(rows: XlsxCell[][]): string {
+  const body = rows
+    .map((row, r) => {
+      const cells = row
+        .map((value, c) => {
+          const ref = columnLetters(c) + (r + 1);
+          if (value === null || value === '') {
+            return '';
+          }
+          if (typeof value === 'number') {
+            return `<c r="${ref}"><v>${value}</v></c>`;
+          }
+          return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+}
+
+/**
+ * Munkalap kiválasztása olvasáskor: név szerint vagy 0-tól számolt index
+ * szerint; alapból az első.
+ */
+export interface XlsxSheetSelector {
+  name?: string;
+  index?: number;
+}
+
+/** Beépített dátum / idő számformátumok (numFmtId). */
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Ennyi bájtra csomagolhatja ki az olvasás a ZIP fájljait összesen: egy
+ * kicsi, de nagyon jól tömöríthető törzs sem foglalhat korlátlan memóriát.
+ */
+export const MAX_XLSX_UNPACKED_BYTES = 100 * 1024 * 1024;
+
+/**
+ * XLSX munkalap → sorok (a hiányzó cellák és a közbülső sorok üresek; a
+ * munkalap az utolsó, nem üres cellát tartalmazó sorig tart).
+ */
+export function readXlsx(
+  buffer: Buffer,
+  selector: XlsxSheetSelector = {},
+  maxUnpackedBytes = MAX_XLSX_UNPACKED_BYTES,
+): ParseResult<string[][]> {
+  let files: Map<string, Buffer>;
+  try {
+    files = readZip(buffer, maxUnpackedBytes);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      return {
+        ok: false,
+        error: `is larger than ${maxUnpackedBytes} bytes when unpacked`,
+      };
+    }
+    return { ok: false, error: 'is not a valid XLSX (zip) file' };
+  }
+  const read = (name: string) => files.get(name)?.toString('utf-8');
+
+  const workbook = read('xl/workbook.xml');
+  if (workbook === undefined) {
+    return { ok: false, error: 'is not an XLSX workbook (no xl/workbook.xml)' };
+  }
+
+  const sheets = elements(workbook, 'sheet').map((attrs) => ({
+    name: decodeXml(attr(attrs, 'name') ?? ''),
+    relationId: attr(attrs, '(?:\\w+:)?id'),
+  }));
+  const relations = new Map(
+    elements(read('xl/_rels/workbook.xml.rels') ?? '', 'Relationship').map(
+      (attrs) => [attr(attrs, 'Id'), attr(attrs, 'Target') ?? ''],
+    ),
+  );
+
+  const position =
+    selector.name !== undefined
+      ? sheets.findIndex((sheet) => sheet.name === selector.name)
+      : (selector.index ?? 0);
+  const sheet = sheets[position];
+  if (!sheet) {
+    const wanted =
+      selector.name !== undefined
+        ? `"${selector.name}"`
+        : `at index ${position}`;
+    return {
+      ok: false,
+      error: `has no sheet ${wanted} (sheets: ${sheets.map((s) => s.name).join(', ')})`,
+    };
+  }
+
+  const target = relations.get(sheet.relationId);
+  const path = target
+    ? target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`
+    : `xl/worksheets/sheet${position + 1}.xml`;
+  const sheetXml = read(path);
+  if (sheetXml === undefined) {
+    return { ok: false, error: `is missing the worksheet ${path}` };
+  }
+
+  // az üres <si/> is számít: kihagyva a későbbi indexek elcsúsznának
+  const sharedStrings = [
+    ...(read('xl/sharedStrings.xml') ?? '').matchAll(
+      /<(?:\w+:)?si\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?si>)/g,
+    ),
+  ].map((match) => textContent(match[1] ?? ''));
+  const dateStyles = readDateStyles(read('xl/styles.xml') ?? '');
+  const date1904 = /<(?:\w+:)?workbookPr\b[^>]*\bdate1904="(?:1|true)"/.test(
+    workbook,
+  );
+
+  return {
+    ok: true,
+    value: readSheet(sheetXml, sharedStrings, dateStyles, date1904),
+  };
+}
+
+function readSheet(
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+  date1904: boolean,
+): string[][] {
+  const rows: string[][] = [];
+  const rowPattern =
+    /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+  const cellPattern = /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+
+  for (const rowMatch of xml.matchAll(rowPattern)) {
+    const rowNumber = Number(attr(rowMatch[1], 'r')) || rows.length + 1;
+    const cells: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(cellPattern)) {
+      const ref = attr(cellMatch[1], 'r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      const body = cellMatch[2] ?? '';
+      const raw = /<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/.exec(body)?.[1];
+
+      let value: string;
+      switch (attr(cellMatch[1], 't')) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = textContent(body);
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'str':
+        case 'e':
+          value = decodeXml(raw ?? '');
+          break;
+        default:
+          value =
+            raw !== undefined &&
+            dateStyles.has(Number(attr(cellMatch[1], 's') ?? -1))
+              ? serialToDate(Number(raw), date1904)
+              : (raw ?? '');
+      }
+
+      while (cells.length < col) {
+        cells.push('');
+      }
+      cells[col] = value;
+    }
+
+    // a csak formázott (érték nélküli) sorokat nem töltjük fel, különben egy
+    // a munkalap végéig formázott fájlból akár millió üres sor lenne
+    if (cells.every((cell) => cell === '')) {
+      continue;
+    }
+    while (rows.length < rowNumber - 1) {
+      rows.push([]);
+    }
+    rows[rowNumber - 1] = cells;
+  }
+
+  return rows;
+}
+
+/** A dátum formátumú cellastílusok (cellXfs indexek). */
+function readDateStyles(styles: string): Set<number> {
+  const customFormats = new Map(
+    elements(styles, 'numFmt').map((attrs) => [
+      Number(attr(attrs, 'numFmtId')),
+      decodeXml(attr(attrs, 'formatCode') ?? ''),
+    ]),
+  );
+  const cellXfs =
+    /<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/.exec(
+      styles,
+    )?.[1] ?? '';
+
+  const result = new Set<number>();
+  elements(cellXfs, 'xf').forEach((attrs, index) => {
+    const id = Number(attr(attrs, 'numFmtId') ?? 0);
+    const code = customFormats.get(id);
+    if (
+      BUILTIN_DATE_FORMATS.has(id) ||
+      (code !== undefined && isDateFormatCode(code))
+    ) {
+      result.add(index);
+    }
+  });
+  return result;
+}
+
+/** Egyedi formátum: idézett szöveg, [..] és escape-elt karakter nélkül d/m/y/h/s. */
+function isDateFormatCode(code: string): boolean {
+  const bare = code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, '');
+  return bare.toLowerCase() !== 'general' && /[dmyhs]/i.test(bare);
+}
+
+/** Excel dátum-sorszám → YYYY-MM-DD (időponttal YYYY-MM-DD HH:MM:SS). */
+function serialToDate(serial: number, date1904: boolean): string {
+  if (!Number.isFinite(serial)) {
+    return String(serial);
+  }
+  const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+  // másodpercre kerekítve (a sorszám lebegőpontos)
+  const ms = Math.round(serial * 86400) * 1000;
+  const iso = new Date(epoch + ms).toISOString();
+  return ms % DAY_MS === 0
+    ? iso.slice(0, 10)
+    : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+}
+
+/** A <t> elemek szövege (a fonetikus <rPh> részek nélkül). */
+function textContent(xml: string): string {
+  return [
+    ...xml
+      .replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '')
+      .matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/(?:\w+:)?t>/g),
+  ]
+    .map((match) => decodeXml(match[1]))
+    .join('');
+}
+
+/** Az adott nevű elemek attribútum-szövegei. */
+function elements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:\\w+:)?${name}\\b([^>]*?)\\/?>`, 'g');
+  return [...xml.matchAll(pattern)].map((match) => match[1]);
+}
+
+function attr(attrs: string, name: string): string | undefined {
+  return new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attrs)?.[1];
+}
+
+/** "AB12" → 27. */
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const char of ref.toUpperCase()) {
+    if (char < 'A' || char > 'Z') {
+      break;
+    }
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+      String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16)),
+    );
+}
+
+/** 0 → A, 25 → Z, 26 → AA. */
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * ZIP archívum (deflate tömörítéssel) a megadott fájlokból. A dátum
+ * mezők fixek (1980-01-01), így a kimenet determinisztikus.
+ */
+export function buildZip(files: [string, string][]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const fileName = Buffer.from(name, 'utf-8');
+    const data = Buffer.from(content, 'utf-8');
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // verzió
+    local.writeUInt16LE(0x0800, 6); // UTF-8 fájlnév
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10); // idő
+    local.writeUInt16LE(0x21, 12); // dátum: 1980-01-01
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, compressed);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/** A CRC-32 (0xEDB88320 polinom) bájtonkénti táblázata. */
+const CRC32_TABLE = Int32Array.from({ length: 256 }, (_, byte) => {
+  let crc = byte;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc;
+});
+
+/**
+ * A ZIP-ben tárolt CRC-32 ellenőrzőösszeg. A zlib.crc32 csak Node
+ * 20.15 / 22.2 óta létezik, ezért saját implementáció.
+ */
+function crc32(data: Buffer): number {
+  let crc = -1;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ -1) >>> 0;
+}
+
+/**
+ * ZIP archívum → fájlnév → tartalom (a központi könyvtár alapján). Ha a
+ * kicsomagolt tartalom összesen maxUnpackedBytes fölé menne,
+ * ERR_BUFFER_TOO_LARGE kódú hibát dob.
+ */
+function readZip(
+  buffer: Buffer,
+  maxUnpackedBytes: number,
+): Map<string, Buffer> {
+  let end = buffer.length - 22;
+  while (end >= 0 && buffer.readUInt32LE(end) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('End of central directory not found');
+  }
+
+  const files = new Map<string, Buffer>();
+  let unpacked = 0;
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Invalid central directory entry');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const size = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const local = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString(
+      'utf-8',
+      offset + 46,
+      offset + 46 + nameLength,
+    );
+
+    const start =
+      local +
+      30 +
+      buffer.readUInt16LE(local + 26) +
+      buffer.readUInt16LE(local + 28);
+    const data = buffer.subarray(start, start + size);
+    const content =
+      method === 8
+        ? inflateRawSync(data, {
+            maxOutputLength: Math.max(1, maxUnpackedBytes - unpacked),
+          })
+        : data;
+    unpacked += content.length;
+    if (unpacked > maxUnpackedBytes) {
+      throw Object.assign(new RangeError('Unpacked XLSX is too large'), {
+        code: 'ERR_BUFFER_TOO_LARGE',
+      });
+    }
+    files.set(name, content);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
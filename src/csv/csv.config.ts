@@ -0,0 +1,12 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+
+/**
+ * CSV modul konfiguráció (.env / környezeti változók):
+ * - CSV_RECIPES_DIR: a mentett receptek könyvtára (alapból data/recipes,
+ *   a munkakönyvtárhoz képest)
+ */
+export const csvConfig = registerAs('csv', () => ({
+  recipesDir: process.env.CSV_RECIPES_DIR ?? 'data/recipes',
+}));
+
+export type CsvConfig = ConfigType<typeof csvConfig>;
@@ -1,18 +1,81 @@
+import { Readable } from 'node:stream';
 import { Test, TestingModule } from '@nestjs/testing';
+import type { Request, Response } from 'express';
 import { CsvController } from './csv.controller';
+import { CsvService } from './csv.service';
+import { AiModule } from '../ai/ai.module';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvQueryService } from './csv-query.service';
+import { CsvAggregateService } from './csv-aggregate.service';
+import { CsvJoinService } from './csv-join.service';
+import { CsvDiffService } from './csv-diff.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvExpectationService } from './csv-expectation.service';
+import { CsvStreamService } from './csv-stream.service';
+import type { StreamCleanPlan } from './csv-stream.service';
+import type { CleanStats } from './models/clean-csv-response.model';
 
 describe('CsvController', () => {
   let controller: CsvController;
+  let streamService: CsvStreamService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       controllers: [CsvController],
+      imports: [AiModule],
+      providers: [
+        CsvService,
+        CsvEngineService,
+        CsvDialectService,
+        CsvProfileService,
+        CsvQueryService,
+        CsvAggregateService,
+        CsvJoinService,
+        CsvDiffService,
+        CsvOutputService,
+        CsvExpectationService,
+        CsvStreamService,
+      ],
     }).compile();
 
     controller = module.get<CsvController>(CsvController);
+    streamService = module.get<CsvStreamService>(CsvStreamService);
   });
 
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  it('names downloads with an UTF-8 filename* and an ASCII fallback', async () => {
+    jest.spyOn(streamService, 'parseUpload').mockResolvedValue({
+      file: Readable.from([]),
+      filename: 'Árvíztűrő "fúrógép".csv',
+      options: {},
+    });
+    jest
+      .spyOn(streamService, 'cleanStream')
+      .mockImplementation((_input, _output, _options, onPlan) => {
+        onPlan?.({ aiReview: {} } as StreamCleanPlan);
+        return Promise.resolve({} as CleanStats);
+      });
+    const headers = new Map<string, unknown>();
+    const res = {
+      setHeader: (name: string, value: unknown) => headers.set(name, value),
+      addTrailers: jest.fn(),
+      end: jest.fn(),
+    };
+
+    await controller.cleanCsvUpload({} as Request, res as unknown as Response);
+
+    expect(headers.get('Content-Disposition')).toBe(
+      'attachment; filename="Arvizturo _furogep_-cleaned.csv"; ' +
+        "filename*=UTF-8''%C3%81rv%C3%ADzt%C5%B1r%C5%91%20%22f%C3%BAr%C3%B3g%C3%A9p%22-cleaned.csv",
+    );
+    expect(
+      controller.applyCsvDownload({ csv: 'a\n1', actions: [] }).getHeaders()
+        .disposition,
+    ).toBe(`attachment; filename="cleaned.csv"; filename*=UTF-8''cleaned.csv`);
+  });
 });
@@ -1,13 +1,48 @@
-import { Body, Controller, Post } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Header,
+  Logger,
+  Post,
+  Req,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
 import { CsvService } from './csv.service';
 import { AnalyzeCsvDto } from './dto/analyze-csv.dto';
 import { AnalyzeCsvResponse } from './models/analyze-csv-response.model';
 import { CleanCsvDto } from './dto/clean-csv.dto';
 import { CleanCsvResponse } from './models/clean-csv-response.model';
+import { DetectCsvDto } from './dto/detect-csv.dto';
+import { PlanCsvDto } from './dto/plan-csv.dto';
+import { ApplyCsvDto } from './dto/apply-csv.dto';
+import { ProfileCsvDto } from './dto/profile-csv.dto';
+import { QueryCsvDto } from './dto/query-csv.dto';
+import { AggregateCsvDto } from './dto/aggregate-csv.dto';
+import { JoinCsvDto } from './dto/join-csv.dto';
+import { DiffCsvDto } from './dto/diff-csv.dto';
+import { ValidateCsvDto } from './dto/validate-csv.dto';
+import type { PlanCsvResponse } from './models/plan-csv-response.model';
+import type { ApplyCsvResponse } from './models/apply-csv-response.model';
+import type { CsvDialect } from './models/csv-dialect.model';
+import type { ProfileCsvResponse } from './models/csv-profile.model';
+import type { QueryCsvResponse } from './models/query-csv-response.model';
+import type { AggregateCsvResponse } from './models/aggregate-csv-response.model';
+import type { JoinCsvResponse } from './models/join-csv-response.model';
+import type { DiffCsvResponse } from './models/diff-csv-response.model';
+import type { ValidateCsvResponse } from './models/validate-csv-response.model';
+import { CsvStreamService } from './csv-stream.service';
+import type { RenderedOutput } from './csv-output.service';
 
 @Controller('csv')
 export class CsvController {
-  constructor(private readonly csvService: CsvService) {}
+  private readonly logger = new Logger(CsvController.name);
+
+  constructor(
+    private readonly csvService: CsvService,
+    private readonly csvStreamService: CsvStreamService,
+  ) {}
 
   @Post('analyze')
   analyzeCsv(@Body() dto: AnalyzeCsvDto): Promise<AnalyzeCsvResponse> {
@@ -18,4 +53,155 @@ export class CsvController {
   cleanCsv(@Body() dto: CleanCsvDto): Promise<CleanCsvResponse> {
     return this.csvService.cleanCsv(dto);
   }
+
+  /**
+   * Ugyanaz, mint a clean, de csak a tisztított adat jön vissza,
+   * letöltésként, az outputFormat szerint (alapból CSV).
+   */
+  @Post('clean/download')
+  async cleanCsvDownload(@Body() dto: CleanCsvDto): Promise<StreamableFile> {
+    return toDownload(await this.csvService.cleanCsvDownload(dto));
+  }
+
+  @Post('plan')
+  planCsv(@Body() dto: PlanCsvDto): Promise<PlanCsvResponse> {
+    return this.csvService.planCsv(dto);
+  }
+
+  @Post('apply')
+  applyCsv(@Body() dto: ApplyCsvDto): ApplyCsvResponse {
+    return this.csvService.applyCsv(dto);
+  }
+
+  /**
+   * Ugyanaz, mint az apply, de csak a tisztított adat jön vissza,
+   * letöltésként, az outputFormat szerint (alapból CSV).
+   */
+  @Post('apply/download')
+  applyCsvDownload(@Body() dto: ApplyCsvDto): StreamableFile {
+    return toDownload(this.csvService.applyCsvDownload(dto));
+  }
+
+  /**
+   * Ugyanaz, mint az apply, de csak az eldobott sorokat adja vissza
+   * letölthető rejected.csv-ként (row_number, reason, action + cellák).
+   */
+  @Post('apply/rejected')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="rejected.csv"')
+  applyCsvRejected(@Body() dto: ApplyCsvDto): string {
+    return this.csvService.applyCsvRejected(dto);
+  }
+
+  /**
+   * Nagy fájlok: multipart/form-data feltöltés ("file" mező), a tisztított
+   * CSV letöltésként streamelve jön vissza.
+   * - X-Csv-Dialect / X-Csv-Ai-Review (base64 JSON) header: a terv
+   * - X-Csv-Stats trailer: a statisztika a stream végén
+   */
+  @Post('clean/upload')
+  async cleanCsvUpload(
+    @Req() req: Request,
+    @Res() res: Response,
+  ): Promise<void> {
+    const upload = await this.csvStreamService.parseUpload(req);
+    const downloadName =
+      upload.filename.replace(/\.csv$/i, '') + '-cleaned.csv';
+
+    try {
+      const stats = await this.csvStreamService.cleanStream(
+        upload.file,
+        res,
+        upload.options,
+        ({ aiReview, dialect }) => {
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.setHeader('Content-Disposition', attachment(downloadName));
+          res.setHeader('X-Csv-Dialect', JSON.stringify(dialect));
+          res.setHeader(
+            'X-Csv-Ai-Review',
+            Buffer.from(JSON.stringify(aiReview)).toString('base64'),
+          );
+          res.setHeader('Trailer', 'X-Csv-Stats');
+        },
+      );
+
+      res.addTrailers({ 'X-Csv-Stats': JSON.stringify(stats) });
+      res.end();
+    } catch (error) {
+      upload.file.resume();
+
+      // amíg nem írtunk semmit, a Nest rendes hibaválaszt tud adni
+      if (!res.headersSent) {
+        throw error;
+      }
+
+      this.logger.error(
+        `CLEAN_UPLOAD failed mid-stream: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      res.destroy();
+    }
+  }
+
+  @Post('profile')
+  profileCsv(@Body() dto: ProfileCsvDto): ProfileCsvResponse {
+    return this.csvService.profileCsv(dto);
+  }
+
+  @Post('query')
+  queryCsv(@Body() dto: QueryCsvDto): QueryCsvResponse {
+    return this.csvService.queryCsv(dto);
+  }
+
+  @Post('aggregate')
+  aggregateCsv(@Body() dto: AggregateCsvDto): AggregateCsvResponse {
+    return this.csvService.aggregateCsv(dto);
+  }
+
+  @Post('join')
+  joinCsv(@Body() dto: JoinCsvDto): JoinCsvResponse {
+    return this.csvService.joinCsv(dto);
+  }
+
+  @Post('diff')
+  diffCsv(@Body() dto: DiffCsvDto): DiffCsvResponse {
+    return this.csvService.diffCsv(dto);
+  }
+
+  @Post('validate')
+  validateCsv(@Body() dto: ValidateCsvDto): ValidateCsvResponse {
+    return this.csvService.validateCsv(dto);
+  }
+
+  @Post('detect')
+  detectCsv(@Body() dto: DetectCsvDto): CsvDialect {
+    return this.csvService.detectCsv(dto);
+  }
+}
+
+/** Renderelt kimenet → letöltés (Content-Type, Content-Disposition). */
+function toDownload(output: RenderedOutput): StreamableFile {
+  const content = Buffer.isBuffer(output.content)
+    ? output.content
+    : Buffer.from(output.content, 'utf-8');
+  return new StreamableFile(content, {
+    type: output.contentType,
+    disposition: attachment(output.fileName),
+    length: content.length,
+  });
+}
+
+/**
+ * Content-Disposition letöltéshez: filename* (RFC 5987) a pontos UTF-8
+ * névvel, filename ékezetek nélküli ASCII névvel a régebbi klienseknek.
+ */
+function attachment(fileName: string): string {
+  const fallback = fileName
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
 }
@@ -1,12 +1,39 @@
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 import { CsvController } from './csv.controller';
+import { CsvRecipeController } from './csv-recipe.controller';
 import { CsvService } from './csv.service';
 import { CsvEngineService } from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvStreamService } from './csv-stream.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvQueryService } from './csv-query.service';
+import { CsvAggregateService } from './csv-aggregate.service';
+import { CsvJoinService } from './csv-join.service';
+import { CsvDiffService } from './csv-diff.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvExpectationService } from './csv-expectation.service';
+import { CsvRecipeService } from './csv-recipe.service';
+import { csvConfig } from './csv.config';
 import { AiModule } from '../ai/ai.module';
 
 @Module({
-  imports: [AiModule],
-  controllers: [CsvController],
-  providers: [CsvService, CsvEngineService],
+  imports: [ConfigModule.forFeature(csvConfig), AiModule],
+  controllers: [CsvController, CsvRecipeController],
+  providers: [
+    CsvService,
+    CsvEngineService,
+    CsvDialectService,
+    CsvStreamService,
+    CsvProfileService,
+    CsvQueryService,
+    CsvAggregateService,
+    CsvJoinService,
+    CsvDiffService,
+    CsvOutputService,
+    CsvExpectationService,
+    CsvRecipeService,
+  ],
+  exports: [CsvService], // a háttér-jobok (JobsModule) is ezt futtatják
 })
 export class CsvModule {}
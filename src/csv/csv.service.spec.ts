@@ -1,18 +1,800 @@
+import { BadRequestException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { CsvService } from './csv.service';
+import { AiService } from '../ai/ai.service';
+import { AiModule } from '../ai/ai.module';
+import { CsvEngineService } from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { CsvQueryService } from './csv-query.service';
+import { CsvAggregateService } from './csv-aggregate.service';
+import { CsvJoinService } from './csv-join.service';
+import { CsvDiffService } from './csv-diff.service';
+import { CsvOutputService } from './csv-output.service';
+import { CsvExpectationService } from './csv-expectation.service';
+import { buildXlsx, buildZip, readXlsx } from './csv-xlsx';
+import { UNSAFE_REGEX_MESSAGE } from './csv-regex';
+import { AiResponseInvalidException } from './exceptions/ai-response-invalid.exception';
+import type { CleaningProgress } from './models/cleaning-progress.model';
 
 describe('CsvService', () => {
   let service: CsvService;
+  let aiService: AiService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CsvService],
+      imports: [AiModule],
+      providers: [
+        CsvService,
+        CsvEngineService,
+        CsvDialectService,
+        CsvProfileService,
+        CsvQueryService,
+        CsvAggregateService,
+        CsvJoinService,
+        CsvDiffService,
+        CsvOutputService,
+        CsvExpectationService,
+      ],
     }).compile();
 
     service = module.get<CsvService>(CsvService);
+    aiService = module.get<AiService>(AiService);
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('detectCsv', () => {
+    it('decodes Windows-1250 input and sniffs a semicolon dialect', () => {
+      const bytes = Buffer.from([
+        ...Buffer.from('ID;N', 'latin1'),
+        0xe9, // é
+        ...Buffer.from('v;\u00c9letkor\r\n1;Anna;25,5\r\n2;B', 'latin1'),
+        0xe9,
+        ...Buffer.from('la;30\r\n', 'latin1'),
+      ]);
+
+      expect(
+        service.detectCsv({ csvBase64: bytes.toString('base64') }),
+      ).toEqual({
+        delimiter: ';',
+        quoteChar: '"',
+        lineEnding: '\r\n',
+        hasHeader: true,
+        encoding: 'windows-1250',
+      });
+    });
+
+    it('recognizes a UTF-8 BOM left in JSON text', () => {
+      const dialect = service.detectCsv({ csv: '\uFEFFa,b\n1,2\n' });
+
+      expect(dialect.encoding).toBe('utf-8-bom');
+      expect(dialect.delimiter).toBe(',');
+    });
+  });
+
+  describe('analyzeCsv', () => {
+    const dto = {
+      csvSample: 'ID,Eletkor\n1,abc',
+      delimiter: ',',
+      hasHeader: true,
+    };
+
+    it('extracts a fenced JSON plan from chatty output', async () => {
+      jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValue(
+          'Sure! Here is the plan:\n```json\n{"explanation": "Age is text {sometimes}", "issues": ["bad age"], "actions": [{"type": "COERCE_NUMERIC", "column_index": 1, "on_error": "set-null"},]}\n```\nHope it helps.',
+        );
+
+      await expect(service.analyzeCsv(dto)).resolves.toEqual({
+        explanation: 'Age is text {sometimes}',
+        issues: ['bad age'],
+        actions: [
+          { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'set-null' },
+        ],
+      });
+    });
+
+    it('re-prompts the model with the validation errors', async () => {
+      const prompt = jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValueOnce(
+          '{"explanation": "x", "issues": [], "actions": [{"type": "COERCE_NUMERIC"}]}',
+        )
+        .mockResolvedValueOnce(
+          '{"explanation": "x", "issues": [], "actions": [{"type": "TRIM_WHITESPACE"}]}',
+        );
+
+      const result = await service.analyzeCsv(dto);
+
+      expect(result.actions).toEqual([{ type: 'TRIM_WHITESPACE' }]);
+      expect(prompt).toHaveBeenCalledTimes(2);
+      expect(prompt.mock.calls[1][1]).toEqual({
+        previousResponse: expect.stringContaining('COERCE_NUMERIC') as string,
+        errors: [
+          'actions[0] requires columnIndex or columnName for COERCE_NUMERIC',
+        ],
+      });
+    });
+
+    it('throws a typed error when the retries run out', async () => {
+      const prompt = jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValue(
+          '{"explanation": "x", "actions": [{"type": "DROP_TABLE"}]}',
+        );
+
+      await expect(service.analyzeCsv(dto)).rejects.toBeInstanceOf(
+        AiResponseInvalidException,
+      );
+      expect(prompt).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('cleanCsv', () => {
+    it('runs the whole pipeline offline with the mock provider', async () => {
+      const result = await service.cleanCsv({
+        csv: 'ID;Nev\n1; "Anna" \n ; \n',
+        aiProvider: 'mock',
+      });
+
+      expect(result.cleanedCsv).toBe('ID;Nev\n1;Anna');
+      expect(result.dialect.delimiter).toBe(';');
+      expect(result.stats.rowsDropped).toBe(1);
+      expect(result.stats.rowsChanged).toBe(1);
+      expect(result.audit).toBeUndefined();
+    });
+
+    it('reports the progress of every stage and action', async () => {
+      jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValue(
+          '{"explanation": "x", "issues": [], "actions": [{"type": "COERCE_NUMERIC", "column_index": 1}]}',
+        );
+      const events: CleaningProgress[] = [];
+
+      const result = await service.cleanCsv(
+        {
+          csv: 'ID,Eletkor\n1, 25 \n2,abc\n3,40',
+          expectations: [{ type: 'not-null', column: 'Eletkor' }],
+        },
+        { onProgress: (progress) => events.push(progress) },
+      );
+
+      expect(events.map((e) => e.stage)).toEqual([
+        'parse',
+        'pre-clean',
+        'sampling',
+        'ai-request',
+        'ai-response',
+        'action',
+        'validate',
+        'serialize',
+        'done',
+      ]);
+      expect(events[0].rows).toBe(4);
+      expect(events[5]).toMatchObject({
+        percent: 85,
+        action: {
+          index: 0,
+          total: 1,
+          type: 'COERCE_NUMERIC',
+          rowsChanged: 0,
+          cellsChanged: 0,
+          rowsDropped: 1,
+        },
+      });
+      expect(
+        events.every((e, i) => e.elapsedMs >= (events[i - 1]?.elapsedMs ?? 0)),
+      ).toBe(true);
+      expect(events[8]).toMatchObject({
+        percent: 100,
+        summary: {
+          stats: result.stats,
+          dialect: result.dialect,
+          actions: result.actions.length,
+          validation: { passed: true, score: 100 },
+        },
+      });
+    });
+
+    it('only suggests the profile based actions unless asked to apply them', async () => {
+      jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValue('{"explanation": "x", "issues": [], "actions": []}');
+      const dto = {
+        csv: 'ID;Ar\n1;100\n2;250\n3;120\n4;n/a\n5;ingyen\n6;80',
+      };
+      const suggestion = {
+        type: 'COERCE_NUMERIC',
+        columnIndex: 1,
+        columnName: 'Ar',
+        onError: 'set-null',
+      };
+
+      const suggested = await service.cleanCsv(dto);
+      expect(suggested.cleanedCsv).toContain('5;ingyen');
+      expect(suggested.suggestedActions).toEqual([suggestion]);
+      expect(suggested.actions).not.toContainEqual(suggestion);
+
+      const applied = await service.cleanCsv({
+        ...dto,
+        applyProfileActions: true,
+      });
+      expect(applied.cleanedCsv).toContain('5;\n');
+      expect(applied.suggestedActions).toBeUndefined();
+      expect(applied.actions).toContainEqual(suggestion);
+    });
+
+    it('stops at the next stage once the signal is aborted', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        service.cleanCsv(
+          { csv: 'ID;Nev\n1;Anna', aiProvider: 'mock' },
+          {
+            signal: controller.signal,
+            onProgress: ({ stage }) => {
+              if (stage === 'pre-clean') {
+                controller.abort(new Error('cancelled'));
+              }
+            },
+          },
+        ),
+      ).rejects.toThrow('cancelled');
+    });
+  });
+
+  describe('profileCsv', () => {
+    it('profiles every column without calling the AI', () => {
+      const prompt = jest.spyOn(aiService, 'analyzeCsvPrompt');
+
+      const result = service.profileCsv({
+        csv: 'ID;Ar\n1;100\n2;250\n3;120\n4;n/a\n5;ingyen\n6;80',
+      });
+
+      expect(prompt).not.toHaveBeenCalled();
+      expect(result.rows).toBe(6);
+      expect(result.columns.map((c) => c.inferredType)).toEqual([
+        'integer',
+        'integer',
+      ]);
+      expect(result.suggestedActions).toEqual([
+        {
+          type: 'COERCE_NUMERIC',
+          columnIndex: 1,
+          columnName: 'Ar',
+          onError: 'set-null',
+        },
+      ]);
+    });
+
+    it('detects the header with the delimiter given in the request', () => {
+      const csv = '1;2,x\n3;4,y\n5;6,z';
+
+      expect(service.profileCsv({ csv }).dialect.hasHeader).toBe(true);
+      expect(service.profileCsv({ csv, delimiter: ';' })).toMatchObject({
+        dialect: { delimiter: ';', hasHeader: false },
+        rows: 3,
+      });
+    });
+  });
+
+  describe('outputFormat', () => {
+    const csv = 'ID;Nev\n1;Anna\n2;Béla';
+    const actions = [{ type: 'TRIM_WHITESPACE' }];
+
+    it('adds the rendered output to the apply response', () => {
+      const response = service.applyCsv({
+        csv,
+        actions,
+        outputFormat: 'ndjson',
+      });
+
+      expect(response.output).toEqual({
+        format: 'ndjson',
+        contentType: 'application/x-ndjson; charset=utf-8',
+        fileName: 'cleaned.ndjson',
+        encoding: 'utf-8',
+        content: '{"ID":"1","Nev":"Anna"}\n{"ID":"2","Nev":"Béla"}\n',
+      });
+      expect(service.applyCsv({ csv, actions }).output).toBeUndefined();
+    });
+
+    it('renders downloads in the requested format, CSV by default', () => {
+      expect(service.applyCsvDownload({ csv, actions })).toMatchObject({
+        fileName: 'cleaned.csv',
+        content: csv,
+      });
+      expect(
+        service.applyCsvDownload({
+          csv,
+          actions,
+          outputFormat: 'sql',
+          tableName: 'ugyfelek',
+        }).content,
+      ).toContain('INSERT INTO "ugyfelek" ("ID", "Nev") VALUES');
+    });
+  });
+
+  describe('inputFormat', () => {
+    const actions = [{ type: 'TRIM_WHITESPACE' }];
+
+    it('reads a JSON array of objects, the keys becoming the header', () => {
+      const result = service.applyCsv({
+        csv: '[{"ID": 1, "Nev": " Anna "}, {"ID": 2, "Varos": "Pécs"}]',
+        inputFormat: 'json',
+        actions,
+      });
+
+      expect(result.cleanedCsv).toBe('ID,Nev,Varos\n1,Anna,\n2,,Pécs');
+    });
+
+    it('reads NDJSON and fixed-width text', () => {
+      expect(
+        service.profileCsv({
+          csv: '{"ID": 1, "Ar": 100}\n\n{"ID": 2, "Ar": 250}\n',
+          inputFormat: 'ndjson',
+        }).rows,
+      ).toBe(2);
+
+      const result = service.applyCsv({
+        csv: 'ID  Nev     Ar\n1   Anna    100\n2   Béla    250',
+        inputFormat: 'fixed-width',
+        columnWidths: [4, 8, 3],
+        actions,
+      });
+      expect(result.cleanedCsv).toBe('ID,Nev,Ar\n1,Anna,100\n2,Béla,250');
+    });
+
+    it('reads the selected XLSX sheet from csvBase64', () => {
+      const workbook = buildXlsx(
+        [
+          ['ID', 'Nev'],
+          [1, 'Anna'],
+        ],
+        'Ugyfelek',
+      ).toString('base64');
+
+      expect(
+        service.applyCsv({
+          csvBase64: workbook,
+          inputFormat: 'xlsx',
+          sheet: 'Ugyfelek',
+          actions,
+        }).cleanedCsv,
+      ).toBe('ID,Nev\n1,Anna');
+      expect(() =>
+        service.applyCsv({
+          csvBase64: workbook,
+          inputFormat: 'xlsx',
+          sheetIndex: 1,
+          actions,
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('stops at the last XLSX row with a value and caps the unpacked size', () => {
+      // a buildXlsx az üres sorokat cella nélküli <row>-ként írja
+      const workbook = buildXlsx([['ID', 'Nev'], [1, 'Anna'], [], [null, '']]);
+
+      expect(
+        service.applyCsv({
+          csvBase64: workbook.toString('base64'),
+          inputFormat: 'xlsx',
+          actions,
+        }).stats.rowsBefore,
+      ).toBe(2);
+      expect(readXlsx(workbook, {}, 100)).toEqual({
+        ok: false,
+        error: 'is larger than 100 bytes when unpacked',
+      });
+    });
+
+    it('keeps the shared string indexes after an empty <si/>', () => {
+      const workbook = buildZip([
+        [
+          'xl/workbook.xml',
+          '<workbook><sheets><sheet name="Lap"/></sheets></workbook>',
+        ],
+        [
+          'xl/sharedStrings.xml',
+          '<sst><si><t>ID</t></si><si/><si><t>Anna</t></si></sst>',
+        ],
+        [
+          'xl/worksheets/sheet1.xml',
+          '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c>' +
+            '<c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c>' +
+            '</row></sheetData></worksheet>',
+        ],
+      ]);
+
+      expect(readXlsx(workbook)).toEqual({
+        ok: true,
+        value: [['ID', '', 'Anna']],
+      });
+    });
+
+    it('writes the standard CRC-32 into the zip headers', () => {
+      const zip = buildZip([['a.txt', '123456789']]);
+
+      // helyi fejléc: 14. bájttól a CRC-32 (a 123456789 ellenőrző értéke)
+      expect(zip.readUInt32LE(14)).toBe(0xcbf43926);
+    });
+
+    it('rejects unreadable or incomplete input with 400', () => {
+      expect(() =>
+        service.profileCsv({ csv: '{"ID": 1}', inputFormat: 'json' }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.profileCsv({ csv: 'ID', inputFormat: 'xlsx' }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.profileCsv({ csv: 'ID  Nev', inputFormat: 'fixed-width' }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('queryCsv', () => {
+    const csv = 'ID;Nev;Kor\n1;Anna;34\n2;Béla;27\n3;Cecil;41';
+
+    it('returns JSON rows or CSV', () => {
+      const query = {
+        csv,
+        where: { column: 'Kor', op: 'gte', value: 30 },
+        sort: [{ column: 'Kor', direction: 'desc' }],
+        select: ['Nev', 'Kor'],
+      };
+
+      expect(service.queryCsv(query)).toMatchObject({
+        columns: ['Nev', 'Kor'],
+        matchedRows: 2,
+        rows: [
+          { Nev: 'Cecil', Kor: '41' },
+          { Nev: 'Anna', Kor: '34' },
+        ],
+      });
+      expect(service.queryCsv({ ...query, format: 'csv' }).csv).toBe(
+        'Nev;Kor\nCecil;41\nAnna;34',
+      );
+    });
+
+    it('rejects invalid queries and unknown columns with 400', () => {
+      expect(() =>
+        service.queryCsv({ csv, where: { column: 'Kor', op: 'between' } }),
+      ).toThrow(BadRequestException);
+      expect(() => service.queryCsv({ csv, select: ['Varos'] })).toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('rejects regex filters that could backtrack catastrophically', () => {
+      for (const value of [
+        '(a+)+$',
+        '(a|a)*$',
+        '(.*a){9}b',
+        '\\d+\\d+\\d+\\d+x',
+        '\\w+\\s?\\w+$',
+        'a'.repeat(501),
+      ]) {
+        expect(() =>
+          service.queryCsv({
+            csv,
+            where: { column: 'Nev', op: 'regex', value },
+          }),
+        ).toThrow(BadRequestException);
+      }
+
+      // nem átfedő vagy fix hosszú ismétlések maradhatnak
+      for (const value of ['^\\s*\\S+$', '[a-z]+\\d+', '^(\\d{3}){2}$']) {
+        expect(() =>
+          service.queryCsv({
+            csv,
+            where: { column: 'Nev', op: 'regex', value },
+          }),
+        ).not.toThrow();
+      }
+    });
+  });
+
+  describe('aggregateCsv', () => {
+    const csv =
+      'Varos;Statusz;Eletkor\nPécs;aktív;34\nGyőr;inaktív;27\nPécs;aktív;41';
+
+    it('returns JSON rows or CSV', () => {
+      const request = {
+        csv,
+        groupBy: ['Varos'],
+        aggregates: [{ fn: 'avg', column: 'Eletkor' }],
+      };
+
+      expect(service.aggregateCsv(request)).toMatchObject({
+        columns: ['Varos', 'avg(Eletkor)'],
+        groups: 2,
+        rows: [
+          { Varos: 'Pécs', 'avg(Eletkor)': 37.5 },
+          { Varos: 'Győr', 'avg(Eletkor)': 27 },
+        ],
+      });
+      expect(service.aggregateCsv({ ...request, format: 'csv' }).csv).toBe(
+        'Varos;avg(Eletkor)\nPécs;37.5\nGyőr;27',
+      );
+    });
+
+    it('rejects invalid aggregates and unknown columns with 400', () => {
+      expect(() =>
+        service.aggregateCsv({ csv, aggregates: [{ fn: 'avg' }] }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.aggregateCsv({
+          csv,
+          groupBy: ['Megye'],
+          aggregates: [{ fn: 'count' }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('joinCsv', () => {
+    const left = { csv: 'ID;Nev\n1;Anna\n2;Béla', keys: ['ID'] };
+    const right = {
+      csv: 'UgyfelID,Osszeg\n1,1200\n3,500',
+      delimiter: ',',
+      keys: ['UgyfelID'],
+    };
+
+    it('joins two CSVs with their own dialects', () => {
+      const result = service.joinCsv({ left, right, type: 'left' });
+
+      expect(result).toMatchObject({
+        columns: ['ID', 'Nev', 'Osszeg'],
+        stats: { leftRows: 2, rightRows: 2, outputRows: 2, matchedPairs: 1 },
+        rows: [
+          { ID: '1', Nev: 'Anna', Osszeg: '1200' },
+          { ID: '2', Nev: 'Béla', Osszeg: '' },
+        ],
+        unmatchedLeft: [{ rowNumber: 3, key: ['2'] }],
+        unmatchedRight: [{ rowNumber: 3, key: ['3'] }],
+      });
+      expect(service.joinCsv({ left, right, format: 'csv' }).csv).toBe(
+        'ID;Nev;Osszeg\n1;Anna;1200',
+      );
+    });
+
+    it('rejects mismatched or unknown keys with 400', () => {
+      expect(() =>
+        service.joinCsv({ left: { ...left, keys: ['ID', 'Nev'] }, right }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.joinCsv({ left: { ...left, keys: ['Kod'] }, right }),
+      ).toThrow(BadRequestException);
+    });
+  });
+
+  describe('diffCsv', () => {
+    const before = { csv: 'ID;Nev;Varos\n1;Anna;Pécs\n2;Béla;Győr' };
+    const after = { csv: 'ID;Nev;Varos\n1;Anna;Budapest\n3;Cecil;Eger' };
+
+    it('returns summary counts and the changed rows', () => {
+      expect(service.diffCsv({ before, after, keys: ['ID'] })).toMatchObject({
+        summary: {
+          beforeRows: 2,
+          afterRows: 2,
+          added: 1,
+          removed: 1,
+          changed: 1,
+          unchanged: 0,
+          changedCells: 1,
+        },
+        added: [{ key: ['3'], afterRowNumber: 3 }],
+        removed: [{ key: ['2'], beforeRowNumber: 3 }],
+        changed: [
+          {
+            key: ['1'],
+            changes: [{ column: 'Varos', before: 'Pécs', after: 'Budapest' }],
+          },
+        ],
+      });
+    });
+
+    it('returns an annotated CSV', () => {
+      const { csv } = service.diffCsv({
+        before,
+        after,
+        keys: ['ID'],
+        format: 'csv',
+      });
+
+      expect(csv).toBe(
+        [
+          '_diff;ID;Nev;Varos;_changes',
+          'changed;1;Anna;Budapest;Varos: Pécs → Budapest',
+          'added;3;Cecil;Eger;',
+          'removed;2;Béla;Győr;',
+        ].join('\n'),
+      );
+    });
+
+    it('rejects unknown key columns with 400', () => {
+      expect(() => service.diffCsv({ before, after, keys: ['Kod'] })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('validateCsv', () => {
+    const csv = 'ID;Kor\n1;34\n2; 17 \n2;n/a';
+
+    it('returns a report and a quality score without changing the CSV', () => {
+      const report = service.validateCsv({
+        csv,
+        expectations: [
+          { type: 'unique', column: 'ID' },
+          { type: 'row-count', min: 1 },
+        ],
+      });
+
+      expect(report.dialect.delimiter).toBe(';');
+      expect(report.passed).toBe(false);
+      expect(report.results[0].rowNumbers).toEqual([3, 4]);
+      expect(report.score).toBe(66.7);
+    });
+
+    it('rejects an invalid rule set with every error', () => {
+      expect.assertions(1);
+      try {
+        service.validateCsv({
+          csv,
+          expectations: [
+            { type: 'in-range', column: 'Kor' },
+            { type: 'matches', column: 1, pattern: '(' },
+            { type: 'matches', column: 1, pattern: '^(\\w+\\s?)*$' },
+          ],
+        });
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          errors: [
+            'expectations[0] needs min and / or max',
+            'expectations[1].pattern must be a valid regular expression',
+            `expectations[2].pattern ${UNSAFE_REGEX_MESSAGE}`,
+          ],
+        });
+      }
+    });
+
+    it('validates the cleaned rows of an apply, pointing at input rows', () => {
+      const result = service.applyCsv({
+        csv,
+        actions: [
+          { type: 'COERCE_NUMERIC', columnName: 'Kor', onError: 'drop-row' },
+        ],
+        expectations: [{ type: 'in-range', column: 'Kor', min: 18 }],
+      });
+
+      expect(result.cleanedCsv).toBe('ID;Kor\n1;34\n2;17');
+      expect(result.validation?.results[0]).toMatchObject({
+        passed: false,
+        rowNumbers: [3],
+      });
+    });
+  });
+
+  describe('planCsv / applyCsv', () => {
+    const csv = 'ID,Eletkor\n1, 25 \n2,abc\n3,40';
+
+    it('returns the action lists and a preview without applying anything else', async () => {
+      jest
+        .spyOn(aiService, 'analyzeCsvPrompt')
+        .mockResolvedValue(
+          '{"explanation": "x", "issues": [], "actions": [{"type": "COERCE_NUMERIC", "column_index": 1}]}',
+        );
+
+      const plan = await service.planCsv({ csv, previewRows: 2 });
+
+      expect(plan.preCleanActions.map((a) => a.type)).toContain(
+        'TRIM_WHITESPACE',
+      );
+      expect(plan.aiActions).toEqual([
+        { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'drop-row' },
+      ]);
+      expect(plan.preview).toEqual([
+        ['ID', 'Eletkor'],
+        ['1', '25'],
+      ]);
+    });
+
+    it('applies a hand-edited action list without calling the AI', () => {
+      const prompt = jest.spyOn(aiService, 'analyzeCsvPrompt');
+
+      const result = service.applyCsv({
+        csv,
+        actions: [
+          { type: 'TRIM_WHITESPACE' },
+          { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'set-null' },
+        ],
+      });
+
+      expect(prompt).not.toHaveBeenCalled();
+      expect(result.cleanedCsv).toBe('ID,Eletkor\n1,25\n2,\n3,40');
+      expect(result.stats.rowsDropped).toBe(0);
+    });
+
+    it('returns an audit trail and rejected.csv on request', () => {
+      const result = service.applyCsv({
+        csv,
+        audit: true,
+        actions: [
+          { type: 'TRIM_WHITESPACE' },
+          { type: 'COERCE_NUMERIC', columnIndex: 1, onError: 'drop-row' },
+        ],
+      });
+
+      expect(result.stats.rowsChanged).toBe(1);
+      expect(result.audit?.changes).toHaveLength(1);
+      expect(result.audit?.rejectedCsv).toBe(
+        'row_number,reason,action,ID,Eletkor\n' +
+          '3,"column 1: ""abc"" is not a number",COERCE_NUMERIC,2,abc',
+      );
+    });
+
+    it('rejects invalid actions with 400', () => {
+      expect(() =>
+        service.applyCsv({ csv, actions: [{ type: 'COERCE_NUMERIC' }] }),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        service.applyCsv({
+          csv,
+          actions: [
+            { type: 'REGEX_REPLACE', pattern: '(x|y*)+z', replacement: '' },
+          ],
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('validates regex patterns together with their flags', () => {
+      const replace = (pattern: string, flags?: string) =>
+        service.applyCsv({
+          csv: 'Nev\nÁrvíz-tűrő',
+          actions: [
+            { type: 'REGEX_REPLACE', pattern, flags, replacement: '_' },
+          ],
+        });
+
+      expect(replace('[\\p{L}--[a-z]]', 'gv').cleanedCsv).toBe(
+        'Nev\n_rv_z-t_r_',
+      );
+      expect.assertions(3);
+      try {
+        replace('\\-', 'u');
+      } catch (error) {
+        expect((error as BadRequestException).getResponse()).toMatchObject({
+          errors: [
+            'actions[0].pattern must be a valid regular expression with flags "u"',
+          ],
+        });
+      }
+      expect(() => replace('(a|b)+', 'gi')).toThrow(BadRequestException);
+    });
+
+    it('requires a value for constant imputation', () => {
+      expect(() =>
+        service.applyCsv({
+          csv,
+          actions: [{ type: 'IMPUTE', columnIndex: 1, strategy: 'constant' }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+
+    it('rejects references to unknown header names with 400', () => {
+      expect(() =>
+        service.applyCsv({
+          csv,
+          actions: [{ type: 'COERCE_NUMERIC', columnName: 'Kor' }],
+        }),
+      ).toThrow(BadRequestException);
+    });
+  });
 });
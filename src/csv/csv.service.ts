@@ -1,29 +1,130 @@
 import { BadRequestException, Injectable, Logger } from '@nestjs/common';
 import { AiService } from '../ai/ai.service';
+import { AiRepairContext } from '../ai/ai.types';
 import { AnalyzeCsvDto } from './dto/analyze-csv.dto';
 import { CleanCsvDto } from './dto/clean-csv.dto';
-import { AnalyzeCsvResponse } from './models/analyze-csv-response.model';
+import { CsvInputDto } from './dto/csv-input.dto';
+import {
+  AnalyzeCsvAction,
+  AnalyzeCsvResponse,
+} from './models/analyze-csv-response.model';
 import {
   CleanCsvResponse,
   CleanStats,
 } from './models/clean-csv-response.model';
 import { AiReview } from './models/ai-review.model';
-import { CsvEngineService } from './csv-engine.service';
+import {
+  ApplyActionsResult,
+  CleaningAction,
+  CsvEngineService,
+  DuplicateGroup,
+  FlaggedRow,
+  PRE_CLEAN_ACTIONS,
+} from './csv-engine.service';
+import { CsvDialectService } from './csv-dialect.service';
+import { CsvProfileService } from './csv-profile.service';
+import { DetectCsvDto } from './dto/detect-csv.dto';
+import { PlanCsvDto } from './dto/plan-csv.dto';
+import { ApplyCsvDto } from './dto/apply-csv.dto';
+import { PlanCsvResponse } from './models/plan-csv-response.model';
+import { ApplyCsvResponse } from './models/apply-csv-response.model';
+import type {
+  CsvDialect,
+  CsvEncoding,
+  CsvLineEnding,
+} from './models/csv-dialect.model';
+import { validateCleaningActions } from './cleaning-action.schema';
+import { AiResponseInvalidException } from './exceptions/ai-response-invalid.exception';
+import { CleaningAudit } from './models/cleaning-audit.model';
+import { ProfileCsvDto } from './dto/profile-csv.dto';
+import { ProfileCsvResponse } from './models/csv-profile.model';
+import { CsvQueryService } from './csv-query.service';
+import type { QueryFilter, QuerySort } from './csv-query.service';
+import { validateCsvQuery } from './csv-query.schema';
+import { QueryCsvDto } from './dto/query-csv.dto';
+import { QueryCsvResponse } from './models/query-csv-response.model';
+import { CsvAggregateService } from './csv-aggregate.service';
+import type { AggregatePivot, AggregateSpec } from './csv-aggregate.service';
+import { validateCsvAggregation } from './csv-aggregate.schema';
+import { AggregateCsvDto } from './dto/aggregate-csv.dto';
+import { AggregateCsvResponse } from './models/aggregate-csv-response.model';
+import { CsvJoinService, DEFAULT_JOIN_SUFFIXES } from './csv-join.service';
+import { validateCsvJoin } from './csv-join.schema';
+import { JoinCsvDto } from './dto/join-csv.dto';
+import { JoinCsvResponse } from './models/join-csv-response.model';
+import { CsvDiffService } from './csv-diff.service';
+import type { DiffEntry, DiffStatus } from './csv-diff.service';
+import { validateCsvDiff } from './csv-diff.schema';
+import { DiffCsvDto } from './dto/diff-csv.dto';
+import { DiffCsvResponse } from './models/diff-csv-response.model';
+import { CsvOutputService } from './csv-output.service';
+import type { RenderedOutput } from './csv-output.service';
+import { CsvOutputDto } from './dto/csv-output.dto';
+import { parseFixedWidth, parseJsonRecords, parseNdjson } from './csv-sources';
+import { readXlsx } from './csv-xlsx';
+import { CsvExpectationService } from './csv-expectation.service';
+import type { Expectation } from './csv-expectation.service';
+import { validateExpectations } from './csv-expectation.schema';
+import { ValidateCsvDto } from './dto/validate-csv.dto';
+import { ValidateCsvResponse } from './models/validate-csv-response.model';
+import { CLEANING_STAGE_PERCENT } from './models/cleaning-progress.model';
+import type {
+  CleaningProgress,
+  CleaningRunOptions,
+  CleaningStage,
+} from './models/cleaning-progress.model';
+import type { ParseResult } from './csv-values';
 
 // ---- RAW AI típusok (amit az LLM visszaküldhet) ----
 
-/* type AiRawAction = {
-  type?: unknown;
-  column_index?: unknown; // snake_case verzió
-  columnIndex?: unknown; // camelCase verzió
-}; */
-
 type AiRawResponse = {
   explanation?: unknown;
   issues?: unknown;
   actions?: unknown;
 };
 
+/**
+ * A clean / plan közös futásának eredménye (még szerializálás előtt).
+ */
+interface CleaningRun {
+  dialect: CsvDialect;
+  aiReview: AiReview;
+  aiActions: CleaningAction[];
+  profileActions: CleaningAction[];
+  finalRows: string[][];
+  finalRowNumbers: number[];
+  stats: CleanStats;
+  flaggedRows: FlaggedRow[];
+  duplicateGroups: DuplicateGroup[];
+  audit?: CleaningAudit;
+}
+
+/**
+ * Egy futás haladás-jelzője (createProgressReporter): a szakasz végén
+ * hívjuk, az eltelt időt a futás kezdetétől méri.
+ */
+type ProgressReporter = (
+  stage: CleaningStage,
+  details?: Partial<
+    Pick<CleaningProgress, 'percent' | 'rows' | 'action' | 'summary'>
+  >,
+) => void;
+
+/** A /csv/plan előnézet alapértelmezett hossza (headerrel együtt). */
+const DEFAULT_PREVIEW_ROWS = 20;
+
+/**
+ * Ennyi nyers sort küldünk az AI-nak, ha a teljes fájl oszlopprofilját is
+ * megkapja (a profil a részleteket amúgy is összefoglalja).
+ */
+const PROFILED_SAMPLE_ROWS = 10;
+
+/**
+ * Ennyiszer kérdezzük az AI-t összesen (1 eredeti + javító körök),
+ * mielőtt AiResponseInvalidException-nel feladnánk.
+ */
+const MAX_AI_ATTEMPTS = 3;
+
 @Injectable()
 export class CsvService {
   private readonly logger = new Logger(CsvService.name);
@@ -31,155 +132,695 @@ export class CsvService {
   constructor(
     private readonly aiService: AiService,
     private readonly csvEngine: CsvEngineService,
+    private readonly csvDialect: CsvDialectService,
+    private readonly csvProfile: CsvProfileService,
+    private readonly csvQuery: CsvQueryService,
+    private readonly csvAggregate: CsvAggregateService,
+    private readonly csvJoin: CsvJoinService,
+    private readonly csvDiff: CsvDiffService,
+    private readonly csvOutput: CsvOutputService,
+    private readonly csvExpectation: CsvExpectationService,
   ) {}
 
+  /**
+   * Dialektus felismerés: kódolás, delimiter, idézőjel, sorvég, header.
+   */
+  detectCsv(dto: DetectCsvDto): CsvDialect {
+    return this.resolveInput(dto).dialect;
+  }
+
   /**
    * AI-alapú elemzés: kap egy CSV mintát és metaadatokat,
-   * meghívja az AI-t, JSON-t vár, parse-olja és minimálisan validálja,
-   * majd visszaad egy AnalyzeCsvResponse struktúrát.
+   * meghívja az AI-t, JSON-t vár, parse-olja és SZIGORÚAN validálja
+   * (action típusok + paraméterek), majd visszaad egy AnalyzeCsvResponse-t.
+   *
+   * Ha a válasz nem használható, a hibákkal együtt visszaküldjük a modellnek
+   * javításra (legfeljebb MAX_AI_ATTEMPTS hívásig), utána
+   * AiResponseInvalidException-t dobunk.
    */
-  /*   async analyzeCsv(dto: AnalyzeCsvDto): Promise<AnalyzeCsvResponse> {
-    const raw = await this.aiService.analyzeCsvPrompt(dto);
+  async analyzeCsv(
+    dto: AnalyzeCsvDto,
+    signal?: AbortSignal,
+  ): Promise<AnalyzeCsvResponse> {
+    // a kihagyott dialektus-mezőket a mintából ismerjük fel
+    const needsDetection =
+      dto.delimiter === undefined || dto.hasHeader === undefined;
+    const detected = needsDetection
+      ? this.csvDialect.detectDialect(dto.csvSample)
+      : undefined;
 
-    // 1) Kivágjuk az első JSON blokkot az AI válaszból (ha dumálna is körülötte)
-    const jsonString = this.extractJsonBlock(raw);
+    const input = {
+      csvSample: dto.csvSample,
+      delimiter: dto.delimiter ?? detected?.delimiter,
+      hasHeader: dto.hasHeader ?? detected?.hasHeader,
+      columnProfile: dto.columnProfile,
+      provider: dto.aiProvider,
+      model: dto.aiModel,
+      signal,
+    };
 
-    // 1/b) Gyors "fertőtlenítés":
-    // - az AI néha JSON-ban is használ \', ami szabvány szerint érvénytelen,
-    //   ezért ezeket sima aposztrófra cseréljük.
-    const sanitizedJsonString = jsonString.replace(/\\'/g, "'");
+    let repair: AiRepairContext | undefined;
+    let errors: string[] = [];
 
-    // 2) JSON.parse + minimal type guard
-    let parsed: unknown;
-    try {
-      parsed = JSON.parse(sanitizedJsonString);
-    } catch {
-      this.logger.error(`Failed to parse AI JSON: ${sanitizedJsonString}`);
-      throw new BadRequestException(
-        'AI did not return valid JSON. Try again or adjust the prompt.',
+    for (let attempt = 1; attempt <= MAX_AI_ATTEMPTS; attempt++) {
+      const raw = await this.aiService.analyzeCsvPrompt(input, repair);
+      const result = this.parseAiResponse(raw);
+
+      if (result.response) {
+        return result.response;
+      }
+
+      errors = result.errors;
+      this.logger.warn(
+        `ANALYZE_CSV: unusable AI response (attempt ${attempt}/${MAX_AI_ATTEMPTS}): ${errors.join('; ')}`,
       );
+      repair = { previousResponse: raw, errors };
     }
 
-    if (!this.isValidAiResponse(parsed)) {
-      this.logger.error(
-        `AI JSON missing required fields: ${JSON.stringify(parsed)}`,
+    throw new AiResponseInvalidException(MAX_AI_ATTEMPTS, errors);
+  }
+
+  /**
+   * Teljes CSV-tisztítás:
+   * - AI-tól kér egy tisztítási tervet egy mintára (analyzeCsv újrahasznosítása)
+   * - parse-olja a TELJES CSV-t (CsvEngineService)
+   * - CleaningAction-ökké alakítja az AI action listát (CsvEngineService)
+   * - lefuttatja a tisztító lépéseket (CsvEngineService)
+   * - statisztikát számol
+   * - visszaadja az AiReview-t, stats-ot és a cleanedCsv-t
+   */
+  async cleanCsv(
+    dto: CleanCsvDto,
+    options: CleaningRunOptions = {},
+  ): Promise<CleanCsvResponse> {
+    // a hibás szabálylistára még az AI hívás előtt 400
+    const expectations = this.parseExpectations(dto.expectations);
+    const report = this.createProgressReporter(options);
+    const run = await this.runCleaning(dto, options, report);
+    const { delimiter, quoteChar, lineEnding } = run.dialect;
+
+    const validation = expectations
+      ? this.csvExpectation.validate(
+          run.finalRows,
+          run.dialect.hasHeader,
+          expectations,
+          run.finalRowNumbers,
+        )
+      : undefined;
+    if (validation) {
+      report('validate');
+    }
+
+    const cleanedCsv = this.csvEngine.serializeCsv(
+      run.finalRows,
+      delimiter,
+      quoteChar,
+      lineEnding,
+    );
+
+    const response: CleanCsvResponse = {
+      aiReview: run.aiReview,
+      actions: [
+        ...PRE_CLEAN_ACTIONS,
+        ...run.aiActions,
+        ...(dto.applyProfileActions ? run.profileActions : []),
+      ],
+      stats: run.stats,
+      dialect: run.dialect,
+      cleanedCsv,
+      flaggedRows: run.flaggedRows,
+      duplicateGroups: run.duplicateGroups,
+    };
+
+    if (!dto.applyProfileActions && run.profileActions.length > 0) {
+      response.suggestedActions = run.profileActions;
+    }
+
+    if (run.audit) {
+      response.audit = run.audit;
+    }
+
+    if (validation) {
+      response.validation = validation;
+    }
+
+    if (dto.outputFormat) {
+      response.output = this.csvOutput.toCsvOutput(
+        this.renderOutput(run.finalRows, run.dialect, dto),
+      );
+    }
+    report('serialize');
+
+    report('done', {
+      summary: {
+        stats: response.stats,
+        dialect: response.dialect,
+        actions: response.actions.length,
+        ...(validation
+          ? {
+              validation: {
+                passed: validation.passed,
+                score: validation.score,
+              },
+            }
+          : {}),
+      },
+    });
+    return response;
+  }
+
+  /**
+   * Mint a cleanCsv, de csak a tisztított adat, letöltésként, az
+   * outputFormat szerint (alapból CSV).
+   */
+  async cleanCsvDownload(dto: CleanCsvDto): Promise<RenderedOutput> {
+    const run = await this.runCleaning(dto);
+    return this.renderOutput(run.finalRows, run.dialect, dto);
+  }
+
+  /**
+   * Ugyanaz, mint a cleanCsv, de a tisztított CSV helyett a TERVET adja
+   * vissza (pre-clean + AI action-ök) egy rövid előnézettel.
+   * A (szerkesztett) terv az applyCsv-vel futtatható.
+   */
+  async planCsv(dto: PlanCsvDto): Promise<PlanCsvResponse> {
+    const run = await this.runCleaning(dto);
+    const previewRows = dto.previewRows ?? DEFAULT_PREVIEW_ROWS;
+
+    return {
+      aiReview: run.aiReview,
+      preCleanActions: [...PRE_CLEAN_ACTIONS],
+      aiActions: run.aiActions,
+      profileActions: run.profileActions,
+      stats: run.stats,
+      dialect: run.dialect,
+      preview: run.finalRows.slice(0, previewRows),
+    };
+  }
+
+  /**
+   * Oszloponkénti profil (típus, kitöltöttség, értékeloszlás) a teljes
+   * CSV-ről, AI nélkül, + a profil alapján javasolt action-ök.
+   */
+  profileCsv(dto: ProfileCsvDto): ProfileCsvResponse {
+    const { rows, dialect } = this.readInput(dto);
+    const columns = this.csvProfile.profileRows(
+      rows,
+      dialect.hasHeader,
+      dto.topValues,
+    );
+
+    return {
+      dialect,
+      rows: dialect.hasHeader ? Math.max(0, rows.length - 1) : rows.length,
+      columns,
+      suggestedActions: this.csvProfile.proposeActions(columns),
+    };
+  }
+
+  /**
+   * Szűrés / rendezés / lapozás / oszlop-kiválasztás a CSV-n, AI nélkül.
+   * Hibás lekérdezésre vagy ismeretlen oszlopra 400-at adunk.
+   */
+  queryCsv(dto: QueryCsvDto): QueryCsvResponse {
+    const errors = validateCsvQuery(dto);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid query.', errors });
+    }
+
+    const { rows, dialect } = this.readInput(dto);
+    const result = this.csvQuery.runQuery(rows, dialect.hasHeader, {
+      select: dto.select,
+      where: dto.where as QueryFilter | undefined,
+      sort: dto.sort as QuerySort[] | undefined,
+      limit: dto.limit,
+      offset: dto.offset,
+      locale: dto.locale,
+    });
+
+    if (result.unresolvedColumns.length > 0) {
+      throw new BadRequestException({
+        message: 'Unknown columns in query.',
+        errors: result.unresolvedColumns,
+      });
+    }
+
+    const response: QueryCsvResponse = {
+      dialect,
+      columns: result.columns,
+      matchedRows: result.matchedRows,
+    };
+
+    if (dto.format === 'csv') {
+      response.csv = this.csvEngine.serializeCsv(
+        dialect.hasHeader ? [result.columns, ...result.rows] : result.rows,
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
       );
-      throw new BadRequestException(
-        'AI response missing required fields (explanation, issues, actions).',
+    } else {
+      response.rows = result.rows.map((row) =>
+        Object.fromEntries(row.map((cell, i) => [result.columns[i], cell])),
       );
     }
 
-    // innen parsed már { explanation: string; issues: unknown[]; actions: unknown[] } típusú
-    const issues = parsed.issues.map((i: unknown) => String(i));
+    return response;
+  }
 
-    const actions: AnalyzeCsvAction[] = parsed.actions.map(
-      (a: unknown): AnalyzeCsvAction => {
-        const action = a as AiRawAction;
+  /**
+   * Csoportosítás, összesítések és pivot a CSV-n, AI nélkül.
+   * Hibás kérésre, ismeretlen oszlopra vagy túl sok pivot értékre 400-at
+   * adunk.
+   */
+  aggregateCsv(dto: AggregateCsvDto): AggregateCsvResponse {
+    const errors = validateCsvAggregation(dto);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid aggregation.',
+        errors,
+      });
+    }
 
-        let type: string;
+    const { rows, dialect } = this.readInput(dto);
+    const result = this.csvAggregate.aggregate(rows, dialect.hasHeader, {
+      groupBy: dto.groupBy,
+      aggregates: dto.aggregates as unknown as AggregateSpec[],
+      pivot: dto.pivot as AggregatePivot | undefined,
+      numberFormat: {
+        locale: dto.locale,
+        decimalSeparator: dto.decimalSeparator,
+        thousandsSeparator: dto.thousandsSeparator,
+      },
+    });
 
-        if (typeof action.type === 'string') {
-          type = action.type;
-        } else if (
-          typeof action.type === 'number' ||
-          typeof action.type === 'boolean'
-        ) {
-          type = String(action.type);
-        } else {
-          type = 'unknown';
-        }
+    if (result.errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid aggregation.',
+        errors: result.errors,
+      });
+    }
 
-        let columnIndex: number | undefined;
-        if (typeof action.column_index === 'number') {
-          columnIndex = action.column_index;
-        } else if (typeof action.columnIndex === 'number') {
-          columnIndex = action.columnIndex;
-        }
+    const response: AggregateCsvResponse = {
+      dialect,
+      columns: result.columns,
+      groups: result.rows.length,
+      nonNumericValues: result.nonNumericValues,
+    };
 
-        return {
-          type,
-          columnIndex,
-        };
+    if (dto.format === 'csv') {
+      response.csv = this.csvEngine.serializeCsv(
+        [
+          result.columns,
+          ...result.rows.map((row) =>
+            row.map((value) => (value === null ? '' : String(value))),
+          ),
+        ],
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
+      );
+    } else {
+      response.rows = result.rows.map((row) =>
+        Object.fromEntries(row.map((value, i) => [result.columns[i], value])),
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Két CSV összekapcsolása kulcsoszlopok alapján, AI nélkül.
+   * Hibás kulcsokra vagy ismeretlen oszlopra 400-at adunk.
+   */
+  joinCsv(dto: JoinCsvDto): JoinCsvResponse {
+    const errors = validateCsvJoin(dto);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid join.', errors });
+    }
+
+    const left = this.readInput(dto.left);
+    const right = this.readInput(dto.right);
+    const leftRows = left.rows;
+    const rightRows = right.rows;
+
+    const result = this.csvJoin.join(
+      {
+        rows: leftRows,
+        hasHeader: left.dialect.hasHeader,
+        keys: dto.left.keys,
+      },
+      {
+        rows: rightRows,
+        hasHeader: right.dialect.hasHeader,
+        keys: dto.right.keys,
+      },
+      {
+        type: dto.type ?? 'inner',
+        suffixes: dto.suffixes ?? DEFAULT_JOIN_SUFFIXES,
+        ignoreCase: dto.ignoreCase ?? false,
       },
     );
 
-    const response: AnalyzeCsvResponse = {
-      explanation: parsed.explanation,
-      issues,
-      actions,
+    if (result.errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Unknown key columns in join.',
+        errors: result.errors,
+      });
+    }
+
+    const dialect = left.dialect;
+    const response: JoinCsvResponse = {
+      dialect,
+      columns: result.columns,
+      stats: {
+        leftRows: leftRows.length - (dialect.hasHeader ? 1 : 0),
+        rightRows: rightRows.length - (right.dialect.hasHeader ? 1 : 0),
+        outputRows: result.rows.length,
+        matchedPairs: result.matchedPairs,
+      },
+      unmatchedLeft: result.unmatchedLeft,
+      unmatchedRight: result.unmatchedRight,
+    };
+
+    if (dto.format === 'csv') {
+      response.csv = this.csvEngine.serializeCsv(
+        dialect.hasHeader ? [result.columns, ...result.rows] : result.rows,
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
+      );
+    } else {
+      response.rows = result.rows.map((row) =>
+        Object.fromEntries(row.map((cell, i) => [result.columns[i], cell])),
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Két CSV-verzió összehasonlítása (hozzáadott / törölt / módosult sorok),
+   * AI nélkül. Hibás vagy ismeretlen kulcsoszlopra 400-at adunk.
+   */
+  diffCsv(dto: DiffCsvDto): DiffCsvResponse {
+    const errors = validateCsvDiff(dto);
+    if (errors.length > 0) {
+      throw new BadRequestException({ message: 'Invalid diff.', errors });
+    }
+
+    const before = this.readInput(dto.before);
+    const after = this.readInput(dto.after);
+    const beforeRows = before.rows;
+    const afterRows = after.rows;
+
+    const result = this.csvDiff.diff(
+      { rows: beforeRows, hasHeader: before.dialect.hasHeader },
+      { rows: afterRows, hasHeader: after.dialect.hasHeader },
+      { keys: dto.keys ?? [], alignment: dto.alignment ?? 'position' },
+    );
+
+    if (result.errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Unknown key columns in diff.',
+        errors: result.errors,
+      });
+    }
+
+    const byStatus = (status: DiffStatus): DiffEntry[] =>
+      result.entries.filter((entry) => entry.status === status);
+    const changed = byStatus('changed');
+    const dialect = after.dialect;
+
+    const response: DiffCsvResponse = {
+      dialect,
+      summary: {
+        beforeRows: beforeRows.length - (before.dialect.hasHeader ? 1 : 0),
+        afterRows: afterRows.length - (dialect.hasHeader ? 1 : 0),
+        added: byStatus('added').length,
+        removed: byStatus('removed').length,
+        changed: changed.length,
+        unchanged: byStatus('unchanged').length,
+        changedCells: changed.reduce(
+          (sum, entry) => sum + (entry.changes?.length ?? 0),
+          0,
+        ),
+      },
+      columns: result.columns,
+      addedColumns: result.addedColumns,
+      removedColumns: result.removedColumns,
     };
 
+    if (dto.format === 'csv') {
+      response.csv = this.csvEngine.serializeCsv(
+        [
+          ['_diff', ...result.columns, '_changes'],
+          ...result.entries.map((entry) => [
+            entry.status,
+            ...result.columns.map((column) => entry.values[column] ?? ''),
+            (entry.changes ?? [])
+              .map(
+                (change) =>
+                  `${change.column}: ${change.before} → ${change.after}`,
+              )
+              .join('; '),
+          ]),
+        ],
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
+      );
+    } else {
+      response.added = byStatus('added');
+      response.removed = byStatus('removed');
+      response.changed = changed;
+    }
+
     return response;
-  } */
-  async analyzeCsv(dto: AnalyzeCsvDto): Promise<AnalyzeCsvResponse> {
-    // 0. teszt: tényleg eljutunk idáig?
-    this.logger.log('ANALYZE_CSV: entered method');
+  }
 
-    // 1. teszt: csak az AI-hívásig megyünk, visszaadjuk a nyers stringet
-    const raw = await this.aiService.analyzeCsvPrompt(dto);
+  /**
+   * Adatminőségi szabályok ellenőrzése a teljes CSV-n, AI nélkül és a CSV
+   * módosítása nélkül. Hibás szabálylistára 400-at adunk; az ismeretlen
+   * oszlop nem hiba, hanem sikertelen szabály a riportban.
+   */
+  validateCsv(dto: ValidateCsvDto): ValidateCsvResponse {
+    const expectations = this.parseExpectations(dto.expectations) ?? [];
+    const { rows, dialect } = this.readInput(dto);
 
     return {
-      explanation: 'RAW TEST',
-      issues: [raw.slice(0, 100)], // első 100 karakter
-      actions: [],
+      ...this.csvExpectation.validate(rows, dialect.hasHeader, expectations),
+      dialect,
     };
   }
 
   /**
-   * Teljes CSV-tisztítás:
-   * - AI-tól kér egy tisztítási tervet egy mintára (analyzeCsv újrahasznosítása)
-   * - parse-olja a TELJES CSV-t (CsvEngineService)
-   * - CleaningAction-ökké alakítja az AI action listát (CsvEngineService)
-   * - lefuttatja a tisztító lépéseket (CsvEngineService)
-   * - statisztikát számol
-   * - visszaadja az AiReview-t, stats-ot és a cleanedCsv-t
+   * Explicit action lista futtatása a teljes CSV-n, AI nélkül.
+   * Az action-öket szigorúan validáljuk; hibás listára 400-at adunk.
    */
-  async cleanCsv(dto: CleanCsvDto): Promise<CleanCsvResponse> {
-    const delimiter = dto.delimiter ?? ',';
-    const hasHeader = dto.hasHeader ?? true;
+  applyCsv(dto: ApplyCsvDto): ApplyCsvResponse {
+    const expectations = this.parseExpectations(dto.expectations);
+    const { originalRows, result, dialect } = this.runApply(dto);
 
-    // 0) Eredeti sorok (stat-ok miatt)
-    const originalRows = this.csvEngine.parseCsv(dto.csv, delimiter);
-    const rowsBefore = originalRows.length;
-    const columns = rowsBefore > 0 ? originalRows[0].length : 0;
+    const response: ApplyCsvResponse = {
+      stats: this.buildStats(originalRows, [result]),
+      dialect,
+      cleanedCsv: this.csvEngine.serializeCsv(
+        result.rows,
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
+      ),
+      flaggedRows: result.flaggedRows,
+      duplicateGroups: result.duplicateGroups,
+    };
 
-    // 1) PRE-CLEAN: kézi, determinisztikus tisztítás – AI nélkül
-    // Itt mi döntjük el, mi legyen az a minimál készlet, amit MINDIG lefuttatunk.
-    const preCleanActions = [
-      { type: 'STRIP_WRAPPING_QUOTES' as const },
-      { type: 'TRIM_WHITESPACE' as const },
-      { type: 'REMOVE_EMPTY_ROWS' as const },
-      {
-        type: 'ENSURE_EQUAL_COLUMNS' as const,
-        mode: 'pad-with-empty' as const,
-      },
-    ];
+    if (dto.audit) {
+      response.audit = this.buildAudit(originalRows, [result], dialect);
+    }
+
+    if (dto.outputFormat) {
+      response.output = this.csvOutput.toCsvOutput(
+        this.renderOutput(result.rows, dialect, dto),
+      );
+    }
 
-    const {
-      rows: preCleanedRows,
-      rowsChanged: preChanged,
-      rowsDropped: preDropped,
-    } = this.csvEngine.applyActions(originalRows, preCleanActions, hasHeader);
+    if (expectations) {
+      response.validation = this.csvExpectation.validate(
+        result.rows,
+        dialect.hasHeader,
+        expectations,
+        result.rowNumbers,
+      );
+    }
 
-    // 2) Ebből a PRE-CLEANED CSV-ből készítünk mintát az AI-nak
-    const preCleanedCsv = this.csvEngine.serializeCsv(
+    return response;
+  }
+
+  /**
+   * Mint az applyCsv, de csak a tisztított adat, letöltésként, az
+   * outputFormat szerint (alapból CSV).
+   */
+  applyCsvDownload(dto: ApplyCsvDto): RenderedOutput {
+    const { result, dialect } = this.runApply(dto);
+    return this.renderOutput(result.rows, dialect, dto);
+  }
+
+  /**
+   * Az applyCsv eldobott sorai letölthető CSV-ként (rejected.csv).
+   */
+  applyCsvRejected(dto: ApplyCsvDto): string {
+    const response = this.applyCsv({ ...dto, audit: true });
+    return response.audit?.rejectedCsv ?? '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // ----------------------- PRIVÁT HELPER FÜGGVÉNYEK -------------------------
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Az apply közös része: validálás, parse, az action-ök futtatása.
+   * Hibás action listára vagy ismeretlen oszlopra 400-at adunk.
+   */
+  private runApply(dto: ApplyCsvDto): {
+    originalRows: string[][];
+    result: ApplyActionsResult;
+    dialect: CsvDialect;
+  } {
+    const errors = validateCleaningActions(dto.actions);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid cleaning actions.',
+        errors,
+      });
+    }
+
+    const { rows: originalRows, dialect } = this.readInput(dto);
+    const { hasHeader } = dialect;
+    const actions = this.csvEngine.mapToCleaningActions(dto.actions);
+    const result = this.csvEngine.applyActions(
+      originalRows,
+      actions,
+      hasHeader,
+      { audit: dto.audit },
+    );
+
+    if (result.unresolvedColumns.length > 0) {
+      throw new BadRequestException({
+        message: 'Unknown columns in cleaning actions.',
+        errors: result.unresolvedColumns,
+      });
+    }
+
+    return { originalRows, result, dialect };
+  }
+
+  /** A tisztított sorok az outputFormat szerint (alapból CSV). */
+  private renderOutput(
+    rows: string[][],
+    dialect: CsvDialect,
+    dto: CsvOutputDto,
+  ): RenderedOutput {
+    return this.csvOutput.render(rows, dialect, dto.outputFormat ?? 'csv', {
+      baseName: 'cleaned',
+      tableName: dto.tableName,
+    });
+  }
+
+  /**
+   * Egy futás haladás-jelzője. Minden szakaszhatáron megszakított futásnál
+   * dob (signal.reason), egyébként jelzi a haladást az eltelt idővel.
+   */
+  private createProgressReporter(
+    options: CleaningRunOptions,
+  ): ProgressReporter {
+    const started = Date.now();
+
+    return (stage, details = {}) => {
+      options.signal?.throwIfAborted();
+      options.onProgress?.({
+        stage,
+        percent: CLEANING_STAGE_PERCENT[stage],
+        elapsedMs: Date.now() - started,
+        ...details,
+      });
+    };
+  }
+
+  /** A (nyers) szabálylista validálva; hibás listára 400. */
+  private parseExpectations(
+    raw: Record<string, unknown>[] | undefined,
+  ): Expectation[] | undefined {
+    if (raw === undefined) {
+      return undefined;
+    }
+
+    const errors = validateExpectations(raw);
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid expectations.',
+        errors,
+      });
+    }
+    return raw as unknown as Expectation[];
+  }
+
+  /**
+   * A clean / plan közös része:
+   * - bemenet + dialektus, a TELJES CSV parse-olása
+   * - PRE-CLEAN (PRE_CLEAN_ACTIONS), minta az AI-nak
+   * - AI terv (analyzeCsv), leképezés CleaningAction-ökre
+   * - az AI action-ök alkalmazása, statisztika
+   */
+  private async runCleaning(
+    dto: CleanCsvDto,
+    options: CleaningRunOptions = {},
+    report = this.createProgressReporter(options),
+  ): Promise<CleaningRun> {
+    // 0) Bemenet dekódolása + dialektus (a DTO-ban megadott mezők az erősebbek)
+    // Eredeti sorok (stat-ok miatt); nem-CSV bemenetnél az átalakított sorok
+    const { rows: originalRows, dialect } = this.readInput(dto);
+    const { delimiter, hasHeader } = dialect;
+    report('parse', { rows: originalRows.length });
+
+    // 1) PRE-CLEAN: kézi, determinisztikus tisztítás – AI nélkül
+    // A minimál készletet (PRE_CLEAN_ACTIONS) mindig lefuttatjuk.
+    const preCleaned = this.csvEngine.applyActions(
+      originalRows,
+      PRE_CLEAN_ACTIONS,
+      hasHeader,
+      { audit: dto.audit },
+    );
+    const preCleanedRows = preCleaned.rows;
+    report('pre-clean');
+
+    // 2) Oszlopprofil a TELJES előtisztított adatról + rövid minta az AI-nak
+    // (rekord-alapon, hogy a többsoros cellák ne törjenek ketté)
+    const profiles = this.csvProfile.profileRows(preCleanedRows, hasHeader);
+    const sample = this.csvEngine.buildRowSample(
       preCleanedRows,
       delimiter,
+      PROFILED_SAMPLE_ROWS,
     );
-    const sample = this.csvEngine.buildSample(preCleanedCsv);
+    report('sampling');
 
     // 3) AI terv kérés a mintára – újrahasznosítjuk az analyzeCsv logikát
     const analyzeDto: AnalyzeCsvDto = {
       csvSample: sample,
       delimiter,
       hasHeader,
+      columnProfile: this.csvProfile.summarize(profiles),
+      aiProvider: dto.aiProvider,
+      aiModel: dto.aiModel,
     };
 
     this.logger.log('CLEAN_CSV: calling analyzeCsv (AI)...');
+    report('ai-request');
 
-    const plan = await this.analyzeCsv(analyzeDto); // explanation + issues + actions[]
+    // explanation + issues + actions[]
+    const plan = await this.analyzeCsv(analyzeDto, options.signal);
 
     this.logger.log('CLEAN_CSV: analyzeCsv (AI) finished OK.');
+    report('ai-response');
 
     // 4) AI review objektum – frontendnek
     const aiReview: AiReview = {
@@ -189,97 +830,427 @@ export class CsvService {
     };
 
     // 5) AI által javasolt actionök leképezése típusos CleaningAction-tömbbé
-    const aiCleaningActions = this.csvEngine.mapToCleaningActions(plan.actions);
-
-    // 6) AI action-ök alkalmazása a PRE-CLEANED sorokra
-    const {
-      rows: finalRows,
-      rowsChanged: aiChanged,
-      rowsDropped: aiDropped,
-    } = this.csvEngine.applyActions(
+    const aiActions = this.csvEngine.mapToCleaningActions(plan.actions);
+
+    // 5b) A profil alapú javaslatok közül azok, amiket az AI nem fedett le
+    const profileActions = this.csvProfile.proposeActions(profiles, aiActions);
+
+    // 6) AI (+ kérésre a profil) action-ök alkalmazása a PRE-CLEANED sorokra
+    // (a sorszámokat továbbadjuk, hogy a napló az eredeti sorokra mutasson;
+    // a haladást action-önként jelezzük, arányosan kitöltve a sávot)
+    const actions = dto.applyProfileActions
+      ? [...aiActions, ...profileActions]
+      : aiActions;
+    const { 'ai-response': from, action: to } = CLEANING_STAGE_PERCENT;
+    const cleaned = this.csvEngine.applyActions(
       preCleanedRows,
-      aiCleaningActions,
+      actions,
       hasHeader,
+      {
+        audit: dto.audit,
+        rowNumbers: preCleaned.rowNumbers,
+        onAction: (applied) =>
+          report('action', {
+            percent: Math.round(
+              from + ((to - from) * (applied.index + 1)) / actions.length,
+            ),
+            action: { ...applied, total: actions.length },
+          }),
+      },
     );
 
-    const rowsAfter = finalRows.length;
+    if (cleaned.unresolvedColumns.length > 0) {
+      this.logger.warn(
+        `CLEAN_CSV: skipped AI actions: ${cleaned.unresolvedColumns.join('; ')}`,
+      );
+    }
 
-    const stats: CleanStats = {
-      rowsBefore,
-      rowsAfter,
-      columns,
-      rowsChanged: preChanged + aiChanged,
-      rowsDropped: preDropped + aiDropped,
+    const results = [preCleaned, cleaned];
+
+    return {
+      dialect,
+      aiReview,
+      aiActions,
+      profileActions,
+      finalRows: cleaned.rows,
+      finalRowNumbers: cleaned.rowNumbers,
+      stats: this.buildStats(originalRows, results),
+      flaggedRows: this.collectFlaggedRows(results),
+      duplicateGroups: results.flatMap((r) => r.duplicateGroups),
+      audit: dto.audit
+        ? this.buildAudit(originalRows, results, dialect)
+        : undefined,
     };
+  }
 
-    const cleanedCsv = this.csvEngine.serializeCsv(finalRows, delimiter);
+  /**
+   * Statisztika egymás utáni applyActions futásokból. Egy sor csak
+   * egyszer számít változottnak, akárhány action / futás módosította.
+   */
+  private buildStats(
+    originalRows: string[][],
+    results: ApplyActionsResult[],
+  ): CleanStats {
+    const last = results[results.length - 1];
+    const changedRows = new Set(results.flatMap((r) => r.changedRows));
 
-    const response: CleanCsvResponse = {
-      aiReview,
-      stats,
-      cleanedCsv,
+    return {
+      rowsBefore: originalRows.length,
+      rowsAfter: last.rows.length,
+      // a szerkezeti action-ök után a kimenet szélessége számít
+      columns:
+        last.rows.length > 0
+          ? last.rows[0].length
+          : originalRows.length > 0
+            ? originalRows[0].length
+            : 0,
+      rowsChanged: last.rowNumbers.filter((n) => changedRows.has(n)).length,
+      cellsChanged: results.reduce((sum, r) => sum + r.cellsChanged, 0),
+      rowsDropped: results.reduce((sum, r) => sum + r.rowsDropped, 0),
+      rowsFlagged: new Set(
+        this.collectFlaggedRows(results).map((f) => f.rowNumber),
+      ).size,
     };
+  }
 
-    return response;
+  /**
+   * A jelölések azokból a sorokból, amelyek a legutolsó futás után is
+   * megmaradtak.
+   */
+  private collectFlaggedRows(results: ApplyActionsResult[]): FlaggedRow[] {
+    const kept = new Set(results[results.length - 1].rowNumbers);
+    return results
+      .flatMap((r) => r.flaggedRows)
+      .filter((f) => kept.has(f.rowNumber));
   }
 
-  // ---------------------------------------------------------------------------
-  // ----------------------- PRIVÁT HELPER FÜGGVÉNYEK -------------------------
-  // ---------------------------------------------------------------------------
+  /**
+   * Az audit: true futások naplóinak összefésülése + rejected.csv.
+   */
+  private buildAudit(
+    originalRows: string[][],
+    results: ApplyActionsResult[],
+    dialect: CsvDialect,
+  ): CleaningAudit {
+    const rejectedRows = results.flatMap((r) => r.rejectedRows ?? []);
+    const header =
+      dialect.hasHeader && originalRows.length > 0
+        ? originalRows[0]
+        : undefined;
+
+    return {
+      changes: results.flatMap((r) => r.changes ?? []),
+      rejectedRows,
+      rejectedCsv: this.csvEngine.serializeCsv(
+        this.csvEngine.buildRejectedRows(rejectedRows, header),
+        dialect.delimiter,
+        dialect.quoteChar,
+        dialect.lineEnding,
+      ),
+    };
+  }
 
   /**
-   * Megpróbálja kivágni az első JSON blokkot a nyers AI válaszból.
-   * Keres egy '{' kezdetet és az ahhoz tartozó '}' zárójelet.
+   * A bemenet sorokká alakítva + a dialektus. CSV-nél resolveInput + parse;
+   * más inputFormat-nál (xlsx, json, ndjson, fixed-width) a megfelelő
+   * olvasó, a dialektus pedig csak a kimenethez kell (alapból vessző, ").
+   * Olvashatatlan bemenetre 400-at adunk.
    */
-  private extractJsonBlock(raw: string): string {
-    // ha a modell véletlenül tényleg csak tiszta JSON-t adott
-    const trimmed = raw.trim();
-    if (trimmed.startsWith('{') && trimmed.endsWith('}')) {
-      return trimmed;
+  private readInput(dto: CsvInputDto): {
+    rows: string[][];
+    dialect: CsvDialect;
+  } {
+    const format = dto.inputFormat ?? 'csv';
+
+    if (format === 'csv') {
+      const { text, dialect } = this.resolveInput(dto);
+      return {
+        rows: this.csvEngine.parseCsv(
+          text,
+          dialect.delimiter,
+          dialect.quoteChar,
+        ),
+        dialect,
+      };
     }
 
-    const firstBrace = raw.indexOf('{');
-    const lastBrace = raw.lastIndexOf('}');
+    let parsed: ParseResult<string[][]>;
+    let encoding: CsvEncoding = 'utf-8';
+    let lineEnding: CsvLineEnding = '\n';
 
-    if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
-      this.logger.error(`No JSON object found in AI response: ${raw}`);
-      throw new BadRequestException(
-        'AI response does not contain a JSON object.',
+    if (format === 'xlsx') {
+      if (dto.csvBase64 === undefined) {
+        throw new BadRequestException('xlsx input must be sent in csvBase64.');
+      }
+      parsed = readXlsx(Buffer.from(dto.csvBase64, 'base64'), {
+        name: dto.sheet,
+        index: dto.sheetIndex,
+      });
+    } else {
+      const decoded = this.decodeInput(dto);
+      encoding = decoded.encoding ?? 'utf-8';
+
+      if (format === 'json') {
+        parsed = parseJsonRecords(decoded.text);
+      } else if (format === 'ndjson') {
+        parsed = parseNdjson(decoded.text);
+      } else {
+        if (!dto.columnWidths) {
+          throw new BadRequestException(
+            'columnWidths is required for fixed-width input.',
+          );
+        }
+        lineEnding = this.csvDialect.detectLineEnding(decoded.text);
+        parsed = {
+          ok: true,
+          value: parseFixedWidth(decoded.text, dto.columnWidths),
+        };
+      }
+    }
+
+    if (!parsed.ok) {
+      throw new BadRequestException(`The ${format} input ${parsed.error}.`);
+    }
+
+    const rows = parsed.value;
+    // a JSON kulcsaiból mindig header lesz
+    const keyed = format === 'json' || format === 'ndjson';
+
+    return {
+      rows,
+      dialect: {
+        delimiter: dto.delimiter ?? ',',
+        quoteChar: dto.quoteChar ?? '"',
+        lineEnding,
+        hasHeader:
+          keyed || (dto.hasHeader ?? this.csvDialect.detectHeader(rows)),
+        encoding,
+      },
+    };
+  }
+
+  /**
+   * A bemenetet szöveggé alakítja (base64 esetén kódolás-felismeréssel),
+   * majd felismeri a dialektust. A DTO-ban megadott mezők felülírják
+   * a felismert értékeket.
+   */
+  private resolveInput(dto: CsvInputDto): {
+    text: string;
+    dialect: CsvDialect;
+  } {
+    const { text, encoding } = this.decodeInput(dto);
+    const detected = this.csvDialect.detectDialect(text, encoding ?? 'utf-8');
+
+    const delimiter = dto.delimiter ?? detected.delimiter;
+    const quoteChar = dto.quoteChar ?? detected.quoteChar;
+    // felülírt delimiter / idézőjel mellett a headert is azzal tagolva
+    // ismerjük fel, nem a (rosszul) felismert dialektussal
+    const overridden =
+      delimiter !== detected.delimiter || quoteChar !== detected.quoteChar;
+
+    const dialect: CsvDialect = {
+      ...detected,
+      delimiter,
+      quoteChar,
+      hasHeader:
+        dto.hasHeader ??
+        (overridden
+          ? this.csvDialect.detectHeaderWith(text, delimiter, quoteChar)
+          : detected.hasHeader),
+    };
+
+    return { text, dialect };
+  }
+
+  /**
+   * A bemenet szövegként: base64 esetén kódolás-felismeréssel, szövegnél
+   * a bent maradt BOM levágásával.
+   */
+  private decodeInput(dto: CsvInputDto): {
+    text: string;
+    encoding?: CsvEncoding;
+  } {
+    if (dto.csvBase64 !== undefined) {
+      return this.csvDialect.decode(
+        Buffer.from(dto.csvBase64, 'base64'),
+        dto.encoding,
       );
     }
 
-    const jsonCandidate = raw.slice(firstBrace, lastBrace + 1).trim();
-    return jsonCandidate;
+    const text = dto.csv ?? '';
+    if (text.startsWith('\uFEFF')) {
+      // JSON-ben érkezett, de a BOM benne maradt a szövegben
+      return { text: text.slice(1), encoding: dto.encoding ?? 'utf-8-bom' };
+    }
+    return { text, encoding: dto.encoding };
   }
 
   /**
-   * Type guard: ellenőrizzük, hogy explanation string, issues/actions tömbök.
-   * Ha ez igaz, a hívó oldalon a value már:
-   * { explanation: string; issues: unknown[]; actions: unknown[] } típusú lesz.
+   * Nyers AI válasz → AnalyzeCsvResponse, vagy a hibák listája
+   * (ezeket küldjük vissza a modellnek javításra).
+   */
+  private parseAiResponse(raw: string): {
+    response?: AnalyzeCsvResponse;
+    errors: string[];
+  } {
+    // 1) Kivágjuk az első JSON blokkot az AI válaszból (ha dumálna is körülötte)
+    const jsonString = this.extractJsonBlock(raw);
+    if (jsonString === undefined) {
+      return { errors: ['The answer does not contain a JSON object.'] };
+    }
+
+    // 1/b) Gyors "fertőtlenítés":
+    // - az AI néha JSON-ban is használ \', ami szabvány szerint érvénytelen,
+    //   ezért ezeket sima aposztrófra cseréljük
+    // - a lezáró zárójelek előtti felesleges vesszőket eldobjuk
+    const sanitizedJsonString = jsonString
+      .replace(/\\'/g, "'")
+      .replace(/,(\s*[}\]])/g, '$1');
+
+    // 2) JSON.parse + séma ellenőrzés
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(sanitizedJsonString);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return { errors: [`The JSON object is not valid JSON: ${reason}`] };
+    }
+
+    if (!this.isValidAiResponse(parsed)) {
+      return { errors: this.collectAiResponseErrors(parsed) };
+    }
+
+    // snake_case (column_index, on_error) → camelCase, ahogy a motor várja
+    const actions = parsed.actions.map((a) => this.normalizeActionKeys(a));
+
+    const errors = validateCleaningActions(actions);
+    if (errors.length > 0) {
+      return { errors };
+    }
+
+    return {
+      response: {
+        explanation: parsed.explanation,
+        issues: parsed.issues,
+        // a séma-ellenőrzés után minden elem { type: string, ... } objektum
+        actions: actions as AnalyzeCsvAction[],
+      },
+      errors: [],
+    };
+  }
+
+  /**
+   * Megpróbálja kivágni az első JSON blokkot a nyers AI válaszból.
+   * - ```json ... ``` kerítésen belül keres, ha van
+   * - az első '{'-től a hozzá tartozó '}'-ig olvas (stringeken belüli
+   *   zárójeleket figyelmen kívül hagyva), így a JSON utáni "dumát" levágja
+   */
+  private extractJsonBlock(raw: string): string | undefined {
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(raw);
+    const text = fenced ? fenced[1] : raw;
+
+    const start = text.indexOf('{');
+    if (start === -1) {
+      this.logger.error(`No JSON object found in AI response: ${raw}`);
+      return undefined;
+    }
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0) {
+          return text.slice(start, i + 1);
+        }
+      }
+    }
+
+    // lezáratlan objektum: a JSON.parse majd pontos hibát ad róla
+    return text.slice(start).trim();
+  }
+
+  /**
+   * Type guard: ellenőrizzük, hogy explanation string, issues string-tömb,
+   * actions tömb. Ha ez igaz, a hívó oldalon a value már:
+   * { explanation: string; issues: string[]; actions: unknown[] } típusú lesz.
    */
   private isValidAiResponse(value: unknown): value is {
     explanation: string;
-    issues: unknown[];
+    issues: string[];
     actions: unknown[];
   } {
-    if (typeof value !== 'object' || value === null) {
-      return false;
+    return this.collectAiResponseErrors(value).length === 0;
+  }
+
+  /**
+   * A felső szintű JSON shape hibái, a modellnek is érthető formában.
+   */
+  private collectAiResponseErrors(value: unknown): string[] {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return ['The answer must be a single JSON object.'];
     }
 
     const obj = value as AiRawResponse;
+    const errors: string[] = [];
 
     if (typeof obj.explanation !== 'string') {
-      return false;
+      errors.push('"explanation" must be a string.');
     }
 
     if (!Array.isArray(obj.issues)) {
-      return false;
+      errors.push('"issues" must be an array of strings.');
+    } else if (obj.issues.some((issue) => typeof issue !== 'string')) {
+      errors.push('Every item of "issues" must be a string.');
     }
 
     if (!Array.isArray(obj.actions)) {
-      return false;
+      errors.push('"actions" must be an array of objects.');
+    }
+
+    return errors;
+  }
+
+  /**
+   * snake_case kulcsok (column_index, on_error) → camelCase.
+   * Nem-objektum elemeket változatlanul hagyunk, azokat a séma jelzi.
+   */
+  private normalizeActionKeys(action: unknown): unknown {
+    if (
+      typeof action !== 'object' ||
+      action === null ||
+      Array.isArray(action)
+    ) {
+      return action;
+    }
+
+    const normalized: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(action)) {
+      const camelKey = key.replace(/_([a-z])/g, (_, c: string) =>
+        c.toUpperCase(),
+      );
+      normalized[camelKey] = value;
     }
 
-    return true;
+    return normalized;
   }
 }
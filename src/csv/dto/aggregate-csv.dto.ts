@@ -0,0 +1,45 @@
+import { IsArray, IsIn, IsObject, IsOptional, IsString } from 'class-validator';
+import { DECIMAL_SEPARATORS, THOUSANDS_SEPARATORS } from '../csv-values';
+import type { DecimalSeparator, ThousandsSeparator } from '../csv-values';
+import { CsvInputDto } from './csv-input.dto';
+import { QUERY_OUTPUT_FORMATS } from './query-csv.dto';
+import type { QueryOutputFormat } from './query-csv.dto';
+
+/**
+ * A /csv/aggregate bemenete: CSV + csoportosítás, összesítések és
+ * opcionális pivot. A részleteket a validateCsvAggregation ellenőrzi.
+ */
+export class AggregateCsvDto extends CsvInputDto {
+  /** Csoportosító oszlopok (név vagy index); üresen egyetlen összesítő sor. */
+  @IsOptional()
+  @IsArray()
+  groupBy?: (string | number)[];
+
+  /** Összesítések: { fn, column?, as?, decimals? }. */
+  @IsArray()
+  @IsObject({ each: true })
+  aggregates: Record<string, unknown>[];
+
+  /** { column, values? }: a column értékei külön oszlopokká válnak. */
+  @IsOptional()
+  @IsObject()
+  pivot?: Record<string, unknown>;
+
+  /** Számformátum, mint a COERCE_NUMERIC-nél (pl. "hu-HU"). */
+  @IsOptional()
+  @IsString()
+  locale?: string;
+
+  @IsOptional()
+  @IsIn(DECIMAL_SEPARATORS)
+  decimalSeparator?: DecimalSeparator;
+
+  @IsOptional()
+  @IsIn(THOUSANDS_SEPARATORS)
+  thousandsSeparator?: ThousandsSeparator;
+
+  /** json: rows objektumokként; csv: az eredmény CSV szövegként. */
+  @IsOptional()
+  @IsIn(QUERY_OUTPUT_FORMATS)
+  format?: QueryOutputFormat;
+}
@@ -1,4 +1,12 @@
-import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { AI_PROVIDER_NAMES } from '../../ai/ai.types';
+import type { AiProviderName } from '../../ai/ai.types';
 
 export class AnalyzeCsvDto {
   @IsString()
@@ -12,4 +20,23 @@ export class AnalyzeCsvDto {
   @IsOptional()
   @IsBoolean()
   hasHeader?: boolean;
+
+  /**
+   * Tömör oszlopprofil (CsvProfileService.summarize) a TELJES fájlról;
+   * ha meg van adva, az AI ezt is megkapja a minta mellé.
+   */
+  @IsOptional()
+  @IsString()
+  columnProfile?: string;
+
+  /** Kérésenkénti AI backend (alapértelmezés: AI_PROVIDER). */
+  @IsOptional()
+  @IsIn(AI_PROVIDER_NAMES)
+  aiProvider?: AiProviderName;
+
+  /** Kérésenkénti modell (alapértelmezés: AI_MODEL). */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  aiModel?: string;
 }
@@ -0,0 +1,27 @@
+import { IsArray, IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { CsvOutputDto } from './csv-output.dto';
+
+/**
+ * A /csv/apply bemenete: CSV + egy explicit (akár kézzel szerkesztett)
+ * CleaningAction lista. Pontosan ezeket futtatjuk, AI és implicit
+ * előtisztítás nélkül.
+ */
+export class ApplyCsvDto extends CsvOutputDto {
+  @IsArray()
+  @IsObject({ each: true })
+  actions: Record<string, unknown>[];
+
+  /** true: cellánkénti változásnapló + eldobott sorok a válaszban. */
+  @IsOptional()
+  @IsBoolean()
+  audit?: boolean;
+
+  /**
+   * Adatminőségi szabályok (mint a /csv/validate-nél), amelyeket a
+   * tisztított adaton ellenőrzünk; a riport a validation mezőbe kerül.
+   */
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  expectations?: Record<string, unknown>[];
+}
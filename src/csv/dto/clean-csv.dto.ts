@@ -1,15 +1,47 @@
-import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { AI_PROVIDER_NAMES } from '../../ai/ai.types';
+import type { AiProviderName } from '../../ai/ai.types';
+import { CsvOutputDto } from './csv-output.dto';
 
-export class CleanCsvDto {
+export class CleanCsvDto extends CsvOutputDto {
+  /** Kérésenkénti AI backend (alapértelmezés: AI_PROVIDER). */
+  @IsOptional()
+  @IsIn(AI_PROVIDER_NAMES)
+  aiProvider?: AiProviderName;
+
+  /** Kérésenkénti modell (alapértelmezés: AI_MODEL). */
+  @IsOptional()
   @IsString()
   @IsNotEmpty()
-  csv: string;
+  aiModel?: string;
 
+  /** true: cellánkénti változásnapló + eldobott sorok a válaszban. */
   @IsOptional()
-  @IsString()
-  delimiter?: string;
+  @IsBoolean()
+  audit?: boolean;
 
+  /**
+   * true: az oszlopprofil alapján javasolt (az AI által le nem fedett)
+   * action-ök is lefutnak; alapból csak javaslatok (suggestedActions).
+   */
   @IsOptional()
   @IsBoolean()
-  hasHeader?: boolean;
+  applyProfileActions?: boolean;
+
+  /**
+   * Adatminőségi szabályok (mint a /csv/validate-nél), amelyeket a
+   * tisztított adaton ellenőrzünk; a riport a validation mezőbe kerül.
+   */
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  expectations?: Record<string, unknown>[];
 }
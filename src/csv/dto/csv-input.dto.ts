@@ -0,0 +1,19 @@
+import { IsBase64, IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+import { CsvReadOptionsDto } from './csv-read-options.dto';
+
+/**
+ * Egy CSV (vagy más inputFormat-ú) bemenet + az olvasás beállításai.
+ * A bemenet, mint a /csv/detect-nél: szövegként (csv) vagy nyers
+ * byte-okként base64-ben (csvBase64).
+ */
+export class CsvInputDto extends CsvReadOptionsDto {
+  @ValidateIf((dto: CsvInputDto) => dto.csvBase64 === undefined)
+  @IsString()
+  @IsNotEmpty()
+  csv?: string;
+
+  @ValidateIf((dto: CsvInputDto) => dto.csv === undefined)
+  @IsBase64()
+  @IsNotEmpty()
+  csvBase64?: string;
+}
@@ -0,0 +1,22 @@
+import { IsIn, IsOptional, IsString, Matches } from 'class-validator';
+import { OUTPUT_FORMATS } from '../csv-output.service';
+import type { OutputFormat } from '../csv-output.service';
+import { CsvInputDto } from './csv-input.dto';
+
+/**
+ * CSV bemenet + a kimenet formátuma (clean / apply).
+ */
+export class CsvOutputDto extends CsvInputDto {
+  /** csv, json, ndjson, tsv, sql vagy xlsx (a letöltésnél alapból csv). */
+  @IsOptional()
+  @IsIn(OUTPUT_FORMATS)
+  outputFormat?: OutputFormat;
+
+  /** A sql kimenet táblaneve (alapból csv_data). */
+  @IsOptional()
+  @IsString()
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]{0,62}$/, {
+    message: 'tableName must be a plain SQL identifier',
+  })
+  tableName?: string;
+}
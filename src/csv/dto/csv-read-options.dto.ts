@@ -0,0 +1,69 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Length,
+  Min,
+} from 'class-validator';
+import { INPUT_FORMATS } from '../csv-sources';
+import type { InputFormat } from '../csv-sources';
+import { CSV_ENCODINGS } from '../models/csv-dialect.model';
+import type { CsvEncoding } from '../models/csv-dialect.model';
+
+/**
+ * A bemenet olvasásának beállításai (dialektus + inputFormat), maga a
+ * bemenet nélkül. A kihagyott dialektus-mezőket (delimiter, quoteChar,
+ * hasHeader, encoding) a CsvDialectService ismeri fel a bemenetből.
+ *
+ * Nem-CSV bemenet (inputFormat) is megadható; ezt a parse előtt sorokká
+ * alakítjuk, így minden action és az AI elemzés ugyanúgy működik rajta.
+ */
+export class CsvReadOptionsDto {
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  delimiter?: string;
+
+  @IsOptional()
+  @IsString()
+  @Length(1, 1)
+  quoteChar?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  hasHeader?: boolean;
+
+  @IsOptional()
+  @IsIn(CSV_ENCODINGS)
+  encoding?: CsvEncoding;
+
+  /** A bemenet formátuma (alapból csv); az xlsx csak csvBase64-ben jöhet. */
+  @IsOptional()
+  @IsIn(INPUT_FORMATS)
+  inputFormat?: InputFormat;
+
+  /** xlsx: a munkalap neve (alapból az első munkalap). */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  sheet?: string;
+
+  /** xlsx: a munkalap 0-tól számolt indexe (a sheet erősebb). */
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  sheetIndex?: number;
+
+  /** fixed-width: az oszlopok szélessége karakterben (kötelező). */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  columnWidths?: number[];
+}
@@ -0,0 +1,17 @@
+import { IsBase64, IsNotEmpty, IsString, ValidateIf } from 'class-validator';
+
+/**
+ * A /csv/detect bemenete: vagy szövegként (csv), vagy nyers byte-okként
+ * base64-ben (csvBase64). Kódolást csak az utóbbinál tudunk érdemben felismerni.
+ */
+export class DetectCsvDto {
+  @ValidateIf((dto: DetectCsvDto) => dto.csvBase64 === undefined)
+  @IsString()
+  @IsNotEmpty()
+  csv?: string;
+
+  @ValidateIf((dto: DetectCsvDto) => dto.csv === undefined)
+  @IsBase64()
+  @IsNotEmpty()
+  csvBase64?: string;
+}
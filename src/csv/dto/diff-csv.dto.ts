@@ -0,0 +1,46 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  ValidateNested,
+} from 'class-validator';
+import { DIFF_ALIGNMENTS } from '../csv-diff.service';
+import type { DiffAlignment } from '../csv-diff.service';
+import { CsvInputDto } from './csv-input.dto';
+import { QUERY_OUTPUT_FORMATS } from './query-csv.dto';
+import type { QueryOutputFormat } from './query-csv.dto';
+
+/**
+ * A /csv/diff bemenete: a régi (before) és az új (after) CSV, saját
+ * dialektussal, és az opcionális kulcsoszlop(ok).
+ */
+export class DiffCsvDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CsvInputDto)
+  before: CsvInputDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => CsvInputDto)
+  after: CsvInputDto;
+
+  /** Kulcsoszlopok (név vagy index), mindkét fájlban a saját headere szerint. */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  keys?: (string | number)[];
+
+  /** A kulcs nélküli sorok párosítása: position (alapból) vagy hash. */
+  @IsOptional()
+  @IsIn(DIFF_ALIGNMENTS)
+  alignment?: DiffAlignment;
+
+  /** json: added / removed / changed listák; csv: annotált CSV. */
+  @IsOptional()
+  @IsIn(QUERY_OUTPUT_FORMATS)
+  format?: QueryOutputFormat;
+}
@@ -0,0 +1,65 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  ValidateNested,
+} from 'class-validator';
+import { JOIN_TYPES } from '../csv-join.service';
+import type { JoinType } from '../csv-join.service';
+import { CsvInputDto } from './csv-input.dto';
+import { QUERY_OUTPUT_FORMATS } from './query-csv.dto';
+import type { QueryOutputFormat } from './query-csv.dto';
+
+/** A join egyik oldala: CSV + saját dialektus + kulcsoszlop(ok). */
+export class JoinSideDto extends CsvInputDto {
+  /** Kulcsoszlopok (név vagy index); a két oldalon azonos darabszámban. */
+  @IsArray()
+  @ArrayNotEmpty()
+  keys: (string | number)[];
+}
+
+/**
+ * A /csv/join bemenete: két CSV (left, right), a join típusa és a kimenet
+ * formája. A kulcsok részleteit a validateCsvJoin ellenőrzi.
+ */
+export class JoinCsvDto {
+  @IsObject()
+  @ValidateNested()
+  @Type(() => JoinSideDto)
+  left: JoinSideDto;
+
+  @IsObject()
+  @ValidateNested()
+  @Type(() => JoinSideDto)
+  right: JoinSideDto;
+
+  /** inner (alapból), left, right vagy full. */
+  @IsOptional()
+  @IsIn(JOIN_TYPES)
+  type?: JoinType;
+
+  /** Ütköző oszlopnevek utótagjai: [bal, jobb] (alapból _left, _right). */
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(2)
+  @IsString({ each: true })
+  suffixes?: [string, string];
+
+  /** true: a kulcsok egyeztetése kis- / nagybetű független. */
+  @IsOptional()
+  @IsBoolean()
+  ignoreCase?: boolean;
+
+  /** json: rows objektumokként; csv: az eredmény CSV szövegként. */
+  @IsOptional()
+  @IsIn(QUERY_OUTPUT_FORMATS)
+  format?: QueryOutputFormat;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { CleanCsvDto } from './clean-csv.dto';
+
+export class PlanCsvDto extends CleanCsvDto {
+  /** Ennyi tisztított sort adunk vissza előnézetnek (headerrel együtt). */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  previewRows?: number;
+}
@@ -0,0 +1,11 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { CleanCsvDto } from './clean-csv.dto';
+
+export class ProfileCsvDto extends CleanCsvDto {
+  /** Ennyi leggyakoribb értéket adunk vissza oszloponként (alapból 5). */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  topValues?: number;
+}
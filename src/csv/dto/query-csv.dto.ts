@@ -0,0 +1,55 @@
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsObject,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { CsvInputDto } from './csv-input.dto';
+
+export const QUERY_OUTPUT_FORMATS = ['json', 'csv'] as const;
+export type QueryOutputFormat = (typeof QUERY_OUTPUT_FORMATS)[number];
+
+/**
+ * A /csv/query bemenete: CSV + deklaratív lekérdezés. A select / where /
+ * sort részleteit a validateCsvQuery ellenőrzi.
+ */
+export class QueryCsvDto extends CsvInputDto {
+  /** Oszlopnevek és / vagy 0-tól számolt indexek (alapból mind). */
+  @IsOptional()
+  @IsArray()
+  select?: (string | number)[];
+
+  /** Predikátum ({ column, op, value }) vagy { and: [...] } / { or: [...] }. */
+  @IsOptional()
+  @IsObject()
+  where?: Record<string, unknown>;
+
+  /** Rendezési kulcsok: { column, direction?, type? }. */
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  sort?: Record<string, unknown>[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  limit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  /** Számformátum az összehasonlításhoz (pl. "hu-HU"). */
+  @IsOptional()
+  @IsString()
+  locale?: string;
+
+  /** json: rows objektumokként; csv: a találatok CSV szövegként. */
+  @IsOptional()
+  @IsIn(QUERY_OUTPUT_FORMATS)
+  format?: QueryOutputFormat;
+}
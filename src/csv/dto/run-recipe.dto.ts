@@ -0,0 +1,19 @@
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+import { CsvOutputDto } from './csv-output.dto';
+
+/**
+ * A POST /csv/recipes/:id/run bemenete: a CSV (+ a recept beállításait
+ * felülíró mezők) és a kimenet formátuma.
+ */
+export class RunRecipeDto extends CsvOutputDto {
+  /** A futtatandó verzió (alapból a legutolsó). */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number;
+
+  /** true: cellánkénti változásnapló + eldobott sorok a válaszban. */
+  @IsOptional()
+  @IsBoolean()
+  audit?: boolean;
+}
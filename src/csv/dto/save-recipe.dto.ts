@@ -0,0 +1,69 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { CsvReadOptionsDto } from './csv-read-options.dto';
+
+/**
+ * Recept létrehozása (POST /csv/recipes) vagy új verziója
+ * (PUT /csv/recipes/:id). Az action-öket és a szabályokat ugyanúgy
+ * validáljuk, mint a /csv/apply-nál.
+ */
+export class SaveRecipeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsArray()
+  @IsObject({ each: true })
+  actions: Record<string, unknown>[];
+
+  /** Olvasási beállítások (delimiter, hasHeader, inputFormat, ...). */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CsvReadOptionsDto)
+  settings?: CsvReadOptionsDto;
+
+  /** Adatminőségi szabályok, futtatáskor a tisztított adaton ellenőrizve. */
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  expectations?: Record<string, unknown>[];
+}
+
+/**
+ * Recept mentése egy /csv/clean válaszból (POST /csv/recipes/from-clean):
+ * a lefuttatott lépések (actions) és a dialektus kerül bele.
+ */
+export class SaveCleanRecipeDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  /** Alapból az AI magyarázata (aiReview.explanation). */
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  /** A /csv/clean válasza változatlanul. */
+  @IsObject()
+  cleanResponse: Record<string, unknown>;
+
+  /** Adatminőségi szabályok, futtatáskor a tisztított adaton ellenőrizve. */
+  @IsOptional()
+  @IsArray()
+  @IsObject({ each: true })
+  expectations?: Record<string, unknown>[];
+}
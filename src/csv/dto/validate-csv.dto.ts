@@ -0,0 +1,13 @@
+import { IsArray, IsObject } from 'class-validator';
+import { CsvInputDto } from './csv-input.dto';
+
+/**
+ * A /csv/validate bemenete: CSV + adatminőségi szabályok. A szabályok
+ * részleteit a validateExpectations ellenőrzi.
+ */
+export class ValidateCsvDto extends CsvInputDto {
+  /** Szabályok: { type, column?, min?, max?, pattern?, values?, ... }. */
+  @IsArray()
+  @IsObject({ each: true })
+  expectations: Record<string, unknown>[];
+}
@@ -0,0 +1,19 @@
+import { BadGatewayException } from '@nestjs/common';
+
+/**
+ * Az AI a javító körök után sem adott használható (sémának megfelelő) JSON-t.
+ * 502, mert a hiba a "felső" szolgáltatás (LLM) válaszában van, nem a kérésben.
+ */
+export class AiResponseInvalidException extends BadGatewayException {
+  constructor(
+    readonly attempts: number,
+    readonly errors: string[],
+  ) {
+    super({
+      statusCode: 502,
+      error: 'AI_RESPONSE_INVALID',
+      message: `AI did not return a valid cleaning plan after ${attempts} attempt(s).`,
+      errors,
+    });
+  }
+}
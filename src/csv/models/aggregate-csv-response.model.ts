@@ -0,0 +1,22 @@
+import type { AggregateValue } from '../csv-aggregate.service';
+import { CsvDialect } from './csv-dialect.model';
+
+/**
+ * A /csv/aggregate endpoint válasza.
+ *
+ * - columns: a groupBy oszlopok, majd az összesítések (pivotnál pivot
+ *   értékenként)
+ * - groups: a csoportok (kimeneti sorok) száma
+ * - rows: csoportonként oszlopnév → érték (format: json); a számok számként,
+ *   az üres csoport összesítése null
+ * - csv: az eredmény CSV-ként, header sorral (format: csv)
+ * - nonNumericValues: összesítésenként a kihagyott, nem szám cellák száma
+ */
+export interface AggregateCsvResponse {
+  dialect: CsvDialect;
+  columns: string[];
+  groups: number;
+  rows?: Record<string, AggregateValue>[];
+  csv?: string;
+  nonNumericValues: Record<string, number>;
+}
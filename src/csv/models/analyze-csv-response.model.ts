@@ -1,6 +1,12 @@
+/**
+ * Az AI által javasolt egy tisztítási lépés (camelCase kulcsokkal).
+ * A típus-specifikus paraméterek (mode, onError, ...) a CleaningAction
+ * sémája szerint érkeznek, ezért nyitott a shape.
+ */
 export interface AnalyzeCsvAction {
   type: string;
   columnIndex?: number;
+  [param: string]: unknown;
 }
 
 export interface AnalyzeCsvResponse {
@@ -0,0 +1,21 @@
+import { CleanStats } from './clean-csv-response.model';
+import { CsvDialect } from './csv-dialect.model';
+import { CleaningAudit } from './cleaning-audit.model';
+import type { CsvOutput } from './csv-output.model';
+import type { CsvValidationReport } from '../csv-expectation.service';
+import type { DuplicateGroup, FlaggedRow } from '../csv-engine.service';
+
+/**
+ * A /csv/apply endpoint válasza (AI nélküli, determinisztikus futás).
+ * A validation az expectations riportja a tisztított adaton (ha kérték).
+ */
+export interface ApplyCsvResponse {
+  stats: CleanStats;
+  dialect: CsvDialect;
+  cleanedCsv: string;
+  flaggedRows: FlaggedRow[];
+  duplicateGroups: DuplicateGroup[];
+  audit?: CleaningAudit;
+  output?: CsvOutput;
+  validation?: CsvValidationReport;
+}
@@ -1,25 +1,59 @@
 import { AiReview } from './ai-review.model';
+import { CsvDialect } from './csv-dialect.model';
+import { CleaningAudit } from './cleaning-audit.model';
+import type { CsvOutput } from './csv-output.model';
+import type { CsvValidationReport } from '../csv-expectation.service';
+import type {
+  CleaningAction,
+  DuplicateGroup,
+  FlaggedRow,
+} from '../csv-engine.service';
 
 /**
  * Statisztikák a tisztításról – ezt a Nest számolja ki a TELJES CSV alapján.
+ * A rowsChanged a megváltozott (és megmaradt) SOROK száma, a cellsChanged
+ * a megváltozott celláké, a rowsFlagged a validálás által megjelölt
+ * (de megtartott) soroké. A columns a kimenet oszlopainak száma (a szerkezeti
+ * action-ök után).
  */
 export interface CleanStats {
   rowsBefore: number;
   rowsAfter: number;
   columns: number;
   rowsChanged: number;
+  cellsChanged: number;
   rowsDropped: number;
+  rowsFlagged: number;
 }
 
 /**
  * A /csv/clean endpoint válasza.
  *
  * - aiReview: AI által készített "műveleti terv" + magyarázat
+ * - actions: a ténylegesen lefuttatott lépések (pre-clean + AI, és
+ *   applyProfileActions esetén a profil alapúak), ebben a sorrendben;
+ *   a /csv/apply-nak küldhető, receptként menthető
+ * - suggestedActions: az oszlopprofil alapján javasolt, NEM lefuttatott
+ *   lépések (ha vannak, és nem kérték az applyProfileActions-t)
  * - stats: a tényleges végrehajtás statisztikái (mennyi sort, cellát érintett)
+ * - dialect: a ténylegesen használt (felismert vagy megadott) CSV beállítások
  * - cleanedCsv: a megtisztított, letölthető CSV tartalom
+ * - flaggedRows: VALIDATE_FIELD (onError: flag) által megjelölt értékek
+ * - duplicateGroups: a DEDUPLICATE által talált duplikátum-csoportok
+ * - audit: cellánkénti napló + eldobott sorok (csak audit: true esetén)
+ * - output: a tisztított adat az outputFormat szerint (csak ha kérték)
+ * - validation: az expectations riportja a tisztított adaton (csak ha kérték)
  */
 export interface CleanCsvResponse {
   aiReview: AiReview;
+  actions: CleaningAction[];
+  suggestedActions?: CleaningAction[];
   stats: CleanStats;
+  dialect: CsvDialect;
   cleanedCsv: string;
+  flaggedRows: FlaggedRow[];
+  duplicateGroups: DuplicateGroup[];
+  audit?: CleaningAudit;
+  output?: CsvOutput;
+  validation?: CsvValidationReport;
 }
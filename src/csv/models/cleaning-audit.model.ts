@@ -0,0 +1,17 @@
+import type { CellChange, RejectedRow } from '../csv-engine.service';
+
+/**
+ * Részletes napló egy tisztításról (csak audit: true kérésre).
+ *
+ * - changes: minden megváltozott cella (sor, oszlop, régi / új érték, action)
+ * - rejectedRows: minden eldobott sor az okával
+ * - rejectedCsv: ugyanez letölthető CSV-ként (row_number, reason, action +
+ *   az eredeti cellák), a bemenet dialektusával
+ *
+ * A sorszámok a bemenet rekordjaira mutatnak (1-től, a header is számít).
+ */
+export interface CleaningAudit {
+  changes: CellChange[];
+  rejectedRows: RejectedRow[];
+  rejectedCsv: string;
+}
@@ -0,0 +1,89 @@
+import type { AppliedAction } from '../csv-engine.service';
+import type { CsvDialect } from './csv-dialect.model';
+import type { CleanStats } from './clean-csv-response.model';
+
+/**
+ * Egy tisztítási futás szakaszai, ebben a sorrendben:
+ * - parse: a bemenet beolvasva
+ * - pre-clean: az előtisztítás lefutott
+ * - sampling: az oszlopprofil és az AI-nak küldött minta elkészült
+ * - ai-request: az AI kérés elküldve (a leghosszabb szakasz)
+ * - ai-response: az AI válasza megjött és validálva
+ * - action: egy AI (vagy profil alapú) action lefutott; action-önként egy
+ * - validate: az expectations ellenőrzése (csak ha kérték)
+ * - serialize: a kimenet előállítása (CSV + outputFormat)
+ * - done: kész, az eredmény összefoglalójával
+ */
+export const CLEANING_STAGES = [
+  'parse',
+  'pre-clean',
+  'sampling',
+  'ai-request',
+  'ai-response',
+  'action',
+  'validate',
+  'serialize',
+  'done',
+] as const;
+export type CleaningStage = (typeof CLEANING_STAGES)[number];
+
+/**
+ * Becsült készültség (%) az egyes szakaszok végén (az action-ök az
+ * ai-response és a validate közti sávot töltik ki, arányosan).
+ */
+export const CLEANING_STAGE_PERCENT: Record<CleaningStage, number> = {
+  parse: 5,
+  'pre-clean': 10,
+  sampling: 15,
+  'ai-request': 20,
+  'ai-response': 70,
+  action: 85,
+  validate: 90,
+  serialize: 95,
+  done: 100,
+};
+
+/** Egy lefuttatott action a futásban: total: az action-ök száma. */
+export interface CleaningActionProgress extends AppliedAction {
+  total: number;
+}
+
+/**
+ * A futás eredményének összefoglalója (a done eseményben), a tisztított
+ * adat nélkül.
+ * - actions: a lefuttatott lépések száma (pre-clean + AI + profil)
+ * - validation: csak expectations esetén
+ */
+export interface CleaningSummary {
+  stats: CleanStats;
+  dialect: CsvDialect;
+  actions: number;
+  validation?: { passed: boolean; score: number };
+}
+
+/**
+ * Egy haladás-esemény.
+ * - elapsedMs: a futás kezdete óta eltelt idő
+ * - rows: a beolvasott sorok száma (header-rel; parse)
+ * - action: az action számlálói (action)
+ * - summary: az eredmény összefoglalója (done)
+ */
+export interface CleaningProgress {
+  stage: CleaningStage;
+  percent: number;
+  elapsedMs: number;
+  rows?: number;
+  action?: CleaningActionProgress;
+  summary?: CleaningSummary;
+}
+
+/**
+ * A clean futás opciói háttérfutáshoz (jobok):
+ * - onProgress: minden szakasz végén meghívjuk
+ * - signal: megszakítás; a szakaszhatárokon és a folyamatban lévő AI
+ *   hívásban is érvényesül (a futás a signal.reason-nel dob)
+ */
+export interface CleaningRunOptions {
+  onProgress?: (progress: CleaningProgress) => void;
+  signal?: AbortSignal;
+}
@@ -0,0 +1,21 @@
+/**
+ * A támogatott szövegkódolások.
+ * - utf-8-bom: UTF-8 byte order mark-kal (Excel "CSV UTF-8" mentés)
+ * - windows-1250: közép-európai ANSI kódlap (magyar Excel alapértelmezés)
+ */
+export const CSV_ENCODINGS = ['utf-8', 'utf-8-bom', 'windows-1250'] as const;
+export type CsvEncoding = (typeof CSV_ENCODINGS)[number];
+
+export type CsvLineEnding = '\n' | '\r\n' | '\r';
+
+/**
+ * Egy CSV fájl "nyelvjárása": ezekkel a beállításokkal parse-oljuk és
+ * szerializáljuk. Ha a kérés nem adja meg, a CsvDialectService találja ki.
+ */
+export interface CsvDialect {
+  delimiter: string;
+  quoteChar: string;
+  lineEnding: CsvLineEnding;
+  hasHeader: boolean;
+  encoding: CsvEncoding;
+}
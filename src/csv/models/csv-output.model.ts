@@ -0,0 +1,17 @@
+import type { OutputFormat } from '../csv-output.service';
+
+/**
+ * A kért kimeneti formátumban renderelt eredmény (outputFormat esetén a
+ * clean / apply válaszában).
+ *
+ * - contentType / fileName: mint a letöltésnél (clean/download,
+ *   apply/download)
+ * - encoding: utf-8 szövegnél, base64 bináris (xlsx) tartalomnál
+ */
+export interface CsvOutput {
+  format: OutputFormat;
+  contentType: string;
+  fileName: string;
+  encoding: 'utf-8' | 'base64';
+  content: string;
+}
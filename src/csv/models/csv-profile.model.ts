@@ -0,0 +1,65 @@
+import { CleaningAction } from '../csv-engine.service';
+import { CsvDialect } from './csv-dialect.model';
+
+export const COLUMN_TYPES = [
+  'integer',
+  'decimal',
+  'boolean',
+  'date',
+  'email',
+  'text',
+] as const;
+
+export type ColumnType = (typeof COLUMN_TYPES)[number];
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+/** A nem üres értékek hosszeloszlása (karakterben). */
+export interface LengthStats {
+  min: number;
+  max: number;
+  mean: number;
+}
+
+/**
+ * Egy oszlop profilja (csak az adatsorok alapján, header nélkül).
+ *
+ * - emptyCount: üres / csak whitespace cellák (hiányzó cellák is)
+ * - nullCount: "null-szerű" értékek (NULL, N/A, -, ...)
+ * - filledCount: a többi (tényleges értéket tartalmazó) cella
+ * - conformingCount: hány kitöltött érték felel meg az inferredType-nak
+ * - min / max: számoknál szám, dátumnál YYYY-MM-DD, szövegnél nincs
+ */
+export interface ColumnProfile {
+  index: number;
+  name?: string;
+  inferredType: ColumnType;
+  emptyCount: number;
+  emptyRatio: number;
+  nullCount: number;
+  nullRatio: number;
+  filledCount: number;
+  distinctCount: number;
+  topValues: ValueCount[];
+  conformingCount: number;
+  min?: number | string;
+  max?: number | string;
+  length: LengthStats;
+}
+
+/**
+ * A /csv/profile endpoint válasza.
+ *
+ * - rows: az adatsorok száma (header nélkül)
+ * - suggestedActions: a profil alapján, determinisztikusan javasolt
+ *   oszlop-specifikus action-ök (a /csv/apply-nak küldhetők)
+ */
+export interface ProfileCsvResponse {
+  dialect: CsvDialect;
+  rows: number;
+  columns: ColumnProfile[];
+  suggestedActions: CleaningAction[];
+}
@@ -0,0 +1,50 @@
+import type { CleaningAction } from '../csv-engine.service';
+import type { Expectation } from '../csv-expectation.service';
+import type { CsvReadOptionsDto } from '../dto/csv-read-options.dto';
+import type { ApplyCsvResponse } from './apply-csv-response.model';
+
+/**
+ * Egy recept olvasási beállításai: a futtatáskor a kérés mezői az
+ * erősebbek, a kihagyottakat a recept adja, a többit felismerjük.
+ */
+export type CsvRecipeSettings = Pick<
+  CsvReadOptionsDto,
+  | 'delimiter'
+  | 'quoteChar'
+  | 'hasHeader'
+  | 'encoding'
+  | 'inputFormat'
+  | 'sheet'
+  | 'sheetIndex'
+  | 'columnWidths'
+>;
+
+/**
+ * Egy mentett tisztítási recept (egy verziója).
+ *
+ * - version: 1-től számolt verziószám; minden módosítás új verzió, a
+ *   régiek megmaradnak és futtathatók
+ * - actions: a futtatandó lépések, ebben a sorrendben (AI nélkül)
+ * - expectations: adatminőségi szabályok, a futtatás után a tisztított
+ *   adaton ellenőrizve (a riport a válasz validation mezőjében)
+ * - createdAt: a recept (1. verzió) létrehozása, updatedAt: ennek a
+ *   verziónak a mentése (ISO időpont)
+ */
+export interface CsvRecipe {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  actions: CleaningAction[];
+  settings: CsvRecipeSettings;
+  expectations?: Expectation[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A /csv/recipes/:id/run válasza: az apply válasza + a futtatott recept.
+ */
+export interface RunRecipeResponse extends ApplyCsvResponse {
+  recipe: { id: string; name: string; version: number };
+}
@@ -0,0 +1,36 @@
+import type { DiffEntry } from '../csv-diff.service';
+import { CsvDialect } from './csv-dialect.model';
+
+export interface DiffSummary {
+  beforeRows: number;
+  afterRows: number;
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  /** a módosult cellák száma összesen */
+  changedCells: number;
+}
+
+/**
+ * A /csv/diff endpoint válasza.
+ *
+ * - dialect: az új (after) CSV dialektusa (az annotált CSV is ezt használja)
+ * - columns: a két fájl oszlopainak uniója; addedColumns / removedColumns:
+ *   az új, ill. megszűnt oszlopok
+ * - added / removed / changed: a sorok (format: json); a changed sorok
+ *   changes listája oszloponként a régi és az új értéket adja
+ * - csv: annotált CSV (format: csv): _diff oszlop (added, removed, changed,
+ *   unchanged), az értékek, és a _changes oszlop ("Varos: Pécs → Győr")
+ */
+export interface DiffCsvResponse {
+  dialect: CsvDialect;
+  summary: DiffSummary;
+  columns: string[];
+  addedColumns: string[];
+  removedColumns: string[];
+  added?: DiffEntry[];
+  removed?: DiffEntry[];
+  changed?: DiffEntry[];
+  csv?: string;
+}
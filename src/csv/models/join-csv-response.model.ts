@@ -0,0 +1,28 @@
+import type { UnmatchedRow } from '../csv-join.service';
+import { CsvDialect } from './csv-dialect.model';
+
+/**
+ * A /csv/join endpoint válasza.
+ *
+ * - dialect: a bal oldali CSV dialektusa (a csv kimenet is ezt használja)
+ * - columns: a bal oldal oszlopai, majd a jobb oldal nem-kulcs oszlopai
+ * - stats: sorok száma oldalanként és a kimenetben, párosított sorpárok
+ * - rows: oszlopnév → érték (format: json)
+ * - csv: az eredmény CSV-ként, headerrel ha a bal oldalnak volt (format: csv)
+ * - unmatchedLeft / unmatchedRight: a párt nem találó sorok (eredeti
+ *   sorszám + kulcs), a join típusától függetlenül
+ */
+export interface JoinCsvResponse {
+  dialect: CsvDialect;
+  columns: string[];
+  stats: {
+    leftRows: number;
+    rightRows: number;
+    outputRows: number;
+    matchedPairs: number;
+  };
+  rows?: Record<string, string>[];
+  csv?: string;
+  unmatchedLeft: UnmatchedRow[];
+  unmatchedRight: UnmatchedRow[];
+}
@@ -0,0 +1,25 @@
+import { CleaningAction } from '../csv-engine.service';
+import { AiReview } from './ai-review.model';
+import { CleanStats } from './clean-csv-response.model';
+import { CsvDialect } from './csv-dialect.model';
+
+/**
+ * A /csv/plan endpoint válasza: a tisztítási terv, még NEM alkalmazva.
+ *
+ * - preCleanActions / aiActions / profileActions: a végrehajtandó lépések,
+ *   ebben a sorrendben (profileActions: az oszlopprofil alapján javasolt,
+ *   az AI által le nem fedett lépések; csak applyProfileActions esetén
+ *   részei a preview-nak és a stats-nak);
+ *   szerkesztés után a /csv/apply endpointnak küldhetők vissza
+ * - preview: a terv szerint tisztított adat első N sora
+ * - stats: mit csinálna a terv a TELJES CSV-vel
+ */
+export interface PlanCsvResponse {
+  aiReview: AiReview;
+  preCleanActions: CleaningAction[];
+  aiActions: CleaningAction[];
+  profileActions: CleaningAction[];
+  stats: CleanStats;
+  dialect: CsvDialect;
+  preview: string[][];
+}
@@ -0,0 +1,17 @@
+import { CsvDialect } from './csv-dialect.model';
+
+/**
+ * A /csv/query endpoint válasza.
+ *
+ * - columns: a kiválasztott oszlopok (header nélküli CSV-nél column_<n>)
+ * - matchedRows: a where-nek megfelelő sorok száma (limit / offset előtt)
+ * - rows: a találatok oszlopnév → érték objektumokként (format: json)
+ * - csv: a találatok CSV-ként, headerrel ha a bemenetnek volt (format: csv)
+ */
+export interface QueryCsvResponse {
+  dialect: CsvDialect;
+  columns: string[];
+  matchedRows: number;
+  rows?: Record<string, string>[];
+  csv?: string;
+}
@@ -0,0 +1,10 @@
+import type { CsvValidationReport } from '../csv-expectation.service';
+import { CsvDialect } from './csv-dialect.model';
+
+/**
+ * A /csv/validate endpoint válasza: a riport (passed, score, rows,
+ * results) + a használt dialektus. A CSV-t nem módosítjuk.
+ */
+export interface ValidateCsvResponse extends CsvValidationReport {
+  dialect: CsvDialect;
+}
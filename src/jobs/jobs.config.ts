@@ -0,0 +1,25 @@
+import { ConfigType, registerAs } from '@nestjs/config';
+
+/**
+ * Háttér-jobok konfigurációja (.env / környezeti változók):
+ * - JOBS_DIR: a jobok (bemenet, állapot, eredmény) könyvtára (alapból
+ *   data/jobs, a munkakönyvtárhoz képest)
+ * - JOBS_CONCURRENCY: egyszerre futó jobok száma (alapból 2)
+ * - JOBS_MAX_QUEUED: ennyi várakozó job felett 429 (alapból 100)
+ * - JOBS_RETENTION_HOURS: a befejezett jobokat ennyi óra után töröljük
+ *   (alapból 24)
+ */
+export const jobsConfig = registerAs('jobs', () => ({
+  dir: process.env.JOBS_DIR ?? 'data/jobs',
+  concurrency: positiveInt(process.env.JOBS_CONCURRENCY, 2),
+  maxQueued: positiveInt(process.env.JOBS_MAX_QUEUED, 100),
+  retentionHours: positiveInt(process.env.JOBS_RETENTION_HOURS, 24),
+}));
+
+/** Pozitív egész; hiányzó vagy hibás (pl. "abc", "0") értéknél az alapérték. */
+function positiveInt(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isSafeInteger(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export type JobsConfig = ConfigType<typeof jobsConfig>;
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MessageEvent,
+  Param,
+  Post,
+  Sse,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { JobsService } from './jobs.service';
+import type { Job } from './models/job.model';
+import { CleanCsvDto } from '../csv/dto/clean-csv.dto';
+import type { CleanCsvResponse } from '../csv/models/clean-csv-response.model';
+
+/**
+ * Háttér-jobok: a hosszú (AI-s) tisztítás nem blokkolja a kérést, az
+ * állapotot és az eredményt le lehet kérdezni.
+ */
+@Controller('jobs')
+export class JobsController {
+  constructor(private readonly jobsService: JobsService) {}
+
+  /** Ugyanaz a body, mint a /csv/clean-nél; azonnal visszaadja a jobot. */
+  @Post('csv-clean')
+  @HttpCode(HttpStatus.ACCEPTED)
+  createCsvCleanJob(@Body() dto: CleanCsvDto): Promise<Job> {
+    return this.jobsService.createCsvClean(dto);
+  }
+
+  @Get(':id')
+  getJob(@Param('id') id: string): Job {
+    return this.jobsService.get(id);
+  }
+
+  /** A /csv/clean válasza; amíg a job nem sikeres, 409. */
+  @Get(':id/result')
+  getJobResult(@Param('id') id: string): Promise<CleanCsvResponse> {
+    return this.jobsService.getResult(id);
+  }
+
+  /**
+   * Server-Sent Events: progress (szakaszok, eltelt idő, a végén az
+   * összefoglaló) és status események, a job befejezéséig.
+   */
+  @Sse(':id/events')
+  jobEvents(@Param('id') id: string): Observable<MessageEvent> {
+    return this.jobsService.events(id);
+  }
+
+  @Delete(':id')
+  cancelJob(@Param('id') id: string): Promise<Job> {
+    return this.jobsService.cancel(id);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { JobsController } from './jobs.controller';
+import { JobsService } from './jobs.service';
+import { jobsConfig } from './jobs.config';
+import { CsvModule } from '../csv/csv.module';
+
+@Module({
+  imports: [ConfigModule.forFeature(jobsConfig), CsvModule],
+  controllers: [JobsController],
+  providers: [JobsService],
+})
+export class JobsModule {}
@@ -0,0 +1,294 @@
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { lastValueFrom, toArray } from 'rxjs';
+import { JobsService } from './jobs.service';
+import { jobsConfig } from './jobs.config';
+import type { Job, JobStatus } from './models/job.model';
+import type { CleaningProgress } from '../csv/models/cleaning-progress.model';
+import type { CleanCsvResponse } from '../csv/models/clean-csv-response.model';
+import { CsvService } from '../csv/csv.service';
+import { AiService } from '../ai/ai.service';
+import { AiModule } from '../ai/ai.module';
+import { CsvEngineService } from '../csv/csv-engine.service';
+import { CsvDialectService } from '../csv/csv-dialect.service';
+import { CsvProfileService } from '../csv/csv-profile.service';
+import { CsvQueryService } from '../csv/csv-query.service';
+import { CsvAggregateService } from '../csv/csv-aggregate.service';
+import { CsvJoinService } from '../csv/csv-join.service';
+import { CsvDiffService } from '../csv/csv-diff.service';
+import { CsvOutputService } from '../csv/csv-output.service';
+import { CsvExpectationService } from '../csv/csv-expectation.service';
+
+describe('JobsService', () => {
+  let service: JobsService;
+  let csvService: CsvService;
+  let aiService: AiService;
+  let jobsDir: string;
+
+  const csv = 'ID;Nev\n1; "Anna" \n ; \n';
+
+  async function start(concurrency = 2): Promise<void> {
+    const module: TestingModule = await Test.createTestingModule({
+      imports: [AiModule],
+      providers: [
+        JobsService,
+        CsvService,
+        CsvEngineService,
+        CsvDialectService,
+        CsvProfileService,
+        CsvQueryService,
+        CsvAggregateService,
+        CsvJoinService,
+        CsvDiffService,
+        CsvOutputService,
+        CsvExpectationService,
+        {
+          provide: jobsConfig.KEY,
+          useValue: {
+            dir: jobsDir,
+            concurrency,
+            maxQueued: 2,
+            retentionHours: 24,
+          },
+        },
+      ],
+    }).compile();
+    await module.init();
+
+    service = module.get<JobsService>(JobsService);
+    csvService = module.get<CsvService>(CsvService);
+    aiService = module.get<AiService>(AiService);
+  }
+
+  /** Az AI hívás addig "fut", amíg meg nem szakítják. */
+  function blockAi() {
+    return jest
+      .spyOn(aiService, 'analyzeCsvPrompt')
+      .mockImplementation(
+        (input) =>
+          new Promise((_, reject) =>
+            input.signal?.addEventListener('abort', () =>
+              reject(new Error('aborted')),
+            ),
+          ),
+      );
+  }
+
+  /** Amíg a job (a lemezen is) el nem éri az állapotot. */
+  async function waitFor(id: string, status: JobStatus): Promise<void> {
+    const stored = async () =>
+      (
+        JSON.parse(await readFile(join(jobsDir, `${id}.json`), 'utf-8')) as {
+          status: JobStatus;
+        }
+      ).status;
+
+    for (
+      let i = 0;
+      i < 200 &&
+      (service.get(id).status !== status || (await stored()) !== status);
+      i++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(service.get(id).status).toBe(status);
+  }
+
+  beforeEach(async () => {
+    jobsDir = await mkdtemp(join(tmpdir(), 'jobs-'));
+  });
+
+  afterEach(async () => {
+    await rm(jobsDir, { recursive: true, force: true });
+  });
+
+  it('runs a clean job in the background and keeps its result', async () => {
+    await start();
+
+    const job = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    expect(job.type).toBe('csv-clean');
+
+    await waitFor(job.id, 'succeeded');
+    expect(service.get(job.id)).toMatchObject({
+      progress: { stage: 'done', percent: 100 },
+    });
+
+    const expected = await csvService.cleanCsv({ csv, aiProvider: 'mock' });
+    const result = await service.getResult(job.id);
+    expect(result.cleanedCsv).toBe(expected.cleanedCsv);
+    expect(result.actions).toEqual(expected.actions);
+    expect((await readdir(jobsDir)).sort()).toEqual(
+      [`${job.id}.json`, `${job.id}.result.json`].sort(),
+    );
+  });
+
+  it('streams the progress and status changes of a job', async () => {
+    await start();
+
+    const job = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    const events = await lastValueFrom(service.events(job.id).pipe(toArray()));
+
+    const progress = events
+      .filter((e) => e.type === 'progress')
+      .map((e) => e.data as CleaningProgress);
+    expect(progress.map((p) => p.stage)).toEqual(
+      expect.arrayContaining(['parse', 'ai-request', 'serialize', 'done']),
+    );
+    expect(progress[progress.length - 1].summary?.stats.rowsDropped).toBe(1);
+
+    const statuses = events
+      .filter((e) => e.type === 'status')
+      .map((e) => (e.data as Job).status);
+    expect(statuses[statuses.length - 1]).toBe('succeeded');
+    expect(events[events.length - 1].type).toBe('status');
+
+    // befejezett jobnál csak az aktuális állapot jön
+    await waitFor(job.id, 'succeeded');
+    expect(await lastValueFrom(service.events(job.id).pipe(toArray()))).toEqual(
+      [{ type: 'status', data: service.get(job.id) }],
+    );
+  });
+
+  it('ends the stream of a job that finishes before the subscription', async () => {
+    await start();
+    blockAi();
+
+    const job = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    await waitFor(job.id, 'running');
+    const stream = service.events(job.id);
+    await service.cancel(job.id);
+
+    expect(await lastValueFrom(stream.pipe(toArray()))).toEqual([
+      { type: 'status', data: service.get(job.id) },
+    ]);
+  });
+
+  it('records the error of a failed job', async () => {
+    await start();
+
+    const job = await service.createCsvClean({
+      csv,
+      aiProvider: 'mock',
+      expectations: [{ type: 'unique' }],
+    });
+
+    await waitFor(job.id, 'failed');
+    expect(service.get(job.id).error).toEqual({
+      statusCode: 400,
+      message: 'Invalid expectations.',
+      errors: ['expectations[0].column must be a column index or name'],
+    });
+    await expect(service.getResult(job.id)).rejects.toThrow(ConflictException);
+  });
+
+  it('queues jobs above the concurrency limit and cancels them', async () => {
+    await start(1);
+    const prompt = blockAi();
+
+    const first = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    const second = await service.createCsvClean({ csv, aiProvider: 'mock' });
+
+    await waitFor(first.id, 'running');
+    expect(service.get(second.id)).toMatchObject({
+      status: 'queued',
+      queuePosition: 1,
+    });
+
+    await service.cancel(second.id);
+    expect(service.get(second.id).status).toBe('cancelled');
+
+    const cancelled = await service.cancel(first.id);
+    expect(cancelled.status).toBe('cancelled');
+    expect(prompt.mock.calls[0][0].signal?.aborted).toBe(true);
+    expect(prompt).toHaveBeenCalledTimes(1);
+    await expect(service.getResult(first.id)).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('keeps a job cancelled while its result is being written', async () => {
+    await start();
+    let id = '';
+    // a DELETE épp az eredmény írása (szerializálása) közben érkezik
+    jest.spyOn(csvService, 'cleanCsv').mockResolvedValue({
+      toJSON: () => {
+        void service.cancel(id);
+        return {};
+      },
+    } as unknown as CleanCsvResponse);
+
+    const job = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    id = job.id;
+    await waitFor(id, 'cancelled');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(service.get(id).status).toBe('cancelled');
+    expect(await readdir(jobsDir)).toEqual([`${id}.json`]);
+  });
+
+  it('answers 429 when the queue is full and 404 for unknown jobs', async () => {
+    await start(1);
+    blockAi();
+
+    const running = await service.createCsvClean({ csv, aiProvider: 'mock' });
+    await waitFor(running.id, 'running');
+    const queued = [
+      await service.createCsvClean({ csv, aiProvider: 'mock' }),
+      await service.createCsvClean({ csv, aiProvider: 'mock' }),
+    ];
+
+    await expect(
+      service.createCsvClean({ csv, aiProvider: 'mock' }),
+    ).rejects.toMatchObject({ status: 429 });
+    expect(() => service.get(randomUUID())).toThrow(NotFoundException);
+    expect(() => service.get('../secret')).toThrow(NotFoundException);
+
+    for (const job of [...queued, running]) {
+      await service.cancel(job.id);
+    }
+  });
+
+  it('falls back to the default limits for invalid settings', () => {
+    const env = { ...process.env };
+    process.env.JOBS_CONCURRENCY = 'abc';
+    process.env.JOBS_MAX_QUEUED = '0';
+    process.env.JOBS_RETENTION_HOURS = '12';
+
+    try {
+      expect(jobsConfig()).toMatchObject({
+        concurrency: 2,
+        maxQueued: 100,
+        retentionHours: 12,
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+
+  it('resumes unfinished jobs after a restart', async () => {
+    const id = randomUUID();
+    await writeFile(
+      join(jobsDir, `${id}.json`),
+      JSON.stringify({
+        id,
+        type: 'csv-clean',
+        status: 'running',
+        createdAt: new Date().toISOString(),
+        startedAt: new Date().toISOString(),
+      }),
+    );
+    await writeFile(
+      join(jobsDir, `${id}.input.json`),
+      JSON.stringify({ csv, aiProvider: 'mock' }),
+    );
+
+    await start();
+
+    await waitFor(id, 'succeeded');
+    expect((await service.getResult(id)).cleanedCsv).toBeDefined();
+  });
+});
@@ -0,0 +1,401 @@
+import { randomUUID } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  ConflictException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  MessageEvent,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import {
+  Observable,
+  Subject,
+  concat,
+  defer,
+  filter,
+  map,
+  of,
+  takeWhile,
+} from 'rxjs';
+import { jobsConfig } from './jobs.config';
+import type { JobsConfig } from './jobs.config';
+import type { Job, JobError, JobStatus } from './models/job.model';
+import { CsvService } from '../csv/csv.service';
+import { CleanCsvDto } from '../csv/dto/clean-csv.dto';
+import type { CleanCsvResponse } from '../csv/models/clean-csv-response.model';
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+/** A job fájljai: állapot (<id>.json), bemenet, eredmény. */
+type JobFile = 'job' | 'input' | 'result';
+
+/** Egy job SSE eseménye; finished: ez az utolsó (a job befejeződött). */
+interface JobChange {
+  id: string;
+  finished: boolean;
+  event: MessageEvent;
+}
+
+/**
+ * JobsService:
+ * háttérben futó /csv/clean kérések, korlátos párhuzamossággal.
+ *
+ * - a jobok FIFO sorban várakoznak, egyszerre legfeljebb JOBS_CONCURRENCY
+ *   fut (ugyanebben a processzben)
+ * - minden job a JOBS_DIR könyvtárban van: <id>.json (állapot),
+ *   <id>.input.json (a kérés, amíg a job be nem fejeződik),
+ *   <id>.result.json (a sikeres futás válasza)
+ * - induláskor a félbemaradt (queued / running) jobok visszakerülnek a
+ *   sorba és elölről futnak; a JOBS_RETENTION_HOURS-nál régebben
+ *   befejezett jobokat töröljük
+ *
+ * A haladást (progress) csak memóriában tartjuk, a lemezre az
+ * állapotváltások kerülnek. Mindkettő SSE eseményként is követhető
+ * (events).
+ */
+@Injectable()
+export class JobsService implements OnModuleInit {
+  private readonly logger = new Logger(JobsService.name);
+
+  private readonly jobs = new Map<string, Job>();
+  private readonly queue: string[] = [];
+  private readonly running = new Map<string, AbortController>();
+  /** Jobonként sorba fűzött írások, hogy a régebbi állapot ne írja felül az újat. */
+  private readonly writes = new Map<string, Promise<void>>();
+  private readonly changes = new Subject<JobChange>();
+
+  constructor(
+    @Inject(jobsConfig.KEY) private readonly config: JobsConfig,
+    private readonly csvService: CsvService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await mkdir(this.config.dir, { recursive: true });
+
+    const ids = (await readdir(this.config.dir))
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .filter((id) => isUUID(id));
+    const stored = await Promise.all(
+      ids.map((id) => readJson<Job>(this.filePath(id, 'job'))),
+    );
+
+    for (const job of stored.sort(byCreatedAt)) {
+      if (isFinished(job)) {
+        this.jobs.set(job.id, job);
+        continue;
+      }
+
+      const resumed: Job = {
+        id: job.id,
+        type: job.type,
+        status: 'queued',
+        createdAt: job.createdAt,
+      };
+      this.jobs.set(resumed.id, resumed);
+      this.queue.push(resumed.id);
+      await this.persist(resumed);
+    }
+
+    if (this.queue.length > 0) {
+      this.logger.log(`JOBS: resuming ${this.queue.length} unfinished job(s)`);
+    }
+    await this.pruneExpired();
+    this.pump();
+  }
+
+  /** Új clean job; tele sornál 429. */
+  async createCsvClean(dto: CleanCsvDto): Promise<Job> {
+    if (this.queue.length >= this.config.maxQueued) {
+      throw new HttpException(
+        'Job queue is full, try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    const job: Job = {
+      id: randomUUID(),
+      type: 'csv-clean',
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+    };
+
+    await writeJson(this.filePath(job.id, 'input'), dto);
+    await this.persist(job);
+    this.jobs.set(job.id, job);
+    this.queue.push(job.id);
+    this.pump();
+
+    return this.toView(job);
+  }
+
+  /** Egy job állapota; ismeretlenre 404. */
+  get(id: string): Job {
+    return this.toView(this.find(id));
+  }
+
+  /** A sikeres job eredménye; más állapotban 409. */
+  async getResult(id: string): Promise<CleanCsvResponse> {
+    const job = this.find(id);
+    if (job.status !== 'succeeded') {
+      throw new ConflictException(
+        `Job ${id} is ${job.status}, it has no result.`,
+      );
+    }
+    return readJson<CleanCsvResponse>(this.filePath(id, 'result'));
+  }
+
+  /**
+   * A job eseményei (SSE): először az aktuális állapot (status), utána a
+   * haladás (progress) és az állapotváltások, a befejező status eseményig.
+   *
+   * Az állapotot a feliratkozáskor olvassuk (nem a híváskor), és ugyanabban
+   * a lépésben iratkozunk fel a változásokra, így a kettő között befejeződő
+   * job záró eseménye sem veszhet el.
+   */
+  events(id: string): Observable<MessageEvent> {
+    const job = this.find(id);
+
+    return defer(() => {
+      const current = of(this.statusEvent(job));
+      if (isFinished(job)) {
+        return current;
+      }
+
+      return concat(
+        current,
+        this.changes.pipe(
+          filter((change) => change.id === id),
+          takeWhile((change) => !change.finished, true),
+          map((change) => change.event),
+        ),
+      );
+    });
+  }
+
+  /**
+   * Megszakítás: a várakozó job kikerül a sorból, a futót a következő
+   * szakaszhatáron (vagy a folyamatban lévő AI hívásban) állítjuk le.
+   * A már befejezett jobot nem módosítjuk.
+   */
+  async cancel(id: string): Promise<Job> {
+    const job = this.find(id);
+    if (isFinished(job)) {
+      return this.toView(job);
+    }
+
+    if (job.status === 'queued') {
+      this.queue.splice(this.queue.indexOf(id), 1);
+      await rm(this.filePath(id, 'input'), { force: true });
+    }
+    this.finish(job, 'cancelled');
+    this.running.get(id)?.abort();
+    await this.persist(job);
+
+    this.logger.log(`JOBS: job ${id} cancelled`);
+    return this.toView(job);
+  }
+
+  /** Annyi jobot indít a sor elejéről, amennyit a párhuzamossági korlát enged. */
+  private pump(): void {
+    while (
+      this.running.size < this.config.concurrency &&
+      this.queue.length > 0
+    ) {
+      const id = this.queue.shift() as string;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+
+      void this.execute(this.jobs.get(id) as Job, controller.signal)
+        .catch((error: Error) =>
+          this.logger.error(`JOBS: job ${id} could not be stored: ${error}`),
+        )
+        .finally(() => {
+          this.running.delete(id);
+          this.pump();
+        });
+    }
+  }
+
+  private async execute(job: Job, signal: AbortSignal): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.publishStatus(job);
+    const inputFile = this.filePath(job.id, 'input');
+
+    try {
+      await this.persist(job);
+      const dto = await readJson<CleanCsvDto>(inputFile);
+      const result = await this.csvService.cleanCsv(dto, {
+        signal,
+        onProgress: (progress) => {
+          job.progress = progress;
+          this.changes.next({
+            id: job.id,
+            finished: false,
+            event: { type: 'progress', data: progress },
+          });
+        },
+      });
+
+      // közben (akár az eredmény írása alatt) megszakították: a cancel már
+      // mentette az állapotot, az eredményt eldobjuk
+      if (signal.aborted) {
+        return;
+      }
+      const resultFile = this.filePath(job.id, 'result');
+      await writeJson(resultFile, result);
+      if (signal.aborted) {
+        await rm(resultFile, { force: true });
+        return;
+      }
+      this.finish(job, 'succeeded');
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+      job.error = toJobError(error);
+      this.finish(job, 'failed');
+      this.logger.warn(`JOBS: job ${job.id} failed: ${job.error.message}`);
+    } finally {
+      await rm(inputFile, { force: true });
+    }
+
+    await this.persist(job);
+    await this.pruneExpired();
+  }
+
+  private finish(job: Job, status: JobStatus): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    this.publishStatus(job);
+  }
+
+  private publishStatus(job: Job): void {
+    this.changes.next({
+      id: job.id,
+      finished: isFinished(job),
+      event: this.statusEvent(job),
+    });
+  }
+
+  private statusEvent(job: Job): MessageEvent {
+    return { type: 'status', data: this.toView(job) };
+  }
+
+  /** A JOBS_RETENTION_HOURS-nál régebben befejezett jobok törlése. */
+  private async pruneExpired(): Promise<void> {
+    const expiry = Date.now() - this.config.retentionHours * 3_600_000;
+
+    for (const job of [...this.jobs.values()]) {
+      if (isFinished(job) && Date.parse(job.finishedAt ?? '') < expiry) {
+        this.jobs.delete(job.id);
+        for (const file of ['job', 'input', 'result'] as const) {
+          await rm(this.filePath(job.id, file), { force: true });
+        }
+      }
+    }
+  }
+
+  private find(id: string): Job {
+    const job = isUUID(id) ? this.jobs.get(id) : undefined;
+    if (!job) {
+      throw new NotFoundException(`Job ${id} not found.`);
+    }
+    return job;
+  }
+
+  /** API alak: másolat, várakozó jobnál a sorbeli hellyel. */
+  private toView(job: Job): Job {
+    const view: Job = { ...job };
+    if (job.status === 'queued') {
+      view.queuePosition = this.queue.indexOf(job.id) + 1;
+    }
+    return view;
+  }
+
+  /** Az állapot mentése (progress nélkül), az előző írások után. */
+  private persist(job: Job): Promise<void> {
+    const snapshot: Job = { ...job };
+    delete snapshot.progress;
+
+    const previous = this.writes.get(job.id) ?? Promise.resolve();
+    const write = previous.then(() =>
+      writeJson(this.filePath(job.id, 'job'), snapshot),
+    );
+    this.writes.set(job.id, write);
+    return write.finally(() => {
+      if (this.writes.get(job.id) === write) {
+        this.writes.delete(job.id);
+      }
+    });
+  }
+
+  private filePath(id: string, file: JobFile): string {
+    const suffix = file === 'job' ? '' : `.${file}`;
+    return join(this.config.dir, `${id}${suffix}.json`);
+  }
+}
+
+/** A hiba a szinkron endpoint válaszának alakjában (HttpException-ből). */
+function toJobError(error: unknown): JobError {
+  if (error instanceof HttpException) {
+    const response = error.getResponse();
+    const body =
+      typeof response === 'string' ? { message: response } : response;
+    const { message, errors } = body as {
+      message?: unknown;
+      errors?: unknown;
+    };
+
+    const jobError: JobError = {
+      statusCode: error.getStatus(),
+      message: Array.isArray(message)
+        ? message.join('; ')
+        : typeof message === 'string'
+          ? message
+          : error.message,
+    };
+    if (Array.isArray(errors)) {
+      jobError.errors = errors.map(String);
+    }
+    return jobError;
+  }
+
+  return {
+    statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+function isFinished(job: Job): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+function byCreatedAt(a: Job, b: Job): number {
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  return JSON.parse(await readFile(file, 'utf-8')) as T;
+}
+
+/** Ideiglenes fájlon + átnevezésen keresztül, mint a recepteknél. */
+async function writeJson(file: string, value: unknown): Promise<void> {
+  const temp = `${file}.tmp`;
+  await writeFile(temp, JSON.stringify(value), 'utf-8');
+  await rename(temp, file);
+}
@@ -0,0 +1,46 @@
+import type { CleaningProgress } from '../../csv/models/cleaning-progress.model';
+
+export const JOB_TYPES = ['csv-clean'] as const;
+export type JobType = (typeof JOB_TYPES)[number];
+
+/**
+ * - queued: várakozik (újraindítás után a félbemaradt jobok is ide
+ *   kerülnek vissza, és elölről futnak)
+ * - running: fut; succeeded / failed / cancelled: befejeződött
+ */
+export const JOB_STATUSES = [
+  'queued',
+  'running',
+  'succeeded',
+  'failed',
+  'cancelled',
+] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** Egy sikertelen job hibája, ahogy a szinkron endpoint adta volna. */
+export interface JobError {
+  statusCode: number;
+  message: string;
+  errors?: string[];
+}
+
+/**
+ * Egy háttér-job állapota (GET /jobs/:id).
+ *
+ * - progress: a futás szakasza és becsült készültsége (0-100); az első
+ *   szakaszig (és újraindítás után) nincs
+ * - queuePosition: hányadik a várakozók között (1-től, csak queued esetén)
+ * - createdAt / startedAt / finishedAt: ISO időpontok
+ * - error: csak failed esetén
+ */
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  progress?: CleaningProgress;
+  queuePosition?: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: JobError;
+}